@@ -1,4 +1,4 @@
-import { app, BrowserWindow, dialog, ipcMain } from 'electron'
+import { app, BrowserWindow, dialog, ipcMain, type WebContents } from 'electron'
 import path from 'path'
 import fs from 'fs/promises'
 import fssync from 'fs'
@@ -9,19 +9,75 @@ import { electronApp, optimizer, is } from '@electron-toolkit/utils'
 import dotenv from 'dotenv'
 
 import type {
+  AgentTranscript,
+  AiMode,
   AppSettings,
   CreateProjectRequest,
   ProjectSummary,
   TemplateSummary,
   FileTreeNode,
+  ChatAttachment,
   ChatMessage,
+  AiReview,
+  AiReviewDecision,
+  AiConflictResolution,
+  AiDependencyDecision,
+  AiRunError,
+  AiRunEvent,
+  AiRunProgress,
   AiRunRequest,
-  AiRunResult
+  AiRunResult,
+  ModelListRequest,
+  ModelListResult,
+  OllamaModelDetails,
+  OllamaPullStatus,
+  PreviewStatus
 } from '../shared/types'
 
 // Milestone 2 modules (kept in packages/, imported as source to avoid build-order friction in dev)
-import { createAIEngine, type ChatMessage as EngineChatMessage } from '../../../../packages/engine/src/index'
-import { parseAiResponse, applyChanges } from '../../../../packages/codegen/src/index'
+import {
+  AuthError,
+  CancelledError,
+  ConnectionError,
+  createAIEngine,
+  createOllamaModelManager,
+  isEngineError,
+  type AIEngine,
+  type ChatCompletionInfo,
+  type ChatMessage as EngineChatMessage,
+  type CreateEngineOptions,
+  type EngineProvider,
+  type RetryInfo,
+  type ToolDefinition
+} from '../../../../packages/engine/src/index'
+import {
+  parseAiResponse,
+  parseStructuredAiResponse,
+  allowInProject,
+  applyChanges,
+  choosePackageManager,
+  createProjectTools,
+  planChanges,
+  createSnapshotStore,
+  typecheckChanges,
+  formatDiagnostics,
+  verifyProject,
+  ApplyError,
+  AI_RESPONSE_SCHEMA,
+  type AiResponseFormat,
+  type ApplyResult,
+  type EditFailure,
+  type FileChange,
+  type RegistryOptions,
+  type TypecheckDiagnostic,
+  type TypecheckResult,
+  type VerifyProblem,
+  type VerifyResult
+} from '../../../../packages/codegen/src/index'
+import {
+  createPreviewManager,
+  type PreviewStatus as PreviewProcessStatus
+} from '../../../../packages/preview/src/index'
 
 /**
  * Load .env (in dev, this will pick up apps/studio/.env).
@@ -30,6 +86,20 @@ dotenv.config()
 
 const PROJECT_META_PATH = path.join('.vorbyte', 'project.json')
 const CHAT_HISTORY_PATH = path.join('.vorbyte', 'chat.json')
+const ATTACHMENTS_DIR = path.join('.vorbyte', 'attachments')
+const TRANSCRIPTS_DIR = path.join('.vorbyte', 'transcripts')
+const AGENT_MAX_STEPS = 12
+// Rounds of "here are the type errors, fix them" before the changes are applied as they are.
+const MAX_REPAIR_ROUNDS = 2
+// Verify mode: rounds of "here is what lint/build reported, fix it" after the first check.
+const MAX_FIX_ROUNDS = 3
+const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024
+const ATTACHMENT_EXTENSIONS: Record<string, string> = {
+  'image/png': '.png',
+  'image/jpeg': '.jpg',
+  'image/gif': '.gif',
+  'image/webp': '.webp'
+}
 
 const SETTINGS_PATH = path.join(app.getPath('userData'), 'settings.json')
 
@@ -41,6 +111,25 @@ const SKIP_COPY_NAMES = new Set(['node_modules', '.next', '.git', '.DS_Store', '
  */
 const aiRuns = new Map<string, AbortController>()
 
+function broadcast(channel: string, ...args: unknown[]) {
+  for (const w of BrowserWindow.getAllWindows()) {
+    if (!w.webContents.isDestroyed()) w.webContents.send(channel, ...args)
+  }
+}
+
+function toPreviewStatus(s: PreviewProcessStatus): PreviewStatus {
+  const { projectDir, pid: _pid, ...rest } = s
+  return { projectPath: projectDir, ...rest }
+}
+
+/**
+ * Milestone 3: one `next dev` per open project, cleaned up on close/quit.
+ */
+const previews = createPreviewManager({
+  onStatus: (s) => broadcast('preview:status', toPreviewStatus(s)),
+  onLog: (projectDir, line) => broadcast('preview:log', projectDir, line)
+})
+
 function firstEnv(names: string[]): string | undefined {
   for (const n of names) {
     const v = process.env[n]
@@ -166,6 +255,7 @@ async function loadSettings(): Promise<AppSettings> {
   const defaults: AppSettings = {
     projectsRoot: defaultProjectsRoot(),
     openaiApiKey: '',
+    anthropicApiKey: '',
     aiMode: 'cloud',
     cloudModel: 'gpt-4o-mini',
     localModelPath: 'ollama:llama3.1',
@@ -446,8 +536,127 @@ async function buildTree(rootPath: string, maxDepth = 5, depth = 0): Promise<Fil
   return node
 }
 
-function toEngineMessages(chat: ChatMessage[]): EngineChatMessage[] {
-  return chat.map((m) => ({ role: m.role, content: m.content }))
+function toEngineMessages(chat: ChatMessage[], projectPath: string): EngineChatMessage[] {
+  // Only the newest message's images are sent; older ones are just named to keep prompts small.
+  return chat.map((m, i) => {
+    const attachments = m.attachments ?? []
+    if (attachments.length === 0) return { role: m.role, content: m.content }
+    if (i < chat.length - 1) {
+      return { role: m.role, content: `${m.content}\n\n${attachments.map((a) => `[image: ${a.name}]`).join(' ')}` }
+    }
+    const images = attachments.map((a) => ({
+      type: 'image' as const,
+      path: path.join(projectPath, a.path),
+      mimeType: a.mimeType
+    }))
+    // Image-only prompts have no text; Anthropic rejects empty text blocks.
+    return { role: m.role, content: m.content ? [{ type: 'text' as const, text: m.content }, ...images] : images }
+  })
+}
+
+/**
+ * Write images sent with a prompt to .vorbyte/attachments so the chat history can refer to them.
+ */
+async function saveAttachments(projectPath: string, attachments: AiRunRequest['attachments'] = []) {
+  const saved: ChatAttachment[] = []
+  for (const a of attachments) {
+    const m = a.dataUrl.match(/^data:([^;,]+);base64,(.*)$/s)
+    const ext = m ? ATTACHMENT_EXTENSIONS[m[1]] : undefined
+    if (!m || !ext) throw new Error(`Unsupported attachment: ${a.name} (use png, jpeg, gif or webp)`)
+
+    const data = Buffer.from(m[2], 'base64')
+    if (data.length > MAX_ATTACHMENT_BYTES) throw new Error(`Attachment too large: ${a.name} (max 10 MB)`)
+
+    const id = crypto.randomUUID()
+    await ensureDir(path.join(projectPath, ATTACHMENTS_DIR))
+    await fs.writeFile(path.join(projectPath, ATTACHMENTS_DIR, `${id}${ext}`), data)
+    saved.push({ id, name: a.name, mimeType: m[1], path: `.vorbyte/attachments/${id}${ext}`, size: data.length })
+  }
+  return saved
+}
+
+function attachmentFilePath(projectPath: string, attachment: ChatAttachment) {
+  const dir = path.resolve(projectPath, ATTACHMENTS_DIR)
+  const abs = path.resolve(projectPath, attachment.path)
+  if (!abs.startsWith(dir + path.sep)) throw new Error(`Invalid attachment path: ${attachment.path}`)
+  return abs
+}
+
+function buildAgentPrompt(maxSteps: number): string {
+  return [
+    'Agent mode: you can call tools to look at the project before answering.',
+    '- read_file, list_dir and grep show you the current code; typecheck runs tsc --noEmit.',
+    '- Read every file you are going to change before rewriting it.',
+    '- The tools are read-only. When you are done, reply in the output format described above.',
+    `- You have at most ${maxSteps} rounds of tool calls.`
+  ].join('\n')
+}
+
+function buildRepairPrompt(diagnostics: TypecheckDiagnostic[], format: AiResponseFormat): string {
+  return [
+    'Your changes do not typecheck. TypeScript reports:',
+    '',
+    formatDiagnostics(diagnostics, 30),
+    '',
+    'Your previous changes will be applied first, then these corrections on top of them.',
+    format === 'json'
+      ? 'Reply with the same JSON format, listing only the files that need fixing (full content or edits).'
+      : 'Reply with File: blocks (full content or edits) for only the files that need fixing.'
+  ].join('\n')
+}
+
+function describeProblem(p: VerifyProblem) {
+  const where = p.file ? `${p.file}${p.line ? `:${p.line}:${p.column}` : ''}: ` : ''
+  return `${where}${p.message}${p.rule ? ` (${p.rule})` : ''}`
+}
+
+function buildVerifyFixPrompt(result: VerifyResult, format: AiResponseFormat): string {
+  const lines = ['Your changes are applied, but the project does not build cleanly.']
+  for (const step of result.steps.filter((s) => s.status === 'failed')) {
+    const errors = step.problems.filter((p) => p.severity === 'error')
+    lines.push('', `\`${step.script}\` failed${step.reason ? ` (${step.reason})` : ''}:`)
+    if (errors.length > 0) lines.push(...errors.slice(0, 30).map((p) => `- ${describeProblem(p)}`))
+    else lines.push('```', step.output, '```')
+  }
+  lines.push(
+    '',
+    'Common causes in Next.js: hooks or event handlers in a component without "use client", server-only code',
+    'imported into a client component, and `metadata` exported from a "use client" file.',
+    format === 'json'
+      ? 'Reply with the same JSON format, listing only the files that need fixing (full content or edits).'
+      : 'Reply with File: blocks (full content or edits) for only the files that need fixing.'
+  )
+  return lines.join('\n')
+}
+
+function describeVerification(result: VerifyResult, round: number): string {
+  const ran = result.steps.filter((s) => s.status !== 'skipped')
+  const skipped = result.steps
+    .filter((s) => s.status === 'skipped')
+    .map((s) => `- \`${s.script}\` skipped: ${s.reason}`)
+  if (ran.length === 0) return ['⏭️ Build check skipped.', ...skipped].join('\n')
+  if (result.ok) {
+    return [`✅ Check ${round}: ${ran.map((s) => `\`${s.script}\``).join(' and ')} passed.`, ...skipped].join('\n')
+  }
+
+  const parts = [`🔍 Check ${round} failed:`]
+  for (const step of ran) {
+    const errors = step.problems.filter((p) => p.severity === 'error')
+    if (step.status === 'passed') {
+      parts.push(`- \`${step.script}\` passed`)
+      continue
+    }
+    const count = errors.length > 0 ? `${errors.length} error${errors.length === 1 ? '' : 's'}` : 'failed'
+    parts.push(`- \`${step.script}\`: ${step.reason ?? count}`)
+    parts.push(...errors.slice(0, 10).map((p) => `  - ${describeProblem(p)}`))
+    if (errors.length > 10) parts.push(`  - … ${errors.length - 10} more`)
+  }
+  return [...parts, ...skipped].join('\n')
+}
+
+function describeToolCall(args: Record<string, unknown>) {
+  const main = args.path ?? args.pattern
+  return typeof main === 'string' ? main : undefined
 }
 
 async function loadChat(projectPath: string): Promise<ChatMessage[]> {
@@ -461,8 +670,50 @@ async function saveChat(projectPath: string, chat: ChatMessage[]) {
   await writeJsonAtomic(chatPath, chat)
 }
 
-function buildSystemPrompt(): string {
-  return [
+/**
+ * Files at least this big are marked "(large)" in the file tree context; the prompt asks for
+ * targeted edits to those instead of full rewrites, which are slow and get cut off by the token limit.
+ */
+const LARGE_FILE_BYTES = 8 * 1024
+
+const EDIT_FORMAT_RULES = [
+  'Editing large files:',
+  '- Files marked (large) in the project file tree are too big to rewrite. If you know their current content',
+  '  exactly (from this chat or read_file), change them with SEARCH/REPLACE blocks instead of the full file:',
+  '',
+  '<<<<<<< SEARCH',
+  '...exact lines from the current file...',
+  '=======',
+  '...replacement lines...',
+  '>>>>>>> REPLACE',
+  '',
+  '- Keep each SEARCH short but unique in the file, and copy it character for character.',
+  '- A unified diff (@@ -l,n +l,n @@ hunks) is accepted too.',
+  ''
+]
+
+const JSON_OUTPUT_RULES = [
+  'Output format (VERY IMPORTANT):',
+  'Reply with a single JSON object and nothing else:',
+  '{"summary": "...", "renamed": [], "deleted": [], "files": [{"path": "...", "content": "...", "patch": null}],',
+  ' "dependencies": []}',
+  '',
+  '- summary: a short plain-English summary (what you changed).',
+  '- renamed: files to move, as {"from": "old/path", "to": "new/path"}. deleted: paths of files to remove.',
+  '  Both are applied before files, so you can edit a renamed file at its new path.',
+  '- files: every file you want to create or change. Set exactly one of content / patch, the other to null:',
+  '  - content: the FULL new file content.',
+  '  - patch: SEARCH/REPLACE blocks or a unified diff against the current file (see "Editing large files").',
+  '- dependencies: new npm packages you introduce (empty array if none). Add a range when the major',
+  '  matters for this project\'s React/Next versions: "react-icons@^5".',
+  '',
+  'Rules:',
+  '- Use relative paths only. Do NOT use absolute paths.',
+  '- If no files need changing, return an empty files array.'
+]
+
+function buildSystemPrompt(format: AiResponseFormat): string {
+  const header = [
     'You are VorByte, an expert Next.js (App Router) + Tailwind + shadcn/ui developer.',
     '',
     'Your job is to generate or modify code in the user\'s Next.js project.',
@@ -472,21 +723,31 @@ function buildSystemPrompt(): string {
     '- Use Tailwind for styling.',
     '- Prefer functional React components.',
     '- Output MUST be parseable by the app.',
-    '',
+    ''
+  ]
+  if (format === 'json') return [...header, ...EDIT_FORMAT_RULES, ...JSON_OUTPUT_RULES].join('\n')
+
+  return [
+    ...header,
+    ...EDIT_FORMAT_RULES,
     'Output format (VERY IMPORTANT):',
     '1) Start with a short plain-English summary (what you changed).',
     '2) Then, for every file you want to create or change, output:',
     '',
     'File: relative/path/from/project/root',
     '```tsx',
-    '...full file content...',
+    '...full file content, or SEARCH/REPLACE blocks for a large file...',
     '```',
     '',
-    '3) If you introduce new npm dependencies, add a line:',
-    'Dependencies: ["package-a","package-b"]',
+    '3) To remove or move a file (e.g. when restructuring routes), add a line outside any code fence:',
+    'Delete: relative/path/to/old-file.tsx',
+    'Rename: relative/old/path.tsx -> relative/new/path.tsx',
+    '',
+    '4) If you introduce new npm dependencies, add a line (with a range when the major matters):',
+    'Dependencies: ["package-a","package-b@^2"]',
     '',
     'Rules:',
-    '- Always provide FULL file contents (not diffs).',
+    '- Provide FULL file contents, except for SEARCH/REPLACE edits to large files.',
     '- Use relative paths only. Do NOT use absolute paths.',
     '- Do NOT include prose inside code fences.',
     '- If no files need changing, output only the summary and no File blocks.'
@@ -509,7 +770,11 @@ async function buildFileTreeContext(projectPath: string): Promise<string> {
         out.push(rel + '/')
         await walk(abs, rel)
       } else {
-        out.push(rel)
+        const size = await fs
+          .stat(abs)
+          .then((st) => st.size)
+          .catch(() => 0)
+        out.push(size >= LARGE_FILE_BYTES ? `${rel} (large)` : rel)
       }
       if (out.length >= maxFiles) return
     }
@@ -534,7 +799,322 @@ function parseLocalModel(raw: string | undefined): { provider: 'ollama'; model:
   return { provider: 'ollama', model: v }
 }
 
-async function runAiAndApply(req: AiRunRequest): Promise<AiRunResult> {
+type CloudProvider = 'openai' | 'anthropic'
+
+function parseCloudModel(raw: string | undefined): { provider: CloudProvider; model: string } {
+  const fallback = { provider: 'openai' as const, model: 'gpt-4o-mini' }
+  if (!raw) return fallback
+  const v = raw.trim()
+  if (!v) return fallback
+  const idx = v.indexOf(':')
+  if (idx > 0) {
+    const provider = v.slice(0, idx).trim().toLowerCase()
+    const model = v.slice(idx + 1).trim()
+    if ((provider === 'openai' || provider === 'anthropic') && model) return { provider, model }
+  }
+  // No provider prefix: Claude model ids are unambiguous, anything else goes to OpenAI(-compatible).
+  if (/^claude-/i.test(v)) return { provider: 'anthropic', model: v }
+  return { provider: 'openai', model: v }
+}
+
+interface AiTarget {
+  provider: EngineProvider
+  model: string
+}
+
+/**
+ * The AI choices in `.vorbyte/project.json`, as written when the project is created.
+ */
+interface ProjectAiMeta {
+  ai?: {
+    aiMode?: AiMode
+    cloudModel?: string | null
+    localModel?: string | null
+  }
+}
+
+/**
+ * Project meta wins over global settings, so each project can pin its own provider/model.
+ */
+function resolveAiTarget(settings: AppSettings, meta: ProjectAiMeta | null): AiTarget {
+  const aiMode: AiMode = meta?.ai?.aiMode ?? settings.aiMode ?? 'local'
+  if (aiMode === 'cloud') {
+    return parseCloudModel(meta?.ai?.cloudModel ?? settings.cloudModel ?? 'gpt-4o-mini')
+  }
+  return parseLocalModel(meta?.ai?.localModel ?? settings.localModelPath ?? 'ollama:llama3.1')
+}
+
+function isLocalBaseUrl(baseUrl: string | undefined) {
+  return !!baseUrl && /(localhost|127\.0\.0\.1|::1|\[::1\])/.test(baseUrl)
+}
+
+function createEngineForTarget(
+  target: AiTarget,
+  settings: AppSettings,
+  engineOpts: Pick<CreateEngineOptions, 'retry'> = {}
+): AIEngine {
+  if (target.provider === 'openai') {
+    const baseUrl = firstEnv(['VORBYTE_OPENAI_BASE_URL', 'vorbyte_OPENAI_BASE_URL'])
+    const apiKey = settings.openaiApiKey?.trim() ?? ''
+    if (!apiKey && !isLocalBaseUrl(baseUrl)) {
+      throw new AuthError('OpenAI API key is missing.', {
+        provider: 'openai',
+        model: target.model,
+        hint: 'Go to Settings → OpenAI API Key and paste your key, then try again. For offline use, create the project with AI Mode = Local (Ollama).'
+      })
+    }
+    return createAIEngine({
+      ...engineOpts,
+      provider: 'openai',
+      openai: { apiKey: apiKey || 'local', model: target.model, baseUrl, temperature: 0.2 }
+    })
+  }
+
+  if (target.provider === 'anthropic') {
+    const baseUrl = firstEnv(['VORBYTE_ANTHROPIC_BASE_URL', 'vorbyte_ANTHROPIC_BASE_URL'])
+    const apiKey = settings.anthropicApiKey?.trim() ?? ''
+    if (!apiKey && !isLocalBaseUrl(baseUrl)) {
+      throw new AuthError('Anthropic API key is missing.', {
+        provider: 'anthropic',
+        model: target.model,
+        hint: 'Go to Settings → Anthropic API Key and paste your key, then try again. For offline use, create the project with AI Mode = Local (Ollama).'
+      })
+    }
+    return createAIEngine({
+      ...engineOpts,
+      provider: 'anthropic',
+      anthropic: { apiKey: apiKey || 'local', model: target.model, baseUrl, temperature: 0.2 }
+    })
+  }
+
+  return createAIEngine({
+    ...engineOpts,
+    provider: 'ollama',
+    ollama: { baseUrl: ollamaBaseUrlFor(settings), model: target.model, temperature: 0.2 }
+  })
+}
+
+/**
+ * Where codegen checks packages before installing them; fetched metadata is cached under
+ * userData so offline mode has something to go on.
+ */
+function registryOptionsFor(settings: AppSettings): RegistryOptions {
+  return {
+    url: settings.packageRegistryUrl?.trim() || firstEnv(['VORBYTE_NPM_REGISTRY']) || undefined,
+    offline: settings.packageRegistryOffline || undefined,
+    cacheDir: path.join(app.getPath('userData'), 'registry-cache')
+  }
+}
+
+function ollamaBaseUrlFor(settings: AppSettings) {
+  return (
+    settings.ollamaBaseUrl?.trim() ||
+    firstEnv(['VORBYTE_OLLAMA_BASE_URL', 'vorbyte_OLLAMA_BASE_URL']) ||
+    'http://127.0.0.1:11434'
+  )
+}
+
+/**
+ * Model downloads in flight, keyed by model name. Progress is broadcast on "ollama:pull"
+ * so a reopened model panel can pick up where it left off.
+ */
+const ollamaPulls = new Map<string, { ac: AbortController; status: OllamaPullStatus }>()
+
+async function pullOllamaModel(model: string): Promise<OllamaPullStatus> {
+  const existing = ollamaPulls.get(model)
+  if (existing) return existing.status
+
+  const manager = createOllamaModelManager({ baseUrl: ollamaBaseUrlFor(await loadSettings()) })
+  const ac = new AbortController()
+  const entry = { ac, status: { model, state: 'pulling', status: 'starting' } as OllamaPullStatus }
+  ollamaPulls.set(model, entry)
+
+  const update = (patch: Partial<OllamaPullStatus>) => {
+    entry.status = { ...entry.status, ...patch }
+    broadcast('ollama:pull', entry.status)
+  }
+  update({})
+
+  // Ollama sends a progress line per chunk; the UI only needs a few updates per second.
+  let lastSentAt = 0
+  try {
+    await manager.pull(model, {
+      signal: ac.signal,
+      onProgress: (p) => {
+        const now = Date.now()
+        if (p.status === entry.status.status && now - lastSentAt < 250) {
+          entry.status = { ...entry.status, completed: p.completed, total: p.total }
+          return
+        }
+        lastSentAt = now
+        update({ status: p.status, completed: p.completed, total: p.total })
+      }
+    })
+    update({ state: 'done', status: 'success' })
+  } catch (err) {
+    if (ac.signal.aborted) update({ state: 'cancelled', status: 'cancelled' })
+    else update({ state: 'error', status: 'failed', error: toAiRunError(err) })
+  } finally {
+    ollamaPulls.delete(model)
+  }
+  return entry.status
+}
+
+async function listModels(req: ModelListRequest): Promise<ModelListResult> {
+  const settings = { ...(await loadSettings()), ...req.settings }
+  try {
+    // Listing is interactive (dropdowns), so fail fast instead of retrying.
+    const engine = createEngineForTarget({ provider: req.provider, model: '' }, settings, { retry: false })
+    const models = await engine.listModels({ signal: AbortSignal.timeout(10_000) })
+    return {
+      provider: req.provider,
+      models: models.map((m) => ({
+        id: m.id,
+        displayName: m.displayName,
+        family: m.family,
+        parameterSize: m.parameterSize,
+        quantization: m.quantization,
+        sizeBytes: m.sizeBytes,
+        contextLength: m.contextLength
+      }))
+    }
+  } catch (err) {
+    return { provider: req.provider, models: [], error: toAiRunError(err) }
+  }
+}
+
+const CONFLICT_OUTCOMES: Record<AiConflictResolution, string> = {
+  ours: 'kept your version, the AI changes were not applied',
+  theirs: 'replaced with the AI version',
+  markers: 'written with conflict markers to resolve by hand'
+}
+
+function describeEditFailure(f: EditFailure) {
+  return `#${f.index} ${f.header ? `\`${f.header}\` ` : ''}— ${f.reason}`
+}
+
+/**
+ * Chat lines listing what a run did to the project, each section preceded by a blank line.
+ */
+function describeApplyResult(
+  res: ApplyResult,
+  planFailures: ApplyResult['failedEdits'] = [],
+  rejected: string[] = []
+): string[] {
+  const parts: string[] = []
+  if (res.writtenFiles.length > 0) {
+    parts.push('', '✅ Updated files:', ...res.writtenFiles.map((f) => `- ${f}`))
+  }
+  if (res.mergedFiles.length > 0) {
+    parts.push('', '🧩 Merged with your edits:', ...res.mergedFiles.map((f) => `- ${f}`))
+  }
+  if (res.conflicts.length > 0) {
+    parts.push('', '⚔️ Conflicted with your edits:')
+    parts.push(...res.conflicts.map((c) => `- ${c.path}: ${CONFLICT_OUTCOMES[c.resolution]}`))
+  }
+  if (res.renamedFiles.length > 0) {
+    parts.push('', '🔀 Renamed files:', ...res.renamedFiles.map((r) => `- ${r.from} → ${r.to}`))
+  }
+  if (res.deletedFiles.length > 0) {
+    parts.push('', '🗑️ Deleted files:', ...res.deletedFiles.map((f) => `- ${f}`))
+  }
+  const failedEdits = [...planFailures, ...res.failedEdits]
+  if (failedEdits.length > 0) {
+    parts.push('', '⚠️ Some edits did not match the current files (those files were left unchanged):')
+    for (const f of failedEdits) parts.push(...f.failures.map((h) => `- ${f.path}: ${describeEditFailure(h)}`))
+  }
+  if (rejected.length > 0) {
+    parts.push('', '🚫 Rejected in review (not applied):', ...rejected.map((f) => `- ${f}`))
+  }
+  if (res.installedDependencies.length > 0) {
+    parts.push('', '📦 Installed dependencies:', ...res.installedDependencies.map((d) => `- ${d}`))
+  }
+  if (res.installedDevDependencies.length > 0) {
+    parts.push('', '📦 Installed dev dependencies:', ...res.installedDevDependencies.map((d) => `- ${d}`))
+  }
+  if (res.skippedDependencies.length > 0) {
+    parts.push('', '🚫 Not installed:', ...res.skippedDependencies.map((d) => `- ${d.message}`))
+  }
+  if (res.dependencyWarnings.length > 0) {
+    parts.push('', '⚠️ Dependency warnings:', ...res.dependencyWarnings.map((d) => `- ${d.message}`))
+  }
+  return parts
+}
+
+// Runs parked until the renderer answers, by request id: review-mode runs (ai:review), runs
+// whose rewrites clash with hand edits (ai:resolveConflicts) and runs installing packages the
+// dependency policy holds back (ai:approveDependencies).
+const pendingReviews = new Map<string, (decision: AiReviewDecision) => void>()
+const pendingConflicts = new Map<string, (resolutions: Record<string, AiConflictResolution>) => void>()
+const pendingDependencyApprovals = new Map<string, (decision: AiDependencyDecision) => void>()
+
+/**
+ * Park a run until the renderer answers. Rejects if the run is cancelled or the window that
+ * would answer is closed, and drops the parked entry either way.
+ */
+function waitForRenderer<T>(
+  pending: Map<string, (answer: T) => void>,
+  requestId: string,
+  signal: AbortSignal,
+  sender: WebContents | undefined
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    if (!sender || sender.isDestroyed()) {
+      reject(new Error('No window to answer'))
+      return
+    }
+    const stop = (reason: string) => {
+      cleanup()
+      pending.delete(requestId)
+      reject(new Error(reason))
+    }
+    const onAbort = () => stop('Run was cancelled')
+    const onDestroyed = () => stop('The window was closed')
+    const cleanup = () => {
+      signal.removeEventListener('abort', onAbort)
+      sender.removeListener('destroyed', onDestroyed)
+    }
+    signal.addEventListener('abort', onAbort, { once: true })
+    sender.once('destroyed', onDestroyed)
+    pending.set(requestId, (answer) => {
+      cleanup()
+      resolve(answer)
+    })
+  })
+}
+
+function sendAiEvent(sender: WebContents | undefined, event: AiRunEvent) {
+  if (!sender || sender.isDestroyed()) return
+  sender.send('ai:event', event)
+}
+
+function toAiRunError(err: unknown): AiRunError {
+  if (isEngineError(err)) {
+    return {
+      code: err.code,
+      message: err.message,
+      provider: err.provider,
+      model: err.model,
+      status: err.status,
+      hint: err.hint
+    }
+  }
+  if (err instanceof ApplyError) {
+    // Cancelled while waiting for conflict resolutions.
+    if (isEngineError(err.cause)) return toAiRunError(err.cause)
+    return {
+      code: 'unknown',
+      message: err.message,
+      hint:
+        err.notRestored.length > 0
+          ? 'Some files could not be restored; check them before running again.'
+          : 'The project was left as it was before this run.'
+    }
+  }
+  return { code: 'unknown', message: err instanceof Error ? err.message : String(err) }
+}
+
+async function runAiAndApply(req: AiRunRequest, sender?: WebContents): Promise<AiRunResult> {
   const settings = await loadSettings()
   const projectPath = req.projectPath
 
@@ -544,104 +1124,508 @@ async function runAiAndApply(req: AiRunRequest): Promise<AiRunResult> {
   }
 
   const metaPath = path.join(projectPath, PROJECT_META_PATH)
-  const meta = (await readJson<any>(metaPath)) ?? {}
+  const meta = await readJson<ProjectAiMeta>(metaPath)
 
-  const aiMode: 'local' | 'cloud' = meta?.ai?.aiMode ?? settings.aiMode ?? 'local'
-  const cloudModel = meta?.ai?.cloudModel ?? settings.cloudModel ?? 'gpt-4o-mini'
-  const localModelRaw = meta?.ai?.localModel ?? settings.localModelPath ?? 'ollama:llama3.1'
+  const target = resolveAiTarget(settings, meta)
+  const registry = registryOptionsFor(settings)
 
   const requestId = req.requestId || crypto.randomUUID()
   const ac = new AbortController()
   aiRuns.set(requestId, ac)
 
-  // Basic timeout guard (prevents hung requests)
-  const timeoutMs = 3 * 60 * 1000
-  const timeout = setTimeout(() => ac.abort(), timeoutMs)
+  // Idle timeout guard (prevents hung requests). Re-armed on every streamed delta so slow
+  // local models aren't cut off while they're still producing tokens.
+  const idleTimeoutMs = 3 * 60 * 1000
+  let timedOut = false
+  const idle = () => {
+    timedOut = true
+    ac.abort()
+  }
+  let timeout = setTimeout(idle, idleTimeoutMs)
+  const touchTimeout = () => {
+    clearTimeout(timeout)
+    timeout = setTimeout(idle, idleTimeoutMs)
+  }
+  // The idle timeout aborts the run as well, but the user should hear that the model went quiet.
+  const cancelled = () => {
+    const opts = { provider: target.provider, model: target.model }
+    if (!timedOut) return new CancelledError('Generation was cancelled.', opts)
+    return new ConnectionError(`No response from ${target.model} for 3 minutes, so the run was stopped.`, {
+      ...opts,
+      hint: 'The model may be overloaded or stuck; try again, or pick a smaller model.'
+    })
+  }
+
+  const progress = (p: AiRunProgress) => sendAiEvent(sender, { type: 'progress', requestId, progress: p })
+  let attachments: ChatAttachment[] = []
 
   try {
-    const systemPrompt = buildSystemPrompt()
+    progress({ phase: 'context' })
     const treeContext = await buildFileTreeContext(projectPath)
 
     const chat = await loadChat(projectPath)
+    attachments = await saveAttachments(projectPath, req.attachments)
     const userMsg: ChatMessage = {
       id: crypto.randomUUID(),
       role: 'user',
       content: req.prompt,
-      createdAt: new Date().toISOString()
+      createdAt: new Date().toISOString(),
+      attachments: attachments.length > 0 ? attachments : undefined
     }
 
     const nextChat = [...chat, userMsg]
 
-    // Build provider engine
-    const engine =
-      aiMode === 'cloud'
-        ? (() => {
-            const baseUrl = firstEnv(['VORBYTE_OPENAI_BASE_URL', 'vorbyte_OPENAI_BASE_URL'])
-            const apiKey = settings.openaiApiKey?.trim() ?? ''
-            const isLocalBaseUrl = !!baseUrl && /(localhost|127\.0\.0\.1|::1|\[::1\])/.test(baseUrl)
-            if (!apiKey && !isLocalBaseUrl) {
-              throw new Error('OpenAI API key is missing.\n\nGo to Settings → OpenAI API Key and paste your key, then try again.\n\nTip: For offline/local use, create the project with AI Mode = Local (Ollama).')
-            }
-            return createAIEngine({
-              provider: 'openai',
-              openai: { apiKey: apiKey || 'local', model: cloudModel, baseUrl, temperature: 0.2 }
-            })
-          })()
-        : (() => {
-            const { model } = parseLocalModel(localModelRaw)
-            const baseUrl = firstEnv(['VORBYTE_OLLAMA_BASE_URL', 'vorbyte_OLLAMA_BASE_URL']) ?? 'http://127.0.0.1:11434'
-            return createAIEngine({
-              provider: 'ollama',
-              ollama: { baseUrl, model, temperature: 0.2 }
-            })
-          })()
+    const engine = createEngineForTarget(target, settings)
+    // Schema-constrained JSON where the model supports it; "File:" blocks otherwise.
+    const format: AiResponseFormat = engine.capabilities.structuredOutput ? 'json' : 'markdown'
+    const responseFormat =
+      format === 'json'
+        ? { type: 'json_schema' as const, name: 'vorbyte_changes', schema: AI_RESPONSE_SCHEMA }
+        : undefined
+    const tools = req.agent ? createProjectTools({ projectDir: projectPath, signal: ac.signal }) : null
 
     const messages: EngineChatMessage[] = [
-      { role: 'system', content: systemPrompt },
+      { role: 'system', content: buildSystemPrompt(format) },
+      ...(tools ? [{ role: 'system' as const, content: buildAgentPrompt(AGENT_MAX_STEPS) }] : []),
       { role: 'system', content: treeContext },
-      ...toEngineMessages(nextChat)
+      ...toEngineMessages(nextChat, projectPath)
     ]
 
-    const { text } = await engine.chat({ messages, signal: ac.signal, stream: false })
+    const onRetry = (info: RetryInfo) => {
+      // Waiting out a rate limit is progress too; don't let the idle timeout fire meanwhile.
+      touchTimeout()
+      progress({
+        phase: 'waiting',
+        provider: target.provider,
+        model: target.model,
+        retry: { attempt: info.attempt, maxRetries: info.maxRetries, delayMs: info.delayMs, reason: info.reason }
+      })
+    }
+
+    // One model turn, streamed to the renderer.
+    const generate = async (toolOpts?: { tools: ToolDefinition[]; toolChoice: 'auto' | 'none' }) => {
+      progress({ phase: 'waiting', provider: target.provider, model: target.model })
+      sendAiEvent(sender, { type: 'turn', requestId })
+      let text = ''
+      let lastGeneratingAt = 0
+      let final: ChatCompletionInfo | undefined
+      const stream = engine.chatStream({
+        messages,
+        signal: ac.signal,
+        stream: true,
+        onRetry,
+        responseFormat,
+        ...toolOpts
+      })
+      for await (const chunk of stream) {
+        if (chunk.final) final = chunk.final
+        if (!chunk.delta) continue
+        text += chunk.delta
+        touchTimeout()
+        sendAiEvent(sender, { type: 'delta', requestId, delta: chunk.delta })
+
+        // Throttled: the renderer only needs a rough character count.
+        const now = Date.now()
+        if (now - lastGeneratingAt > 250) {
+          lastGeneratingAt = now
+          progress({ phase: 'generating', chars: text.length })
+        }
+      }
+
+      // Never apply a partial response from a cancelled (or timed out) run.
+      if (!final || final.finishReason === 'cancelled') throw cancelled()
+      return { text, final }
+    }
+
+    const startedAt = Date.now()
+    const transcript: AgentTranscript['steps'] = []
+    let promptTokens: number | undefined
+    let completionTokens: number | undefined
+    let text: string
+    let final: ChatCompletionInfo
+    const addUsage = (info: ChatCompletionInfo) => {
+      if (info.usage?.promptTokens !== undefined) promptTokens = (promptTokens ?? 0) + info.usage.promptTokens
+      if (info.usage?.completionTokens !== undefined) {
+        completionTokens = (completionTokens ?? 0) + info.usage.completionTokens
+      }
+    }
+
+    // Agent mode: keep answering tool calls until the model replies without any, or the step
+    // budget runs out (then it has to answer without tools).
+    for (let step = 1; ; step++) {
+      const lastStep = !tools || step > AGENT_MAX_STEPS
+      if (tools && lastStep) {
+        messages.push({
+          role: 'user',
+          content:
+            format === 'json'
+              ? 'You have used all tool rounds. Reply now with your JSON answer, without tool calls.'
+              : 'You have used all tool rounds. Reply now with your summary and File: blocks, without tool calls.'
+        })
+      }
+
+      const toolChoice = lastStep ? 'none' : 'auto'
+      const turn = await generate(tools ? { tools: tools.definitions, toolChoice } : undefined)
+      text = turn.text
+      final = turn.final
+      addUsage(final)
+
+      if (!tools || lastStep || !final.toolCalls?.length) break
+
+      messages.push({ role: 'assistant', content: text, toolCalls: final.toolCalls })
+      const entry: AgentTranscript['steps'][number] = { step, text, toolCalls: [] }
+      transcript.push(entry)
+      for (const call of final.toolCalls) {
+        progress({
+          phase: 'tool',
+          step,
+          maxSteps: AGENT_MAX_STEPS,
+          tool: call.name,
+          detail: describeToolCall(call.arguments)
+        })
+        const toolStartedAt = Date.now()
+        let output: string
+        let ok = true
+        try {
+          output = await tools.run(call.name, call.arguments)
+        } catch (err) {
+          if (ac.signal.aborted) throw cancelled()
+          ok = false
+          output = `Error: ${err instanceof Error ? err.message : String(err)}`
+        }
+        touchTimeout()
+        messages.push({ role: 'tool', content: output, toolCallId: call.id, toolName: call.name })
+        entry.toolCalls.push({ ...call, output, ok, durationMs: Date.now() - toolStartedAt })
+      }
+      if (ac.signal.aborted) throw cancelled()
+    }
 
     // Parse code blocks + deps
-    const parsed = parseAiResponse(text)
+    const parse = (reply: string) => (format === 'json' ? parseStructuredAiResponse(reply) : parseAiResponse(reply))
+    const parsed = parse(text)
+    progress({ phase: 'parsing', fileCount: parsed.files.length, dependencyCount: parsed.dependencies.length })
+
+    let files = parsed.files
+    let dependencies = parsed.dependencies
+    let devDependencies: string[] = []
+
+    const checkTypes = async (changes: FileChange[]): Promise<TypecheckResult> => {
+      if (changes.length === 0) return { checked: false, skipped: 'No file changes.', diagnostics: [] }
+      progress({ phase: 'typechecking' })
+      try {
+        return await typecheckChanges({ projectDir: projectPath, files: changes })
+      } catch (err) {
+        // e.g. an unsafe path; applyChanges reports that properly.
+        const message = err instanceof Error ? err.message : String(err)
+        return { checked: false, skipped: `Typecheck failed: ${message}`, diagnostics: [] }
+      }
+    }
+
+    // Typecheck the changes in memory and hand any errors back to the model. Its corrections
+    // are applied on top of the earlier changes.
+    let typecheck = await checkTypes(files)
+    let repairRounds = 0
+    while (typecheck.diagnostics.length > 0 && repairRounds < MAX_REPAIR_ROUNDS) {
+      if (ac.signal.aborted) throw cancelled()
+      repairRounds++
+      progress({
+        phase: 'repairing',
+        round: repairRounds,
+        maxRounds: MAX_REPAIR_ROUNDS,
+        errorCount: typecheck.diagnostics.length
+      })
+      messages.push({ role: 'assistant', content: text })
+      messages.push({ role: 'user', content: buildRepairPrompt(typecheck.diagnostics, format) })
+      // Providers want the tool definitions whenever the history has tool calls.
+      const turn = await generate(tools ? { tools: tools.definitions, toolChoice: 'none' } : undefined)
+      text = turn.text
+      final = turn.final
+      addUsage(final)
+      const fix = parse(text)
+      files = [...files, ...fix.files]
+      dependencies = [...new Set([...dependencies, ...fix.dependencies])]
+      typecheck = await checkTypes(files)
+    }
+    if (ac.signal.aborted) throw cancelled()
+    let planFailures: ApplyResult['failedEdits'] = []
+    let rejected: string[] = []
+
+    // Review mode: show the plan and wait for the user before anything touches the project.
+    if (req.review && files.length > 0) {
+      const plan = await planChanges({
+        projectDir: projectPath,
+        files,
+        dependencies,
+        registry,
+        policy: settings.dependencyPolicy
+      })
+      const review: AiReview = {
+        files: plan.files.map((f, i) => ({
+          id: String(i),
+          path: f.path,
+          from: f.from,
+          status: f.status,
+          diff: f.diff,
+          failures: f.failures?.map(describeEditFailure)
+        })),
+        dependencies: plan.dependencies,
+        devDependencies: plan.devDependencies,
+        dependencyIssues: [...plan.skippedDependencies, ...plan.dependencyWarnings].map((d) => d.message)
+      }
+      progress({ phase: 'review', fileCount: plan.files.length })
+      // The user can take as long as they like.
+      clearTimeout(timeout)
+      sendAiEvent(sender, { type: 'review', requestId, review })
+      const decision = await waitForRenderer(pendingReviews, requestId, ac.signal, sender).catch(() => {
+        throw cancelled()
+      })
+
+      const accepted = new Set(decision.accept)
+      const applicable = plan.files.filter((f) => f.status !== 'failed' && f.status !== 'unchanged')
+      files = applicable.filter((f) => accepted.has(String(plan.files.indexOf(f)))).map((f) => f.change)
+      rejected = applicable.filter((f) => !accepted.has(String(plan.files.indexOf(f)))).map((f) => f.path)
+      dependencies = decision.installDependencies ? plan.dependencies : []
+      devDependencies = decision.installDependencies ? plan.devDependencies : []
+      planFailures = plan.files.flatMap((f) => (f.failures ? [{ path: f.path, failures: f.failures }] : []))
+    }
 
     // Apply changes to filesystem
-    const applyRes = await applyChanges({
-      projectDir: projectPath,
-      files: parsed.files,
-      dependencies: parsed.dependencies
-    })
+    const apply = (
+      changes: FileChange[],
+      deps: { dependencies: string[]; devDependencies?: string[] },
+      snapshotId: string,
+      inferDependencies = true
+    ) => {
+      let installing: { packageManager: string; dependencies: string[]; dev?: boolean } | null = null
+      return applyChanges({
+        projectDir: projectPath,
+        files: changes,
+        ...deps,
+        registry,
+        policy: settings.dependencyPolicy,
+        snapshotId,
+        inferDependencies,
+        approveDependencies: async (pending) => {
+          progress({ phase: 'approving-dependencies', count: pending.length })
+          clearTimeout(timeout)
+          sendAiEvent(sender, { type: 'dependencies', requestId, dependencies: pending })
+          const decision = await waitForRenderer(pendingDependencyApprovals, requestId, ac.signal, sender).catch(() => {
+            throw cancelled()
+          })
+          const approved = pending.filter((p) => decision.approve.includes(p.spec))
+          if (decision.remember) await allowInProject(projectPath, approved.map((p) => p.name))
+          return approved.map((p) => p.spec)
+        },
+        resolveConflicts: async (conflicts) => {
+          progress({ phase: 'conflicts', fileCount: conflicts.length })
+          clearTimeout(timeout)
+          sendAiEvent(sender, {
+            type: 'conflicts',
+            requestId,
+            conflicts: conflicts.map((c) => ({ path: c.path, regions: c.conflict?.regions ?? 0, diff: c.diff }))
+          })
+          return waitForRenderer(pendingConflicts, requestId, ac.signal, sender).catch(() => {
+            throw cancelled()
+          })
+        },
+        onProgress: (e) => {
+          if (e.type === 'write') {
+            progress({ phase: 'writing', file: e.path, index: e.index, total: e.total })
+          } else if (e.type === 'check-dependencies') {
+            progress({ phase: 'checking-dependencies', dependencies: e.dependencies })
+          } else if (e.type === 'install') {
+            installing = { packageManager: e.packageManager, dependencies: e.dependencies, dev: e.dev }
+            progress({ phase: 'installing', ...installing })
+          } else if (installing) {
+            progress({ phase: 'installing', ...installing, output: e.line })
+          }
+        }
+      })
+    }
+
+    const assistantId = crypto.randomUUID()
+    // A reviewed plan already lists the inferred packages; only install what was approved.
+    const applyRes = await apply(files, { dependencies, devDependencies }, assistantId, !req.review)
 
     const summary = parsed.summary || 'Done.'
-    const parts: string[] = [summary]
+    const parts: string[] = [summary, ...describeApplyResult(applyRes, planFailures, rejected)]
 
-    if (applyRes.writtenFiles.length > 0) {
-      parts.push('', '✅ Updated files:', ...applyRes.writtenFiles.map((f) => `- ${f}`))
+    if (repairRounds > 0 && typecheck.diagnostics.length === 0) {
+      parts.push('', `🔧 Fixed type errors in ${repairRounds} repair round${repairRounds === 1 ? '' : 's'}.`)
     }
-    if (applyRes.installedDependencies.length > 0) {
-      parts.push('', '📦 Installed dependencies:', ...applyRes.installedDependencies.map((d) => `- ${d}`))
+    if (typecheck.diagnostics.length > 0) {
+      const after = repairRounds > 0 ? ` after ${repairRounds} repair round${repairRounds === 1 ? '' : 's'}` : ''
+      parts.push('', `⚠️ TypeScript errors remain${after}:`)
+      parts.push(...formatDiagnostics(typecheck.diagnostics, 10).split('\n').map((l) => `- ${l}`))
     }
     if (parsed.files.length === 0) {
       parts.push('', '_No file blocks were returned by the model._')
     }
+    if (final.finishReason === 'length') {
+      parts.push('', '⚠️ The response was cut off by the token limit; the last file may be incomplete.')
+    }
+
+    let agentInfo: ChatMessage['agent']
+    if (tools) {
+      const transcriptPath = `.vorbyte/transcripts/${assistantId}.json`
+      const data: AgentTranscript = {
+        requestId,
+        provider: target.provider,
+        model: target.model,
+        createdAt: new Date().toISOString(),
+        prompt: req.prompt,
+        maxSteps: AGENT_MAX_STEPS,
+        steps: transcript
+      }
+      await writeJsonAtomic(path.join(projectPath, TRANSCRIPTS_DIR, `${assistantId}.json`), data)
+      agentInfo = {
+        steps: transcript.length,
+        toolCalls: transcript.reduce((n, t) => n + t.toolCalls.length, 0),
+        transcript: transcriptPath
+      }
+    }
 
     const assistantMsg: ChatMessage = {
-      id: crypto.randomUUID(),
+      id: assistantId,
       role: 'assistant',
       content: parts.join('\n'),
-      createdAt: new Date().toISOString()
+      createdAt: new Date().toISOString(),
+      generation: {
+        provider: target.provider,
+        model: target.model,
+        finishReason: final.finishReason,
+        promptTokens,
+        completionTokens,
+        timeToFirstTokenMs: final.timeToFirstTokenMs,
+        // Agent and repaired runs span several requests (plus tool time).
+        totalDurationMs: tools || repairRounds > 0 ? Date.now() - startedAt : final.totalDurationMs
+      },
+      agent: agentInfo,
+      snapshot: applyRes.snapshot ? { files: applyRes.snapshot.files.length } : undefined
     }
 
-    const finalChat = [...nextChat, assistantMsg]
+    let finalChat = [...nextChat, assistantMsg]
     await saveChat(projectPath, finalChat)
+    const appliedFiles = [...applyRes.writtenFiles]
+    const installedDependencies = [...applyRes.installedDependencies]
+    const installedDevDependencies = [...applyRes.installedDevDependencies]
+
+    // The rest of the run shows up in the chat as it happens.
+    const postToChat = async (msg: ChatMessage) => {
+      finalChat = [...finalChat, msg]
+      await saveChat(projectPath, finalChat)
+      sendAiEvent(sender, { type: 'chat', requestId, chat: finalChat })
+    }
+
+    // Verify mode: run the project's lint and build scripts, and have the model fix what they
+    // report until they pass or the rounds run out. Each check and each fix is its own message.
+    const previewWasRunning = previews.isRunning(projectPath)
+    const restartPreview = () => {
+      void previews.restart(projectPath).catch(() => {
+        // status/log events already carry the failure to the Design tab
+      })
+    }
+    let verification: AiRunResult['verification']
+    if (req.verify && files.length > 0) {
+      // next build and next dev both write .next; keep the dev server out of the way meanwhile.
+      if (previewWasRunning) await previews.stop(projectPath)
+      verification = { ok: false, fixRounds: 0, checks: [] }
+      try {
+        for (let round = 1; ; round++) {
+          clearTimeout(timeout)
+          const result = await verifyProject({
+            projectDir: projectPath,
+            signal: ac.signal,
+            onProgress: (e) => {
+              const output = e.type === 'output' ? e.line : undefined
+              progress({ phase: 'verifying', round, script: e.script, output })
+            }
+          })
+          verification.checks.push(result)
+          verification.ok = result.ok
+          await postToChat({
+            id: crypto.randomUUID(),
+            role: 'assistant',
+            content: describeVerification(result, round),
+            createdAt: new Date().toISOString()
+          })
+          if (result.ok || round > MAX_FIX_ROUNDS) break
+
+          const problemCount = result.steps.flatMap((s) => s.problems).filter((p) => p.severity === 'error').length
+          progress({ phase: 'fixing', round, maxRounds: MAX_FIX_ROUNDS, problemCount })
+          messages.push({ role: 'assistant', content: text })
+          messages.push({ role: 'user', content: buildVerifyFixPrompt(result, format) })
+          touchTimeout()
+          const turn = await generate(tools ? { tools: tools.definitions, toolChoice: 'none' } : undefined)
+          text = turn.text
+          const fix = parse(text)
+          const fixId = crypto.randomUUID()
+          const fixRes = await apply(fix.files, { dependencies: fix.dependencies }, fixId)
+          verification.fixRounds = round
+          appliedFiles.push(...fixRes.writtenFiles.filter((f) => !appliedFiles.includes(f)))
+          installedDependencies.push(...fixRes.installedDependencies)
+          installedDevDependencies.push(...fixRes.installedDevDependencies)
+          await postToChat({
+            id: fixId,
+            role: 'assistant',
+            content: [fix.summary || 'Fixes applied.', ...describeApplyResult(fixRes)].join('\n'),
+            createdAt: new Date().toISOString(),
+            generation: {
+              provider: target.provider,
+              model: target.model,
+              finishReason: turn.final.finishReason,
+              promptTokens: turn.final.usage?.promptTokens,
+              completionTokens: turn.final.usage?.completionTokens,
+              timeToFirstTokenMs: turn.final.timeToFirstTokenMs,
+              totalDurationMs: turn.final.totalDurationMs
+            },
+            snapshot: fixRes.snapshot ? { files: fixRes.snapshot.files.length } : undefined
+          })
+          // Nothing changed, so checking again would report the same problems.
+          if (fix.files.length === 0) break
+        }
+      } catch (err) {
+        // The first changes are applied and in the chat already; end the loop there, not the run.
+        const message = err instanceof Error ? err.message : String(err)
+        const reason = timedOut ? cancelled().message : ac.signal.aborted ? 'cancelled' : message
+        await postToChat({
+          id: crypto.randomUUID(),
+          role: 'assistant',
+          content: `⚠️ Build check stopped: ${reason}`,
+          createdAt: new Date().toISOString()
+        })
+      } finally {
+        // However the checks ended, even if the chat couldn't be saved, the dev server comes back.
+        if (previewWasRunning) restartPreview()
+      }
+    }
+    progress({ phase: 'done' })
+
+    // A running dev server won't pick up freshly installed packages; restart it in the background.
+    const installed = installedDependencies.length + installedDevDependencies.length > 0
+    if (previewWasRunning && verification === undefined && installed) restartPreview()
 
     return {
       chat: finalChat,
-      appliedFiles: applyRes.writtenFiles,
-      installedDependencies: applyRes.installedDependencies
+      appliedFiles,
+      deletedFiles: applyRes.deletedFiles,
+      renamedFiles: applyRes.renamedFiles,
+      installedDependencies,
+      installedDevDependencies,
+      typecheck: { ...typecheck, repairRounds },
+      verification
     }
+  } catch (caught) {
+    // Whatever a timed-out run threw (the engine's own cancel error, say) came from the abort.
+    const err = timedOut ? cancelled() : caught
+    const error = toAiRunError(err)
+    if (error.code === 'model-not-found' && error.provider === 'ollama') {
+      error.hint = `Download it under Settings → Manage local models, or run \`ollama pull ${target.model}\`.`
+    }
+    sendAiEvent(sender, { type: 'error', requestId, error })
+    // The message never made it into the chat, so nothing refers to its images.
+    for (const a of attachments) void fs.rm(path.join(projectPath, a.path), { force: true })
+    throw err
   } finally {
     clearTimeout(timeout)
     aiRuns.delete(requestId)
@@ -658,10 +1642,20 @@ function createWindow(): void {
     autoHideMenuBar: true,
     webPreferences: {
       preload: path.join(__dirname, '../preload/index.js'),
-      sandbox: true
+      sandbox: true,
+      webviewTag: true
     }
   })
 
+  // The Design tab embeds the project's dev server in a <webview>. Never give it Node or our
+  // preload, and only allow it to load the local preview server.
+  mainWindow.webContents.on('will-attach-webview', (e, webPreferences, params) => {
+    delete webPreferences.preload
+    webPreferences.nodeIntegration = false
+    webPreferences.contextIsolation = true
+    if (!/^http:\/\/(127\.0\.0\.1|localhost):\d+(\/|$)/.test(params.src)) e.preventDefault()
+  })
+
   mainWindow.on('ready-to-show', () => {
     mainWindow?.show()
   })
@@ -696,12 +1690,25 @@ app.on('window-all-closed', () => {
   if (process.platform !== 'darwin') app.quit()
 })
 
+let previewsStopped = false
+app.on('before-quit', (e) => {
+  if (previewsStopped || !previews.isRunning()) return
+  // Don't leave orphaned `next dev` processes behind.
+  e.preventDefault()
+  previews.stopAll().finally(() => {
+    previewsStopped = true
+    app.quit()
+  })
+})
+
 /**
  * IPC handlers
  */
 ipcMain.handle('settings:get', async () => loadSettings())
 ipcMain.handle('settings:save', async (_evt, next: AppSettings) => saveSettings(next))
 
+ipcMain.handle('models:list', async (_evt, req: ModelListRequest) => listModels(req))
+
 ipcMain.handle('templates:list', async () => loadTemplatesIndex())
 ipcMain.handle('templates:thumbnailData', async (_evt, templateId: string) => templateThumbnailData(templateId))
 
@@ -731,11 +1738,64 @@ ipcMain.handle('chat:write', async (_evt, projectPath: string, chat: ChatMessage
 ipcMain.handle('chat:load', async (_evt, projectPath: string) => loadChat(projectPath))
 ipcMain.handle('chat:clear', async (_evt, projectPath: string) => {
   await saveChat(projectPath, [])
+  await fs.rm(path.join(projectPath, ATTACHMENTS_DIR), { recursive: true, force: true })
+  await fs.rm(path.join(projectPath, TRANSCRIPTS_DIR), { recursive: true, force: true })
+  // Snapshots are reached through chat messages; without the chat they can't be used.
+  await createSnapshotStore(projectPath).clear()
   return true
 })
 
-ipcMain.handle('ai:run', async (_evt, req: AiRunRequest) => {
-  return runAiAndApply(req)
+ipcMain.handle('snapshots:revert', async (_evt, projectPath: string, messageId: string) => {
+  const chat = await loadChat(projectPath)
+  const index = chat.findIndex((m) => m.id === messageId)
+  if (index < 0) throw new Error('That message is no longer in the chat.')
+  // Undo every later run that changed files.
+  const later = chat.slice(index + 1).flatMap((m) => (m.snapshot ? [m.id] : []))
+  if (later.length === 0) throw new Error('Nothing was changed after this message.')
+  return createSnapshotStore(projectPath).revert(later, messageId)
+})
+
+ipcMain.handle('snapshots:undoRevert', async (_evt, projectPath: string) =>
+  createSnapshotStore(projectPath).undoRevert()
+)
+
+ipcMain.handle('snapshots:lastRevert', async (_evt, projectPath: string) =>
+  createSnapshotStore(projectPath).lastRevert()
+)
+ipcMain.handle('chat:attachment', async (_evt, projectPath: string, attachment: ChatAttachment) => {
+  const data = await fs.readFile(attachmentFilePath(projectPath, attachment))
+  return `data:${attachment.mimeType};base64,${data.toString('base64')}`
+})
+
+ipcMain.handle('ai:run', async (evt, req: AiRunRequest) => {
+  return runAiAndApply(req, evt.sender)
+})
+
+ipcMain.handle('ai:review', async (_evt, requestId: string, decision: AiReviewDecision) => {
+  const resolve = pendingReviews.get(requestId)
+  if (!resolve) throw new Error('This run is not waiting for a review.')
+  pendingReviews.delete(requestId)
+  resolve(decision)
+  return true
+})
+
+ipcMain.handle(
+  'ai:resolveConflicts',
+  async (_evt, requestId: string, resolutions: Record<string, AiConflictResolution>) => {
+    const resolve = pendingConflicts.get(requestId)
+    if (!resolve) throw new Error('This run is not waiting for conflicts to be resolved.')
+    pendingConflicts.delete(requestId)
+    resolve(resolutions)
+    return true
+  }
+)
+
+ipcMain.handle('ai:approveDependencies', async (_evt, requestId: string, decision: AiDependencyDecision) => {
+  const resolve = pendingDependencyApprovals.get(requestId)
+  if (!resolve) throw new Error('This run is not waiting for packages to be approved.')
+  pendingDependencyApprovals.delete(requestId)
+  resolve(decision)
+  return true
 })
 
 ipcMain.handle('ai:cancel', async (_evt, requestId: string) => {
@@ -744,6 +1804,62 @@ ipcMain.handle('ai:cancel', async (_evt, requestId: string) => {
   return true
 })
 
+ipcMain.handle('preview:start', async (_evt, projectPath: string) => {
+  if (!fssync.existsSync(projectPath)) {
+    throw new Error(`Project path not found: ${projectPath}`)
+  }
+  // Failures are reported through the returned status (state: 'error') and the log stream.
+  await previews
+    .start({ projectDir: projectPath, packageManager: choosePackageManager(projectPath) })
+    .catch(() => null)
+  return toPreviewStatus(previews.status(projectPath))
+})
+
+ipcMain.handle('preview:stop', async (_evt, projectPath: string) => {
+  await previews.stop(projectPath)
+  return toPreviewStatus(previews.status(projectPath))
+})
+
+ipcMain.handle('preview:restart', async (_evt, projectPath: string) => {
+  const restart = previews.isRunning(projectPath)
+    ? previews.restart(projectPath)
+    : previews.start({ projectDir: projectPath, packageManager: choosePackageManager(projectPath) })
+  await restart.catch(() => null)
+  return toPreviewStatus(previews.status(projectPath))
+})
+
+ipcMain.handle('preview:status', async (_evt, projectPath: string) => toPreviewStatus(previews.status(projectPath)))
+
+ipcMain.handle('preview:logs', async (_evt, projectPath: string, opts?: { limit?: number }) =>
+  previews.logs(projectPath, opts)
+)
+
+ipcMain.handle('ollama:pull', async (_evt, model: string) => pullOllamaModel(model))
+ipcMain.handle('ollama:cancelPull', async (_evt, model: string) => {
+  const pull = ollamaPulls.get(model)
+  if (pull) pull.ac.abort()
+  return !!pull
+})
+ipcMain.handle('ollama:pulls', async () => Array.from(ollamaPulls.values()).map((p) => p.status))
+ipcMain.handle('ollama:delete', async (_evt, model: string) => {
+  const manager = createOllamaModelManager({ baseUrl: ollamaBaseUrlFor(await loadSettings()), retry: false })
+  await manager.delete(model)
+})
+ipcMain.handle('ollama:show', async (_evt, model: string): Promise<OllamaModelDetails> => {
+  const manager = createOllamaModelManager({ baseUrl: ollamaBaseUrlFor(await loadSettings()), retry: false })
+  const d = await manager.show(model)
+  return {
+    id: d.id,
+    family: d.family,
+    parameterSize: d.parameterSize,
+    quantization: d.quantization,
+    contextLength: d.contextLength,
+    parameters: d.parameters,
+    license: d.license,
+    capabilities: d.capabilities
+  }
+})
+
 ipcMain.handle('dialog:selectDirectory', async (_evt, opts?: { defaultPath?: string }) => {
   const result = await dialog.showOpenDialog(mainWindow!, {
     title: 'Select a folder',
@@ -1,8 +1,22 @@
 import { contextBridge, ipcRenderer } from 'electron'
 import type {
+  AiConflictFile,
+  AiConflictResolution,
+  AiDependencyDecision,
+  AiPendingDependency,
+  AiReview,
+  AiReviewDecision,
+  AiRunError,
+  AiRunEvent,
+  AiRunProgress,
   AiRunRequest,
+  ChatAttachment,
   ChatMessage,
   CreateProjectRequest,
+  ModelListRequest,
+  OllamaPullStatus,
+  PreviewLogLine,
+  PreviewStatus,
   SelectDirectoryOptions,
   VorByteApiWithCompat
 } from '../shared/types'
@@ -36,12 +50,39 @@ const api: VorByteApiWithCompat = {
     save: (settings) => ipcRenderer.invoke('settings:save', settings)
   },
 
+  models: {
+    list: (req: ModelListRequest) => ipcRenderer.invoke('models:list', req)
+  },
+
+  ollama: {
+    pull: (model: string) => ipcRenderer.invoke('ollama:pull', model),
+    cancelPull: (model: string) => ipcRenderer.invoke('ollama:cancelPull', model),
+    pulls: () => ipcRenderer.invoke('ollama:pulls'),
+    delete: (model: string) => ipcRenderer.invoke('ollama:delete', model),
+    show: (model: string) => ipcRenderer.invoke('ollama:show', model),
+    onPull: (cb: (status: OllamaPullStatus) => void) => {
+      const listener = (_evt: Electron.IpcRendererEvent, status: OllamaPullStatus) => cb(status)
+      ipcRenderer.on('ollama:pull', listener)
+      return () => {
+        ipcRenderer.removeListener('ollama:pull', listener)
+      }
+    }
+  },
+
   chat: {
     load: (projectPath: string) => ipcRenderer.invoke('chat:load', projectPath),
     clear: (projectPath: string) => ipcRenderer.invoke('chat:clear', projectPath),
     // Back-compat: some builds used chat.read/chat.write
     read: (projectPath: string) => ipcRenderer.invoke('chat:read', projectPath),
-    write: (projectPath: string, chat: ChatMessage[]) => ipcRenderer.invoke('chat:write', projectPath, chat)
+    write: (projectPath: string, chat: ChatMessage[]) => ipcRenderer.invoke('chat:write', projectPath, chat),
+    attachment: (projectPath: string, attachment: ChatAttachment) =>
+      ipcRenderer.invoke('chat:attachment', projectPath, attachment)
+  },
+
+  snapshots: {
+    revert: (projectPath: string, messageId: string) => ipcRenderer.invoke('snapshots:revert', projectPath, messageId),
+    undoRevert: (projectPath: string) => ipcRenderer.invoke('snapshots:undoRevert', projectPath),
+    lastRevert: (projectPath: string) => ipcRenderer.invoke('snapshots:lastRevert', projectPath)
   },
 
   // Back-compat flat aliases
@@ -50,7 +91,108 @@ const api: VorByteApiWithCompat = {
 
   ai: {
     run: (req: AiRunRequest) => ipcRenderer.invoke('ai:run', req),
-    cancel: (requestId: string) => ipcRenderer.invoke('ai:cancel', requestId)
+    cancel: (requestId: string) => ipcRenderer.invoke('ai:cancel', requestId),
+    onDelta: (requestId: string, cb: (delta: string) => void) => {
+      const listener = (_evt: Electron.IpcRendererEvent, e: AiRunEvent) => {
+        if (e.requestId === requestId && e.type === 'delta') cb(e.delta)
+      }
+      ipcRenderer.on('ai:event', listener)
+      return () => {
+        ipcRenderer.removeListener('ai:event', listener)
+      }
+    },
+    onTurn: (requestId: string, cb: () => void) => {
+      const listener = (_evt: Electron.IpcRendererEvent, e: AiRunEvent) => {
+        if (e.requestId === requestId && e.type === 'turn') cb()
+      }
+      ipcRenderer.on('ai:event', listener)
+      return () => {
+        ipcRenderer.removeListener('ai:event', listener)
+      }
+    },
+    onProgress: (requestId: string, cb: (progress: AiRunProgress) => void) => {
+      const listener = (_evt: Electron.IpcRendererEvent, e: AiRunEvent) => {
+        if (e.requestId === requestId && e.type === 'progress') cb(e.progress)
+      }
+      ipcRenderer.on('ai:event', listener)
+      return () => {
+        ipcRenderer.removeListener('ai:event', listener)
+      }
+    },
+    onError: (requestId: string, cb: (error: AiRunError) => void) => {
+      const listener = (_evt: Electron.IpcRendererEvent, e: AiRunEvent) => {
+        if (e.requestId === requestId && e.type === 'error') cb(e.error)
+      }
+      ipcRenderer.on('ai:event', listener)
+      return () => {
+        ipcRenderer.removeListener('ai:event', listener)
+      }
+    },
+    onReview: (requestId: string, cb: (review: AiReview) => void) => {
+      const listener = (_evt: Electron.IpcRendererEvent, e: AiRunEvent) => {
+        if (e.requestId === requestId && e.type === 'review') cb(e.review)
+      }
+      ipcRenderer.on('ai:event', listener)
+      return () => {
+        ipcRenderer.removeListener('ai:event', listener)
+      }
+    },
+    review: (requestId: string, decision: AiReviewDecision) => ipcRenderer.invoke('ai:review', requestId, decision),
+    onConflicts: (requestId: string, cb: (conflicts: AiConflictFile[]) => void) => {
+      const listener = (_evt: Electron.IpcRendererEvent, e: AiRunEvent) => {
+        if (e.requestId === requestId && e.type === 'conflicts') cb(e.conflicts)
+      }
+      ipcRenderer.on('ai:event', listener)
+      return () => {
+        ipcRenderer.removeListener('ai:event', listener)
+      }
+    },
+    resolveConflicts: (requestId: string, resolutions: Record<string, AiConflictResolution>) =>
+      ipcRenderer.invoke('ai:resolveConflicts', requestId, resolutions),
+    onChat: (requestId: string, cb: (chat: ChatMessage[]) => void) => {
+      const listener = (_evt: Electron.IpcRendererEvent, e: AiRunEvent) => {
+        if (e.requestId === requestId && e.type === 'chat') cb(e.chat)
+      }
+      ipcRenderer.on('ai:event', listener)
+      return () => {
+        ipcRenderer.removeListener('ai:event', listener)
+      }
+    },
+    onDependencies: (requestId: string, cb: (dependencies: AiPendingDependency[]) => void) => {
+      const listener = (_evt: Electron.IpcRendererEvent, e: AiRunEvent) => {
+        if (e.requestId === requestId && e.type === 'dependencies') cb(e.dependencies)
+      }
+      ipcRenderer.on('ai:event', listener)
+      return () => {
+        ipcRenderer.removeListener('ai:event', listener)
+      }
+    },
+    approveDependencies: (requestId: string, decision: AiDependencyDecision) =>
+      ipcRenderer.invoke('ai:approveDependencies', requestId, decision)
+  },
+
+  preview: {
+    start: (projectPath: string) => ipcRenderer.invoke('preview:start', projectPath),
+    stop: (projectPath: string) => ipcRenderer.invoke('preview:stop', projectPath),
+    restart: (projectPath: string) => ipcRenderer.invoke('preview:restart', projectPath),
+    status: (projectPath: string) => ipcRenderer.invoke('preview:status', projectPath),
+    logs: (projectPath: string, opts?: { limit?: number }) => ipcRenderer.invoke('preview:logs', projectPath, opts),
+    onStatus: (cb: (status: PreviewStatus) => void) => {
+      const listener = (_evt: Electron.IpcRendererEvent, status: PreviewStatus) => cb(status)
+      ipcRenderer.on('preview:status', listener)
+      return () => {
+        ipcRenderer.removeListener('preview:status', listener)
+      }
+    },
+    onLog: (projectPath: string, cb: (line: PreviewLogLine) => void) => {
+      const listener = (_evt: Electron.IpcRendererEvent, p: string, line: PreviewLogLine) => {
+        if (p === projectPath) cb(line)
+      }
+      ipcRenderer.on('preview:log', listener)
+      return () => {
+        ipcRenderer.removeListener('preview:log', listener)
+      }
+    }
   },
 
   dialog: {
@@ -1,12 +1,38 @@
 import React, { useEffect, useMemo, useRef, useState } from 'react'
 import type {
+  AiConflictFile,
+  AiConflictResolution,
+  AiDependencyDecision,
+  AiDependencyPolicy,
+  AiPendingDependency,
+  AiReview,
+  AiReviewDecision,
+  AiRunError,
+  AiRunProgress,
   AppSettings,
+  ChatAttachment,
   ChatMessage,
+  ChatMessageAgentInfo,
+  ChatMessageGeneration,
   CreateProjectRequest,
   FileTreeNode,
+  ProjectRevert,
   ProjectSummary,
   TemplateSummary
 } from '@shared/types'
+import {
+  ATTACHMENT_TYPES,
+  MessageAttachments,
+  PendingAttachments,
+  readImageFile,
+  type PendingAttachment
+} from './components/ChatAttachments'
+import { LocalModelsPanel } from './components/LocalModelsPanel'
+import { ModelPicker } from './components/ModelPicker'
+import { PreviewPane } from './components/PreviewPane'
+import { ReviewPanel } from './components/ReviewPanel'
+import { ConflictPanel } from './components/ConflictPanel'
+import { DependencyApprovalPanel } from './components/DependencyApprovalPanel'
 
 const APP_TITLE = 'VorByte Studio'
 
@@ -27,6 +53,206 @@ function Pill(props: { children: React.ReactNode }) {
   )
 }
 
+type RunStepStatus = 'active' | 'done' | 'failed'
+
+interface RunStep {
+  phase: AiRunProgress['phase']
+  label: string
+  detail?: string
+  status: RunStepStatus
+}
+
+function describeProgress(p: AiRunProgress): { label: string; detail?: string } {
+  switch (p.phase) {
+    case 'context':
+      return { label: 'Building context' }
+    case 'waiting':
+      if (p.retry) {
+        return {
+          label: `Retrying (${p.retry.attempt}/${p.retry.maxRetries}) in ${formatMs(p.retry.delayMs)}`,
+          detail: `${p.provider} · ${p.model} · ${p.retry.reason}`
+        }
+      }
+      return { label: 'Waiting for first token', detail: `${p.provider} · ${p.model}` }
+    case 'generating':
+      return { label: 'Generating', detail: `${p.chars.toLocaleString()} chars` }
+    case 'tool':
+      return { label: `Step ${p.step}/${p.maxSteps}: ${p.tool}`, detail: p.detail }
+    case 'parsing':
+      return {
+        label: `Parsing ${p.fileCount} file${p.fileCount === 1 ? '' : 's'}`,
+        detail: p.dependencyCount > 0 ? `${p.dependencyCount} dependencies listed` : undefined
+      }
+    case 'typechecking':
+      return { label: 'Typechecking the changes' }
+    case 'repairing':
+      return {
+        label: `Fixing type errors (round ${p.round}/${p.maxRounds})`,
+        detail: `${p.errorCount} error${p.errorCount === 1 ? '' : 's'}`
+      }
+    case 'review':
+      return { label: 'Waiting for your review', detail: `${p.fileCount} file${p.fileCount === 1 ? '' : 's'}` }
+    case 'conflicts':
+      return {
+        label: 'Waiting for you to resolve conflicts',
+        detail: `${p.fileCount} file${p.fileCount === 1 ? '' : 's'} edited by hand`
+      }
+    case 'approving-dependencies':
+      return {
+        label: 'Waiting for you to approve packages',
+        detail: `${p.count} package${p.count === 1 ? '' : 's'} held back by the dependency policy`
+      }
+    case 'writing':
+      return { label: `Writing files (${p.index + 1}/${p.total})`, detail: p.file }
+    case 'checking-dependencies':
+      return { label: 'Checking packages', detail: p.dependencies.join(', ') }
+    case 'installing':
+      return {
+        label: `Installing ${p.dev ? 'dev ' : ''}dependencies with ${p.packageManager}`,
+        detail: p.output ?? p.dependencies.join(', ')
+      }
+    case 'verifying':
+      return { label: `Checking the build (round ${p.round}): ${p.script}`, detail: p.output }
+    case 'fixing':
+      return {
+        label: `Fixing build problems (round ${p.round}/${p.maxRounds})`,
+        detail: `${p.problemCount} error${p.problemCount === 1 ? '' : 's'}`
+      }
+    case 'done':
+      return { label: 'Done' }
+  }
+}
+
+/**
+ * Fold a progress event into the step list: repeated events for the same phase update
+ * the current step, a new phase completes it and starts the next one.
+ */
+function applyProgress(steps: RunStep[], p: AiRunProgress): RunStep[] {
+  if (p.phase === 'done') return steps.map((s) => ({ ...s, status: 'done' }))
+
+  const next = describeProgress(p)
+  const last = steps[steps.length - 1]
+  if (last && last.phase === p.phase) {
+    return [...steps.slice(0, -1), { ...last, ...next }]
+  }
+  return [...steps.map((s) => ({ ...s, status: 'done' as const })), { phase: p.phase, ...next, status: 'active' }]
+}
+
+function RunProgressSteps(props: { steps: RunStep[] }) {
+  if (props.steps.length === 0) return null
+  return (
+    <div className="rounded border bg-white p-3 text-xs">
+      <div className="mb-2 font-semibold text-zinc-700">Run progress</div>
+      <ol className="space-y-1">
+        {props.steps.map((s, i) => (
+          // Agent runs go through waiting → generating → tool several times.
+          <li key={`${i}-${s.phase}`} className="flex items-start gap-2">
+            <span className="w-4 shrink-0 text-center">
+              {s.status === 'done' ? '✓' : s.status === 'failed' ? '✗' : '…'}
+            </span>
+            <div className="min-w-0 flex-1">
+              <div
+                className={
+                  s.status === 'active'
+                    ? 'font-semibold text-zinc-900'
+                    : s.status === 'failed'
+                      ? 'text-red-700'
+                      : 'text-zinc-600'
+                }
+              >
+                {s.label}
+              </div>
+              {s.detail && (
+                <div className="truncate font-mono text-[10px] text-zinc-500" title={s.detail}>
+                  {s.detail}
+                </div>
+              )}
+            </div>
+          </li>
+        ))}
+      </ol>
+    </div>
+  )
+}
+
+const ERROR_TITLES: Record<AiRunError['code'], string> = {
+  auth: 'Authentication failed',
+  'model-not-found': 'Model not found',
+  connection: 'Could not reach the AI provider',
+  'rate-limit': 'Rate limited',
+  'context-too-long': 'Prompt too long',
+  cancelled: 'Cancelled',
+  'bad-response': 'The AI provider returned an error',
+  'unsupported-input': "The model can't read images",
+  unknown: 'Something went wrong'
+}
+
+/**
+ * Render `code` spans in a hint as inline code, leaving the rest as text.
+ */
+function HintText(props: { text: string }) {
+  return (
+    <>
+      {props.text.split(/(`[^`]+`)/).map((part, i) =>
+        part.startsWith('`') && part.endsWith('`') && part.length > 1 ? (
+          <code key={i} className="rounded bg-red-100 px-1 font-mono">
+            {part.slice(1, -1)}
+          </code>
+        ) : (
+          <span key={i}>{part}</span>
+        )
+      )}
+    </>
+  )
+}
+
+function RunErrorCard(props: { error: AiRunError | null }) {
+  const e = props.error
+  if (!e) return null
+  const meta = [e.provider, e.model, e.status !== undefined ? `HTTP ${e.status}` : undefined].filter(Boolean)
+  return (
+    <div className="rounded border border-red-200 bg-red-50 p-3 text-xs text-red-900">
+      <div className="font-semibold">{ERROR_TITLES[e.code]}</div>
+      {e.hint && (
+        <div className="mt-1 whitespace-pre-wrap text-sm">
+          <HintText text={e.hint} />
+        </div>
+      )}
+      <div className="mt-2 whitespace-pre-wrap break-words font-mono text-[10px] text-red-700">{e.message}</div>
+      {meta.length > 0 && <div className="mt-1 text-[10px] text-red-600">{meta.join(' · ')}</div>}
+    </div>
+  )
+}
+
+function formatMs(ms: number) {
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`
+}
+
+function GenerationInfo(props: { generation: ChatMessageGeneration; agent?: ChatMessageAgentInfo }) {
+  const g = props.generation
+  const parts = [g.model]
+  if (props.agent) {
+    parts.push(`agent: ${props.agent.steps} steps, ${props.agent.toolCalls} tool calls`)
+  }
+  if (g.promptTokens !== undefined || g.completionTokens !== undefined) {
+    parts.push(`${(g.promptTokens ?? 0).toLocaleString()} → ${(g.completionTokens ?? 0).toLocaleString()} tokens`)
+  }
+  if (g.timeToFirstTokenMs !== undefined) parts.push(`first token ${formatMs(g.timeToFirstTokenMs)}`)
+  if (g.totalDurationMs !== undefined) parts.push(`total ${formatMs(g.totalDurationMs)}`)
+
+  return (
+    <div className="mt-2 space-y-1 text-[10px] text-zinc-500">
+      <div>{parts.join(' · ')}</div>
+      {g.finishReason === 'length' && (
+        <div className="font-semibold text-amber-700">Output was truncated by the token limit.</div>
+      )}
+      {g.finishReason === 'error' && (
+        <div className="font-semibold text-red-700">The provider ended the response abnormally.</div>
+      )}
+    </div>
+  )
+}
+
 function Modal(props: {
   open: boolean
   title: string
@@ -44,7 +270,7 @@ function Modal(props: {
             Close
           </button>
         </div>
-        <div className="p-4">{props.children}</div>
+        <div className="max-h-[calc(100vh-8rem)] overflow-auto p-4">{props.children}</div>
       </div>
     </div>
   )
@@ -99,6 +325,7 @@ function SettingsModal(props: {
 }) {
   const [draft, setDraft] = useState<AppSettings>(props.initial)
   const [saving, setSaving] = useState(false)
+  const [modelsOpen, setModelsOpen] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
   useEffect(() => {
@@ -109,11 +336,19 @@ function SettingsModal(props: {
     }
   }, [props.open, props.initial])
 
+  function setPolicy(patch: AiDependencyPolicy) {
+    setDraft((d) => ({ ...d, dependencyPolicy: { ...d.dependencyPolicy, ...patch } }))
+  }
+
   async function save() {
     setSaving(true)
     setError(null)
     try {
-      const saved = await window.api.settings.save(draft)
+      // The lists are edited one name per line; drop the blank ones.
+      const policy = draft.dependencyPolicy
+      const clean = (names?: string[]) => names?.map((n) => n.trim()).filter(Boolean)
+      const dependencyPolicy = policy && { ...policy, allow: clean(policy.allow), deny: clean(policy.deny) }
+      const saved = await window.api.settings.save({ ...draft, dependencyPolicy })
       props.onSaved(saved)
       props.onClose()
     } catch (e) {
@@ -145,8 +380,8 @@ function SettingsModal(props: {
           <div className="text-sm font-semibold">OpenAI API key</div>
           <input
             className="w-full rounded border px-3 py-2 text-sm"
-            value={draft.openAiApiKey ?? ''}
-            onChange={(e) => setDraft((d) => ({ ...d, openAiApiKey: e.target.value }))}
+            value={draft.openaiApiKey ?? ''}
+            onChange={(e) => setDraft((d) => ({ ...d, openaiApiKey: e.target.value }))}
             placeholder="sk-..."
           />
           <div className="text-xs text-zinc-600">
@@ -154,17 +389,123 @@ function SettingsModal(props: {
           </div>
         </div>
 
+        <div className="space-y-2">
+          <div className="text-sm font-semibold">Anthropic API key</div>
+          <input
+            className="w-full rounded border px-3 py-2 text-sm"
+            value={draft.anthropicApiKey ?? ''}
+            onChange={(e) => setDraft((d) => ({ ...d, anthropicApiKey: e.target.value }))}
+            placeholder="sk-ant-..."
+          />
+          <div className="text-xs text-zinc-600">
+            Only needed for Claude models (cloud model <code className="rounded bg-zinc-100 px-1">anthropic:…</code>).
+          </div>
+        </div>
+
         <div className="space-y-2">
           <div className="text-sm font-semibold">Local model endpoint</div>
           <input
             className="w-full rounded border px-3 py-2 text-sm"
-            value={draft.localModelEndpoint ?? ''}
-            onChange={(e) => setDraft((d) => ({ ...d, localModelEndpoint: e.target.value }))}
+            value={draft.ollamaBaseUrl ?? ''}
+            onChange={(e) => setDraft((d) => ({ ...d, ollamaBaseUrl: e.target.value }))}
             placeholder="http://localhost:11434"
           />
           <div className="text-xs text-zinc-600">Ollama default is http://localhost:11434</div>
         </div>
 
+        <div className="space-y-2">
+          <div className="text-sm font-semibold">Package registry</div>
+          <input
+            className="w-full rounded border px-3 py-2 text-sm"
+            value={draft.packageRegistryUrl ?? ''}
+            onChange={(e) => setDraft((d) => ({ ...d, packageRegistryUrl: e.target.value }))}
+            placeholder="https://registry.npmjs.org"
+          />
+          <label className="flex items-center gap-2 text-xs text-zinc-700">
+            <input
+              type="checkbox"
+              checked={draft.packageRegistryOffline ?? false}
+              onChange={(e) => setDraft((d) => ({ ...d, packageRegistryOffline: e.target.checked }))}
+            />
+            Offline: check packages against cached metadata only
+          </label>
+          <div className="text-xs text-zinc-600">
+            New packages are looked up here before they&apos;re installed, so misspelled or made-up names are skipped.
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="text-sm font-semibold">Dependency policy</div>
+          <div className="grid grid-cols-2 gap-2">
+            <label className="space-y-1 text-xs text-zinc-700">
+              <div>Always allow</div>
+              <textarea
+                className="h-20 w-full rounded border px-3 py-2 font-mono text-xs"
+                value={(draft.dependencyPolicy?.allow ?? []).join('\n')}
+                onChange={(e) => setPolicy({ allow: e.target.value.split('\n') })}
+                placeholder={'zod\n@radix-ui/*'}
+              />
+            </label>
+            <label className="space-y-1 text-xs text-zinc-700">
+              <div>Never install</div>
+              <textarea
+                className="h-20 w-full rounded border px-3 py-2 font-mono text-xs"
+                value={(draft.dependencyPolicy?.deny ?? []).join('\n')}
+                onChange={(e) => setPolicy({ deny: e.target.value.split('\n') })}
+                placeholder={'moment\nrequest'}
+              />
+            </label>
+          </div>
+          <label className="flex items-center gap-2 text-xs text-zinc-700">
+            <input
+              type="checkbox"
+              checked={draft.dependencyPolicy?.requireApproval ?? false}
+              onChange={(e) => setPolicy({ requireApproval: e.target.checked })}
+            />
+            Ask before installing packages that aren&apos;t on the allowlist
+          </label>
+          <label className="flex items-center gap-2 text-xs text-zinc-700">
+            <input
+              type="checkbox"
+              checked={draft.dependencyPolicy?.ignoreScripts ?? false}
+              onChange={(e) => setPolicy({ ignoreScripts: e.target.checked })}
+            />
+            Install with --ignore-scripts (packages can&apos;t run install scripts)
+          </label>
+          <div className="text-xs text-zinc-600">
+            One package per line; <code>@scope/*</code> covers a whole scope. Names that look like a typo of a popular
+            package always need approval. Projects can add their own lists in .vorbyte/dependency-policy.json.
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="text-sm font-semibold">Default cloud model</div>
+          <ModelPicker
+            mode="cloud"
+            value={draft.cloudModel ?? 'gpt-4o-mini'}
+            onChange={(cloudModel) => setDraft((d) => ({ ...d, cloudModel }))}
+            settings={draft}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center">
+            <div className="text-sm font-semibold">Default local model</div>
+            <button
+              className="ml-auto rounded border px-2 py-1 text-xs hover:bg-zinc-50"
+              onClick={() => setModelsOpen(true)}
+            >
+              Manage local models…
+            </button>
+          </div>
+          <ModelPicker
+            mode="local"
+            value={draft.localModelPath ?? 'ollama:llama3.1'}
+            onChange={(localModelPath) => setDraft((d) => ({ ...d, localModelPath }))}
+            settings={draft}
+          />
+        </div>
+
         <div className="flex justify-end gap-2 pt-2">
           <button className="rounded border px-4 py-2 text-sm hover:bg-zinc-50" onClick={props.onClose}>
             Cancel
@@ -178,6 +519,15 @@ function SettingsModal(props: {
           </button>
         </div>
       </div>
+
+      <Modal
+        open={modelsOpen}
+        title="Local models (Ollama)"
+        onClose={() => setModelsOpen(false)}
+        widthClassName="max-w-2xl"
+      >
+        <LocalModelsPanel />
+      </Modal>
     </Modal>
   )
 }
@@ -321,7 +671,7 @@ function NewProjectModal(props: {
               <button
                 className={`rounded border px-3 py-2 text-sm ${aiMode === 'cloud' ? 'border-black' : 'border-zinc-200'}`}
                 onClick={() => setAiMode('cloud')}
-                title="Use cloud models like GPT-4 (requires API key)"
+                title="Use cloud models like GPT-4 or Claude (requires API key)"
               >
                 Cloud
               </button>
@@ -344,24 +694,12 @@ function NewProjectModal(props: {
             {aiMode === 'cloud' ? (
               <div className="space-y-2">
                 <div className="text-xs font-semibold text-zinc-700">Cloud model</div>
-                <select
-                  className="w-full rounded border px-3 py-2 text-sm"
-                  value={cloudModel}
-                  onChange={(e) => setCloudModel(e.target.value)}
-                >
-                  <option value="gpt-4">GPT-4</option>
-                  <option value="gpt-4o">GPT-4o</option>
-                </select>
+                <ModelPicker mode="cloud" value={cloudModel} onChange={setCloudModel} />
               </div>
             ) : (
               <div className="space-y-2">
                 <div className="text-xs font-semibold text-zinc-700">Local model</div>
-                <input
-                  className="w-full rounded border px-3 py-2 text-sm"
-                  value={localModel}
-                  onChange={(e) => setLocalModel(e.target.value)}
-                  placeholder="ollama:llama3.1"
-                />
+                <ModelPicker mode="local" value={localModel} onChange={setLocalModel} />
               </div>
             )}
           </div>
@@ -429,13 +767,31 @@ export default function App() {
   const [mode, setMode] = useState<'chat' | 'design'>('chat')
   const [messages, setMessages] = useState<ChatMessage[]>([])
   const [draft, setDraft] = useState('')
+  const [images, setImages] = useState<PendingAttachment[]>([])
+  // Thumbnails for the message being sent, until main returns the saved chat.
+  const [imagePreviews, setImagePreviews] = useState<Record<string, string>>({})
+  const fileInputRef = useRef<HTMLInputElement | null>(null)
 
   const [newProjectOpen, setNewProjectOpen] = useState(false)
   const [settingsOpen, setSettingsOpen] = useState(false)
 
   const [busy, setBusy] = useState(false)
   const [aiBusy, setAiBusy] = useState(false)
+  const [agentMode, setAgentMode] = useState(false)
+  const [reviewMode, setReviewMode] = useState(false)
+  const [verifyMode, setVerifyMode] = useState(false)
+  const [pendingReview, setPendingReview] = useState<{ requestId: string; review: AiReview } | null>(null)
+  const [pendingConflicts, setPendingConflicts] = useState<{ requestId: string; conflicts: AiConflictFile[] } | null>(
+    null
+  )
+  const [pendingDependencies, setPendingDependencies] = useState<{
+    requestId: string
+    dependencies: AiPendingDependency[]
+  } | null>(null)
+  const [lastRevert, setLastRevert] = useState<ProjectRevert | null>(null)
   const [aiRequestId, setAiRequestId] = useState<string | null>(null)
+  const [runSteps, setRunSteps] = useState<RunStep[]>([])
+  const [runError, setRunError] = useState<AiRunError | null>(null)
   const [error, setError] = useState<string | null>(null)
 
   const chatEndRef = useRef<HTMLDivElement | null>(null)
@@ -549,9 +905,11 @@ export default function App() {
     })()
   }, [activeProject])
 
+  const lastMessageContent = messages[messages.length - 1]?.content
+
   useEffect(() => {
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' })
-  }, [messages.length])
+  }, [messages.length, lastMessageContent])
 
   async function openProject(p: ProjectSummary) {
     setActiveProject(p)
@@ -564,6 +922,13 @@ export default function App() {
     } catch {
       setMessages([])
     }
+    setLastRevert(await window.api.snapshots.lastRevert(p.path).catch(() => null))
+  }
+
+  function closeProject() {
+    // Closing the project also stops its preview dev server.
+    if (activeProject) void window.api.preview.stop(activeProject.path)
+    setActiveProject(null)
   }
 
   async function cancelAi() {
@@ -576,21 +941,106 @@ export default function App() {
     }
   }
 
+  async function decideReview(requestId: string, decision: AiReviewDecision) {
+    try {
+      await window.api.ai.review(requestId, decision)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e))
+    }
+  }
+
+  async function resolveConflicts(requestId: string, resolutions: Record<string, AiConflictResolution>) {
+    try {
+      await window.api.ai.resolveConflicts(requestId, resolutions)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e))
+    }
+  }
+
+  async function approveDependencies(requestId: string, decision: AiDependencyDecision) {
+    try {
+      await window.api.ai.approveDependencies(requestId, decision)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e))
+    }
+  }
+
+  async function revertTo(messageId: string) {
+    if (!activeProject) return
+    setError(null)
+    setBusy(true)
+    try {
+      setLastRevert(await window.api.snapshots.revert(activeProject.path, messageId))
+      setTree(await window.api.fs.tree(activeProject.path, { maxDepth: 6 }))
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  async function undoRevert() {
+    if (!activeProject) return
+    setError(null)
+    setBusy(true)
+    try {
+      await window.api.snapshots.undoRevert(activeProject.path)
+      setLastRevert(null)
+      setTree(await window.api.fs.tree(activeProject.path, { maxDepth: 6 }))
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e))
+    } finally {
+      setBusy(false)
+    }
+  }
+
   async function createProject(req: CreateProjectRequest) {
     const created = await window.api.projects.create(req)
     await refreshAll()
     await openProject(created)
   }
 
+  async function addImages(files: File[]) {
+    const supported = files.filter((f) => ATTACHMENT_TYPES.includes(f.type))
+    if (supported.length < files.length) setError('Only png, jpeg, gif and webp images can be attached.')
+    try {
+      const read = await Promise.all(supported.map(readImageFile))
+      setImages((list) => [...list, ...read])
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e))
+    }
+  }
+
+  function onChatPaste(e: React.ClipboardEvent<HTMLTextAreaElement>) {
+    const files = Array.from(e.clipboardData.files).filter((f) => f.type.startsWith('image/'))
+    if (files.length === 0) return
+    e.preventDefault()
+    void addImages(files)
+  }
+
   async function sendMessage() {
     const content = draft.trim()
-    if (!content) return
+    if (!content && images.length === 0) return
     if (!activeProject) {
       setError('No project is open.')
       return
     }
 
-    const userMsg: ChatMessage = { id: uid(), role: 'user', content, createdAt: new Date().toISOString() }
+    const sentImages = images
+    const pendingAttachments: ChatAttachment[] = sentImages.map((a) => ({
+      id: a.id,
+      name: a.name,
+      mimeType: a.dataUrl.slice(5, a.dataUrl.indexOf(';')),
+      path: '',
+      size: 0
+    }))
+    const userMsg: ChatMessage = {
+      id: uid(),
+      role: 'user',
+      content,
+      createdAt: new Date().toISOString(),
+      attachments: pendingAttachments.length > 0 ? pendingAttachments : undefined
+    }
     const pendingId = uid()
     const pendingMsg: ChatMessage = {
       id: pendingId,
@@ -599,23 +1049,92 @@ export default function App() {
       createdAt: new Date().toISOString()
     }
     setMessages((m) => [...m, userMsg, pendingMsg])
+    setImagePreviews(Object.fromEntries(sentImages.map((a) => [a.id, a.dataUrl])))
     setDraft('')
+    setImages([])
     setError(null)
+    setRunSteps([])
+    setRunError(null)
 
     const requestId = uid()
     setAiRequestId(requestId)
     setAiBusy(true)
 
+    // Render the model output token-by-token while the run is in flight.
+    // Files are parsed/applied in main once the stream completes.
+    let streamed = ''
+    const unsubscribe = window.api.ai.onDelta(requestId, (delta) => {
+      streamed += delta
+      const content = streamed
+      setMessages((m) => m.map((x) => (x.id === pendingId ? { ...x, content } : x)))
+    })
+    // Each agent step or repair round streams a reply of its own.
+    const unsubscribeTurn = window.api.ai.onTurn(requestId, () => {
+      streamed = ''
+      setMessages((m) => m.map((x) => (x.id === pendingId ? { ...x, content: 'Generating…' } : x)))
+    })
+    const unsubscribeProgress = window.api.ai.onProgress(requestId, (p) => {
+      setRunSteps((steps) => applyProgress(steps, p))
+    })
+    let structuredError: AiRunError | null = null
+    const unsubscribeError = window.api.ai.onError(requestId, (err) => {
+      structuredError = err
+    })
+    const unsubscribeReview = window.api.ai.onReview(requestId, (review) => {
+      setPendingReview({ requestId, review })
+    })
+    const unsubscribeConflicts = window.api.ai.onConflicts(requestId, (conflicts) => {
+      setPendingConflicts({ requestId, conflicts })
+    })
+    const unsubscribeDependencies = window.api.ai.onDependencies(requestId, (dependencies) => {
+      setPendingDependencies({ requestId, dependencies })
+    })
+    // Verify runs post checks and fixes to the chat as they go; the next fix streams in below them.
+    const unsubscribeChat = window.api.ai.onChat(requestId, (chat) => {
+      streamed = ''
+      setMessages([...chat, { ...pendingMsg, content: 'Checking the build…' }])
+    })
+
     try {
-      const res = await window.api.ai.run({ projectPath: activeProject.path, prompt: content, requestId })
+      const res = await window.api.ai.run({
+        projectPath: activeProject.path,
+        prompt: content,
+        requestId,
+        agent: agentMode || undefined,
+        review: reviewMode || undefined,
+        verify: verifyMode || undefined,
+        attachments: sentImages.length > 0 ? sentImages.map((a) => ({ name: a.name, dataUrl: a.dataUrl })) : undefined
+      })
       setMessages(res.chat)
+      setImagePreviews({})
+      setRunSteps([])
       const t = await window.api.fs.tree(activeProject.path, { maxDepth: 6 })
       setTree(t)
+      // A run that changed files replaces any pending revert.
+      setLastRevert(await window.api.snapshots.lastRevert(activeProject.path).catch(() => null))
     } catch (e) {
-      const msg = e instanceof Error ? e.message : String(e)
+      // Keep the step list around so it's clear which phase failed.
+      setRunSteps((steps) => steps.map((s) => (s.status === 'active' ? { ...s, status: 'failed' } : s)))
+      const runErr: AiRunError = structuredError ?? {
+        code: 'unknown',
+        message: e instanceof Error ? e.message : String(e)
+      }
+      setRunError(runErr)
+      const msg = runErr.message
       setMessages((m) => m.map((x) => (x.id === pendingId ? { ...x, content: `⚠️ ${msg}` } : x)))
       setError(msg)
     } finally {
+      unsubscribe()
+      unsubscribeTurn()
+      unsubscribeProgress()
+      unsubscribeError()
+      unsubscribeReview()
+      unsubscribeConflicts()
+      unsubscribeDependencies()
+      unsubscribeChat()
+      setPendingReview(null)
+      setPendingConflicts(null)
+      setPendingDependencies(null)
       setAiBusy(false)
       setAiRequestId(null)
     }
@@ -684,7 +1203,7 @@ export default function App() {
                     {activeProject.name}
                   </div>
                 </div>
-                <button className="rounded border px-2 py-1 text-xs hover:bg-zinc-50" onClick={() => setActiveProject(null)}>
+                <button className="rounded border px-2 py-1 text-xs hover:bg-zinc-50" onClick={closeProject}>
                   Back
                 </button>
               </div>
@@ -737,11 +1256,7 @@ export default function App() {
               )}
             </div>
           ) : mode === 'design' ? (
-            <div className="p-6">
-              <div className="rounded border bg-zinc-50 p-4 text-sm text-zinc-700">
-                Preview will appear here (Milestone 3).
-              </div>
-            </div>
+            <PreviewPane projectPath={activeProject.path} />
           ) : (
             <div className="flex h-[calc(100vh-56px)] flex-col">
               <div className="flex-1 overflow-auto p-4">
@@ -752,7 +1267,23 @@ export default function App() {
                     </div>
                   )}
 
-                  {messages.map((m) => (
+                  {lastRevert && (
+                    <div className="flex items-center justify-between gap-2 rounded border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-900">
+                      <span>
+                        Reverted {lastRevert.files.length} file{lastRevert.files.length === 1 ? '' : 's'} to an earlier
+                        message. Dependencies in node_modules were left as they are.
+                      </span>
+                      <button
+                        className="rounded border border-amber-300 bg-white px-2 py-1 hover:bg-amber-100 disabled:opacity-50"
+                        onClick={() => void undoRevert()}
+                        disabled={busy || aiBusy}
+                      >
+                        Undo revert
+                      </button>
+                    </div>
+                  )}
+
+                  {messages.map((m, i) => (
                     <div
                       key={m.id}
                       className={`max-w-[85%] rounded border p-3 text-sm ${
@@ -762,13 +1293,53 @@ export default function App() {
                       <div className="mb-1 text-[11px] font-semibold text-zinc-600">
                         {m.role === 'user' ? 'You' : 'AI'}
                       </div>
+                      <MessageAttachments
+                        projectPath={activeProject.path}
+                        attachments={m.attachments}
+                        previews={imagePreviews}
+                      />
                       <div className="whitespace-pre-wrap">{m.content}</div>
+                      {m.generation && <GenerationInfo generation={m.generation} agent={m.agent} />}
                       {m.createdAt && (
                         <div className="mt-2 text-[10px] text-zinc-500">{new Date(m.createdAt).toLocaleString()}</div>
                       )}
+                      {m.role === 'assistant' && messages.slice(i + 1).some((x) => x.snapshot) && (
+                        <button
+                          className="mt-2 rounded border bg-white px-2 py-0.5 text-[11px] hover:bg-zinc-100 disabled:opacity-50"
+                          onClick={() => void revertTo(m.id)}
+                          disabled={busy || aiBusy}
+                          title="Undo the file changes of every later run"
+                        >
+                          Revert to here
+                        </button>
+                      )}
                     </div>
                   ))}
 
+                  <RunProgressSteps steps={runSteps} />
+                  {pendingReview && (
+                    <ReviewPanel
+                      key={pendingReview.requestId}
+                      review={pendingReview.review}
+                      onDecide={(decision) => void decideReview(pendingReview.requestId, decision)}
+                    />
+                  )}
+                  {pendingConflicts && (
+                    <ConflictPanel
+                      key={pendingConflicts.requestId}
+                      conflicts={pendingConflicts.conflicts}
+                      onResolve={(resolutions) => void resolveConflicts(pendingConflicts.requestId, resolutions)}
+                    />
+                  )}
+                  {pendingDependencies && (
+                    <DependencyApprovalPanel
+                      key={pendingDependencies.requestId}
+                      dependencies={pendingDependencies.dependencies}
+                      onDecide={(decision) => void approveDependencies(pendingDependencies.requestId, decision)}
+                    />
+                  )}
+                  <RunErrorCard error={runError} />
+
                   <div ref={chatEndRef} />
                 </div>
               </div>
@@ -780,10 +1351,70 @@ export default function App() {
                     value={draft}
                     onChange={(e) => setDraft(e.target.value)}
                     onKeyDown={onChatKeyDown}
-                    placeholder="Describe what you want to build…"
+                    onPaste={onChatPaste}
+                    placeholder="Describe what you want to build… (paste or attach a screenshot or mockup)"
                     disabled={aiBusy}
                   />
+                  <PendingAttachments
+                    items={images}
+                    onRemove={(id) => setImages((list) => list.filter((a) => a.id !== id))}
+                  />
                   <div className="mt-2 flex justify-end gap-2">
+                    <input
+                      ref={fileInputRef}
+                      type="file"
+                      accept={ATTACHMENT_TYPES.join(',')}
+                      multiple
+                      className="hidden"
+                      onChange={(e) => {
+                        void addImages(Array.from(e.target.files ?? []))
+                        e.target.value = ''
+                      }}
+                    />
+                    <button
+                      className="rounded border px-3 py-2 text-sm hover:bg-zinc-50 disabled:opacity-50"
+                      onClick={() => fileInputRef.current?.click()}
+                      disabled={aiBusy}
+                      title="Attach images (needs a vision-capable model)"
+                    >
+                      Attach image
+                    </button>
+                    <label
+                      className="flex items-center gap-2 px-2 text-xs text-zinc-700"
+                      title="Let the model read, search and typecheck the project before it writes files (needs a model with tool calling)"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={agentMode}
+                        onChange={(e) => setAgentMode(e.target.checked)}
+                        disabled={aiBusy}
+                      />
+                      Agent mode
+                    </label>
+                    <label
+                      className="flex items-center gap-2 px-2 text-xs text-zinc-700"
+                      title="Show per-file diffs and pick what to apply before anything is written"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={reviewMode}
+                        onChange={(e) => setReviewMode(e.target.checked)}
+                        disabled={aiBusy}
+                      />
+                      Review changes
+                    </label>
+                    <label
+                      className="mr-auto flex items-center gap-2 px-2 text-xs text-zinc-700"
+                      title="After applying, run the project's lint and build scripts and let the model fix what they report"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={verifyMode}
+                        onChange={(e) => setVerifyMode(e.target.checked)}
+                        disabled={aiBusy}
+                      />
+                      Verify build
+                    </label>
                     <button
                       className="rounded bg-black px-4 py-2 text-sm text-white hover:bg-zinc-800 disabled:opacity-50"
                       onClick={sendMessage}
@@ -0,0 +1,100 @@
+import { useEffect, useState } from 'react'
+import type { ChatAttachment } from '@shared/types'
+
+export const ATTACHMENT_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp']
+
+/**
+ * An image picked or pasted into the prompt box, not sent yet.
+ */
+export interface PendingAttachment {
+  id: string
+  name: string
+  dataUrl: string
+}
+
+export function readImageFile(file: File): Promise<PendingAttachment> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () =>
+      resolve({
+        id: Math.random().toString(16).slice(2) + Date.now().toString(16),
+        name: file.name || 'pasted-image.png',
+        dataUrl: String(reader.result)
+      })
+    reader.onerror = () => reject(reader.error ?? new Error(`Could not read ${file.name}`))
+    reader.readAsDataURL(file)
+  })
+}
+
+function Thumb(props: { src?: string; name: string; onRemove?: () => void }) {
+  return (
+    <div className="relative h-16 w-16 shrink-0 overflow-hidden rounded border bg-zinc-50" title={props.name}>
+      {props.src ? (
+        <img src={props.src} alt={props.name} className="h-full w-full object-cover" />
+      ) : (
+        <div className="flex h-full items-center justify-center p-1 text-center text-[10px] text-zinc-500">
+          {props.name}
+        </div>
+      )}
+      {props.onRemove && (
+        <button
+          className="absolute right-0.5 top-0.5 rounded bg-white/90 px-1 text-[10px] leading-4 hover:bg-white"
+          onClick={props.onRemove}
+          title="Remove"
+        >
+          ✕
+        </button>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Thumbnail for an image stored with the chat (.vorbyte/attachments). `preview` is shown
+ * instead while the message hasn't been saved yet.
+ */
+function StoredThumb(props: { projectPath: string; attachment: ChatAttachment; preview?: string }) {
+  const [src, setSrc] = useState<string | undefined>(props.preview)
+
+  useEffect(() => {
+    if (props.preview) return
+    let disposed = false
+    window.api.chat
+      .attachment(props.projectPath, props.attachment)
+      .then((url) => !disposed && setSrc(url))
+      .catch(() => {
+        // file was removed; the name is shown instead
+      })
+    return () => {
+      disposed = true
+    }
+  }, [props.projectPath, props.attachment.path, props.preview])
+
+  return <Thumb src={src} name={props.attachment.name} />
+}
+
+export function MessageAttachments(props: {
+  projectPath: string
+  attachments?: ChatAttachment[]
+  previews?: Record<string, string>
+}) {
+  if (!props.attachments?.length) return null
+  return (
+    <div className="mb-2 flex flex-wrap gap-2">
+      {props.attachments.map((a) => (
+        <StoredThumb key={a.id} projectPath={props.projectPath} attachment={a} preview={props.previews?.[a.id]} />
+      ))}
+    </div>
+  )
+}
+
+export function PendingAttachments(props: { items: PendingAttachment[]; onRemove: (id: string) => void }) {
+  if (props.items.length === 0) return null
+  return (
+    <div className="flex flex-wrap gap-2">
+      {props.items.map((a) => (
+        <Thumb key={a.id} src={a.dataUrl} name={a.name} onRemove={() => props.onRemove(a.id)} />
+      ))}
+    </div>
+  )
+}
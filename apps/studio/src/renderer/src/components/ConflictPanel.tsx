@@ -0,0 +1,118 @@
+import { useState } from 'react'
+import type { AiConflictFile, AiConflictResolution } from '@shared/types'
+import { DiffView } from './ReviewPanel'
+
+const CHOICES: { value: AiConflictResolution; label: string }[] = [
+  { value: 'ours', label: 'Keep mine' },
+  { value: 'theirs', label: 'Use AI version' },
+  { value: 'markers', label: 'Write with markers' }
+]
+
+function ConflictFileRow(props: {
+  file: AiConflictFile
+  choice: AiConflictResolution
+  onChoose: (choice: AiConflictResolution) => void
+  disabled?: boolean
+}) {
+  const f = props.file
+  const [open, setOpen] = useState(false)
+
+  return (
+    <li className="rounded border bg-zinc-50">
+      <div className="flex items-center gap-2 px-2 py-1.5">
+        <button
+          className="min-w-0 flex-1 truncate text-left font-mono text-[11px] hover:underline"
+          onClick={() => setOpen((o) => !o)}
+          title={f.path}
+        >
+          {f.path}
+        </button>
+        <span className="text-[10px] text-zinc-500">
+          {f.regions} region{f.regions === 1 ? '' : 's'} {open ? '▾' : '▸'}
+        </span>
+        <select
+          className="rounded border bg-white px-1 py-0.5 text-[11px]"
+          value={props.choice}
+          onChange={(e) => props.onChoose(e.target.value as AiConflictResolution)}
+          disabled={props.disabled}
+        >
+          {CHOICES.map((c) => (
+            <option key={c.value} value={c.value}>
+              {c.label}
+            </option>
+          ))}
+        </select>
+      </div>
+      {open && <DiffView diff={f.diff} />}
+    </li>
+  )
+}
+
+/**
+ * Files the AI rewrote that were also edited by hand, with overlapping changes. The diff shows
+ * the merge with conflict markers; each file is settled on its own. The rest of the run is
+ * written once the choices are sent.
+ */
+export function ConflictPanel(props: {
+  conflicts: AiConflictFile[]
+  onResolve: (resolutions: Record<string, AiConflictResolution>) => void
+}) {
+  const [choices, setChoices] = useState<Record<string, AiConflictResolution>>(() =>
+    Object.fromEntries(props.conflicts.map((f) => [f.path, 'ours' as const]))
+  )
+  const [sent, setSent] = useState(false)
+
+  function resolve(resolutions: Record<string, AiConflictResolution>) {
+    setSent(true)
+    props.onResolve(resolutions)
+  }
+
+  const all = (choice: AiConflictResolution) => Object.fromEntries(props.conflicts.map((f) => [f.path, choice]))
+  return (
+    <div className="rounded border border-orange-200 bg-white p-3 text-xs">
+      <div className="mb-1 font-semibold text-zinc-700">
+        {props.conflicts.length} file{props.conflicts.length === 1 ? ' was' : 's were'} edited by hand since the AI last
+        wrote {props.conflicts.length === 1 ? 'it' : 'them'}
+      </div>
+      <div className="mb-2 text-[11px] text-zinc-600">
+        Your edits and the AI's changes touch the same lines. Other files are written once you choose.
+      </div>
+
+      <ul className="space-y-1">
+        {props.conflicts.map((f) => (
+          <ConflictFileRow
+            key={f.path}
+            file={f}
+            choice={choices[f.path]}
+            onChoose={(choice) => setChoices((c) => ({ ...c, [f.path]: choice }))}
+            disabled={sent}
+          />
+        ))}
+      </ul>
+
+      <div className="mt-3 flex justify-end gap-2">
+        <button
+          className="rounded border px-3 py-1.5 hover:bg-zinc-50 disabled:opacity-50"
+          onClick={() => resolve(all('ours'))}
+          disabled={sent}
+        >
+          Keep all mine
+        </button>
+        <button
+          className="rounded border px-3 py-1.5 hover:bg-zinc-50 disabled:opacity-50"
+          onClick={() => resolve(all('theirs'))}
+          disabled={sent}
+        >
+          Use all AI versions
+        </button>
+        <button
+          className="rounded bg-black px-3 py-1.5 text-white hover:bg-zinc-800 disabled:opacity-50"
+          onClick={() => resolve(choices)}
+          disabled={sent}
+        >
+          Apply choices
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,86 @@
+import { useState } from 'react'
+import type { AiDependencyDecision, AiPendingDependency } from '@shared/types'
+
+/**
+ * Packages the dependency policy held back: names that look like a typo of a well-known
+ * package, and (in require-approval mode) anything not on the allowlist. Typosquat suspects
+ * start unticked. Files are written once the choice is sent.
+ */
+export function DependencyApprovalPanel(props: {
+  dependencies: AiPendingDependency[]
+  onDecide: (decision: AiDependencyDecision) => void
+}) {
+  const [selected, setSelected] = useState<Set<string>>(
+    () => new Set(props.dependencies.filter((d) => d.reason !== 'typosquat').map((d) => d.spec))
+  )
+  const [remember, setRemember] = useState(false)
+  const [sent, setSent] = useState(false)
+
+  function decide(approve: string[]) {
+    setSent(true)
+    props.onDecide({ approve, remember: remember && approve.length > 0 })
+  }
+
+  function toggle(spec: string) {
+    setSelected((s) => {
+      const next = new Set(s)
+      if (next.has(spec)) next.delete(spec)
+      else next.add(spec)
+      return next
+    })
+  }
+
+  const count = props.dependencies.length
+  return (
+    <div className="rounded border border-amber-200 bg-white p-3 text-xs">
+      <div className="mb-1 font-semibold text-zinc-700">
+        {count} package{count === 1 ? ' needs' : 's need'} your approval
+      </div>
+      <div className="mb-2 text-[11px] text-zinc-600">
+        Unticked packages are skipped. Code that imports them won't build until they're installed.
+      </div>
+
+      <ul className="space-y-1">
+        {props.dependencies.map((d) => (
+          <li key={d.spec} className="rounded border bg-zinc-50 px-2 py-1.5">
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={selected.has(d.spec)}
+                onChange={() => toggle(d.spec)}
+                disabled={sent}
+              />
+              <span className="font-mono text-[11px]">{d.spec}</span>
+              {d.dev && <span className="text-[10px] text-zinc-500">(dev)</span>}
+            </label>
+            <div className={`mt-0.5 text-[11px] ${d.reason === 'typosquat' ? 'text-red-700' : 'text-zinc-600'}`}>
+              {d.message}
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      <label className="mt-2 flex items-center gap-2 text-[11px] text-zinc-600">
+        <input type="checkbox" checked={remember} onChange={(e) => setRemember(e.target.checked)} disabled={sent} />
+        Remember approved packages for this project
+      </label>
+
+      <div className="mt-3 flex justify-end gap-2">
+        <button
+          className="rounded border px-3 py-1.5 hover:bg-zinc-50 disabled:opacity-50"
+          onClick={() => decide([])}
+          disabled={sent}
+        >
+          Skip all
+        </button>
+        <button
+          className="rounded bg-black px-3 py-1.5 text-white hover:bg-zinc-800 disabled:opacity-50"
+          onClick={() => decide([...selected])}
+          disabled={sent}
+        >
+          Install selected
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,300 @@
+import { useEffect, useRef, useState } from 'react'
+import type { ModelListResult, OllamaModelDetails, OllamaPullStatus } from '@shared/types'
+
+export function formatBytes(n: number) {
+  if (n >= 1e9) return `${(n / 1e9).toFixed(1)} GB`
+  if (n >= 1e6) return `${(n / 1e6).toFixed(0)} MB`
+  return `${Math.max(1, Math.round(n / 1e3))} KB`
+}
+
+function errorText(e: unknown) {
+  const msg = e instanceof Error ? e.message : String(e)
+  // ipcRenderer.invoke prefixes errors thrown in main.
+  return msg.replace(/^Error invoking remote method '[^']+': (\w*Error: )?/, '')
+}
+
+/**
+ * Current Ollama downloads, kept up to date from "ollama:pull" events. `onDone` runs when
+ * a download finishes successfully.
+ */
+export function useOllamaPulls(onDone?: (status: OllamaPullStatus) => void) {
+  const [pulls, setPulls] = useState<Record<string, OllamaPullStatus>>({})
+  const onDoneRef = useRef(onDone)
+  onDoneRef.current = onDone
+
+  useEffect(() => {
+    let disposed = false
+    const off = window.api.ollama.onPull((s) => {
+      setPulls((p) => ({ ...p, [s.model]: s }))
+      if (s.state === 'done') onDoneRef.current?.(s)
+    })
+    window.api.ollama.pulls().then((list) => {
+      if (disposed) return
+      // Events that arrived meanwhile are newer than this snapshot.
+      setPulls((p) => ({ ...Object.fromEntries(list.map((s) => [s.model, s])), ...p }))
+    })
+    return () => {
+      disposed = true
+      off()
+    }
+  }, [])
+
+  function dismiss(model: string) {
+    setPulls((p) => {
+      const { [model]: _removed, ...rest } = p
+      return rest
+    })
+  }
+
+  return { pulls, dismiss }
+}
+
+const PULL_STATE_LABEL: Record<OllamaPullStatus['state'], string> = {
+  pulling: 'Downloading',
+  done: 'Downloaded',
+  cancelled: 'Cancelled',
+  error: 'Failed'
+}
+
+export function PullProgress(props: { pull: OllamaPullStatus; onDismiss?: () => void }) {
+  const p = props.pull
+  const pct = p.total ? Math.min(100, Math.round(((p.completed ?? 0) / p.total) * 100)) : null
+
+  return (
+    <div className="space-y-1 rounded border p-2 text-xs">
+      <div className="flex items-center gap-2">
+        <span className="font-semibold">{p.model}</span>
+        <span className="truncate text-zinc-500">{p.state === 'pulling' ? p.status : PULL_STATE_LABEL[p.state]}</span>
+        <span className="ml-auto text-zinc-500">
+          {p.total ? `${formatBytes(p.completed ?? 0)} / ${formatBytes(p.total)}` : ''}
+          {pct !== null ? ` · ${pct}%` : ''}
+        </span>
+        {p.state === 'pulling' ? (
+          <button
+            className="rounded border px-2 py-0.5 hover:bg-zinc-50"
+            onClick={() => window.api.ollama.cancelPull(p.model)}
+          >
+            Cancel
+          </button>
+        ) : (
+          props.onDismiss && (
+            <button className="rounded border px-2 py-0.5 hover:bg-zinc-50" onClick={props.onDismiss}>
+              Dismiss
+            </button>
+          )
+        )}
+      </div>
+      {p.state === 'pulling' && (
+        <div className="h-1.5 overflow-hidden rounded bg-zinc-100">
+          <div
+            className={`h-full bg-black transition-all ${pct === null ? 'animate-pulse' : ''}`}
+            style={{ width: `${pct ?? 100}%` }}
+          />
+        </div>
+      )}
+      {p.state === 'error' && p.error && (
+        <div className="text-red-700">{p.error.hint ? `${p.error.message} ${p.error.hint}` : p.error.message}</div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Install, inspect and remove models on the configured Ollama server, so nobody needs
+ * a terminal for `ollama pull` / `ollama rm`.
+ */
+export function LocalModelsPanel() {
+  const [list, setList] = useState<ModelListResult | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [name, setName] = useState('')
+  const [details, setDetails] = useState<Record<string, OllamaModelDetails | { error: string } | 'loading'>>({})
+  const [deleting, setDeleting] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const { pulls, dismiss } = useOllamaPulls((s) => {
+    dismiss(s.model)
+    refresh()
+  })
+
+  async function refresh() {
+    setLoading(true)
+    try {
+      setList(await window.api.models.list({ provider: 'ollama' }))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    refresh()
+  }, [])
+
+  function pull() {
+    const model = name.trim()
+    if (!model) return
+    setName('')
+    setError(null)
+    // Progress arrives through useOllamaPulls; the final status is handled there too.
+    void window.api.ollama.pull(model)
+  }
+
+  async function toggleDetails(model: string) {
+    if (details[model]) {
+      setDetails(({ [model]: _removed, ...rest }) => rest)
+      return
+    }
+    setDetails((d) => ({ ...d, [model]: 'loading' }))
+    try {
+      const info = await window.api.ollama.show(model)
+      setDetails((d) => ({ ...d, [model]: info }))
+    } catch (e) {
+      setDetails((d) => ({ ...d, [model]: { error: errorText(e) } }))
+    }
+  }
+
+  async function remove(model: string) {
+    if (!window.confirm(`Delete ${model}? It will have to be downloaded again to use it.`)) return
+    setDeleting(model)
+    setError(null)
+    try {
+      await window.api.ollama.delete(model)
+      await refresh()
+    } catch (e) {
+      setError(errorText(e))
+    } finally {
+      setDeleting(null)
+    }
+  }
+
+  const activePulls = Object.values(pulls)
+
+  return (
+    <div className="space-y-4 text-sm">
+      {error && <div className="rounded border border-red-200 bg-red-50 p-3 text-sm text-red-800">{error}</div>}
+
+      <div className="space-y-2">
+        <div className="font-semibold">Download a model</div>
+        <div className="flex gap-2">
+          <input
+            className="w-full rounded border px-3 py-2 text-sm"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && pull()}
+            placeholder="e.g., llama3.1 or qwen2.5-coder:7b"
+          />
+          <button
+            className="shrink-0 rounded bg-black px-4 py-2 text-sm text-white hover:bg-zinc-800 disabled:opacity-50"
+            onClick={pull}
+            disabled={!name.trim()}
+          >
+            Download
+          </button>
+        </div>
+        <div className="text-xs text-zinc-600">
+          Browse model names at{' '}
+          <code className="rounded bg-zinc-100 px-1">ollama.com/library</code>.
+        </div>
+      </div>
+
+      {activePulls.length > 0 && (
+        <div className="space-y-2">
+          {activePulls.map((p) => (
+            <PullProgress key={p.model} pull={p} onDismiss={() => dismiss(p.model)} />
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <div className="flex items-center">
+          <div className="font-semibold">Installed models</div>
+          <button
+            className="ml-auto rounded border px-2 py-1 text-xs hover:bg-zinc-50 disabled:opacity-50"
+            onClick={refresh}
+            disabled={loading}
+          >
+            Refresh
+          </button>
+        </div>
+
+        {list?.error ? (
+          <div className="rounded border border-red-200 bg-red-50 p-3 text-xs text-red-800">
+            <div>{list.error.message}</div>
+            {list.error.hint && <div className="mt-1 whitespace-pre-wrap">{list.error.hint}</div>}
+          </div>
+        ) : list && list.models.length === 0 ? (
+          <div className="text-xs text-zinc-600">No models installed yet.</div>
+        ) : (
+          <ul className="divide-y rounded border">
+            {list?.models.map((m) => {
+              const d = details[m.id]
+              return (
+                <li key={m.id} className="p-2 text-xs">
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold">{m.id}</span>
+                    <span className="text-zinc-500">
+                      {[m.parameterSize, m.quantization, m.sizeBytes ? formatBytes(m.sizeBytes) : undefined]
+                        .filter(Boolean)
+                        .join(' · ')}
+                    </span>
+                    <div className="ml-auto flex gap-2">
+                      <button
+                        className="rounded border px-2 py-0.5 hover:bg-zinc-50"
+                        onClick={() => toggleDetails(m.id)}
+                      >
+                        {d ? 'Hide' : 'Details'}
+                      </button>
+                      <button
+                        className="rounded border px-2 py-0.5 text-red-700 hover:bg-red-50 disabled:opacity-50"
+                        onClick={() => remove(m.id)}
+                        disabled={deleting === m.id}
+                      >
+                        {deleting === m.id ? 'Deleting…' : 'Delete'}
+                      </button>
+                    </div>
+                  </div>
+                  {d === 'loading' && <div className="mt-1 text-zinc-500">Loading…</div>}
+                  {d && d !== 'loading' && 'error' in d && <div className="mt-1 text-red-700">{d.error}</div>}
+                  {d && d !== 'loading' && !('error' in d) && (
+                    <dl className="mt-2 grid grid-cols-[8rem_1fr] gap-x-2 gap-y-1 text-zinc-700">
+                      {d.family && (
+                        <>
+                          <dt className="text-zinc-500">Family</dt>
+                          <dd>{d.family}</dd>
+                        </>
+                      )}
+                      {d.contextLength && (
+                        <>
+                          <dt className="text-zinc-500">Context length</dt>
+                          <dd>{d.contextLength.toLocaleString()} tokens</dd>
+                        </>
+                      )}
+                      {d.capabilities && d.capabilities.length > 0 && (
+                        <>
+                          <dt className="text-zinc-500">Capabilities</dt>
+                          <dd>{d.capabilities.join(', ')}</dd>
+                        </>
+                      )}
+                      {d.parameters && (
+                        <>
+                          <dt className="text-zinc-500">Parameters</dt>
+                          <dd className="whitespace-pre-wrap font-mono text-[10px]">{d.parameters}</dd>
+                        </>
+                      )}
+                      {d.license && (
+                        <>
+                          <dt className="text-zinc-500">License</dt>
+                          <dd className="truncate" title={d.license}>
+                            {d.license.split('\n')[0]}
+                          </dd>
+                        </>
+                      )}
+                    </dl>
+                  )}
+                </li>
+              )
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
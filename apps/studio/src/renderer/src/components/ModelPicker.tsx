@@ -0,0 +1,182 @@
+import { useEffect, useState } from 'react'
+import type { AppSettings, ModelListResult, ModelProvider, ModelSummary } from '@shared/types'
+import { PullProgress, useOllamaPulls } from './LocalModelsPanel'
+
+const PROVIDER_LABEL: Record<ModelProvider, string> = {
+  ollama: 'Ollama',
+  openai: 'OpenAI',
+  anthropic: 'Anthropic'
+}
+
+const CUSTOM_OPTION = '__custom__'
+
+/**
+ * Split a stored model value ("ollama:llama3.1", "anthropic:claude-…", bare "gpt-4o") into
+ * provider + model, using the same rules as main's parseLocalModel/parseCloudModel.
+ */
+function splitValue(mode: 'cloud' | 'local', value: string): { provider: ModelProvider; model: string } {
+  const v = value.trim()
+  const idx = v.indexOf(':')
+  const prefix = idx > 0 ? v.slice(0, idx).toLowerCase() : ''
+  if (mode === 'local') return { provider: 'ollama', model: prefix === 'ollama' ? v.slice(idx + 1) : v }
+  if (prefix === 'openai' || prefix === 'anthropic') return { provider: prefix, model: v.slice(idx + 1) }
+  return { provider: /^claude-/i.test(v) ? 'anthropic' : 'openai', model: v }
+}
+
+function findListed(provider: ModelProvider, models: ModelSummary[], model: string) {
+  // Ollama treats a missing tag as ":latest".
+  const wanted = provider === 'ollama' && !model.includes(':') ? `${model}:latest` : model
+  return models.find((m) => m.id === model || m.id === wanted)
+}
+
+function describeModel(m: ModelSummary) {
+  const parts = [m.displayName && m.displayName !== m.id ? m.displayName : undefined, m.parameterSize, m.quantization]
+  if (m.sizeBytes) parts.push(`${(m.sizeBytes / 1e9).toFixed(1)} GB`)
+  if (m.contextLength) parts.push(`${Math.round(m.contextLength / 1000)}k ctx`)
+  const meta = parts.filter(Boolean).join(' · ')
+  return meta ? `${m.id} (${meta})` : m.id
+}
+
+/**
+ * Model dropdown backed by the provider's model listing (models:list), with a free-text
+ * fallback and a hint when the selected model isn't available.
+ */
+export function ModelPicker(props: {
+  mode: 'cloud' | 'local'
+  value: string
+  onChange: (value: string) => void
+  /**
+   * Unsaved settings (e.g. the Settings draft) to list models with.
+   */
+  settings?: Partial<AppSettings>
+}) {
+  const providers: ModelProvider[] = props.mode === 'local' ? ['ollama'] : ['openai', 'anthropic']
+  const [results, setResults] = useState<Partial<Record<ModelProvider, ModelListResult>>>({})
+  const [loading, setLoading] = useState(false)
+  const [custom, setCustom] = useState(false)
+  const [refreshKey, setRefreshKey] = useState(0)
+  const { pulls, dismiss } = useOllamaPulls(() => setRefreshKey((k) => k + 1))
+
+  const overrides: Partial<AppSettings> | undefined = props.settings && {
+    openaiApiKey: props.settings.openaiApiKey,
+    anthropicApiKey: props.settings.anthropicApiKey,
+    ollamaBaseUrl: props.settings.ollamaBaseUrl
+  }
+  const overridesKey = JSON.stringify(overrides ?? null)
+
+  useEffect(() => {
+    let disposed = false
+    setLoading(true)
+    // Debounced: in Settings this re-runs while the user is typing a key or URL.
+    const t = setTimeout(async () => {
+      const list = await Promise.all(
+        providers.map((provider) => window.api.models.list({ provider, settings: overrides }))
+      )
+      if (disposed) return
+      setResults(Object.fromEntries(list.map((r) => [r.provider, r])))
+      setLoading(false)
+    }, 400)
+    return () => {
+      disposed = true
+      clearTimeout(t)
+    }
+  }, [props.mode, overridesKey, refreshKey])
+
+  const { provider, model } = splitValue(props.mode, props.value)
+  const current = results[provider]
+  const match = current ? findListed(provider, current.models, model) : undefined
+  const selected = `${provider}:${match?.id ?? model}`
+
+  return (
+    <div className="space-y-1">
+      <div className="flex gap-2">
+        {custom ? (
+          <input
+            className="w-full rounded border px-3 py-2 text-sm"
+            value={props.value}
+            onChange={(e) => props.onChange(e.target.value)}
+            placeholder={props.mode === 'local' ? 'ollama:llama3.1' : 'openai:gpt-4o-mini'}
+          />
+        ) : (
+          <select
+            className="w-full rounded border px-3 py-2 text-sm"
+            value={selected}
+            onChange={(e) => {
+              if (e.target.value === CUSTOM_OPTION) setCustom(true)
+              else props.onChange(e.target.value)
+            }}
+          >
+            {!match && model && <option value={selected}>{`${model} (not in the list)`}</option>}
+            {providers.map((p) => {
+              const r = results[p]
+              if (!r || r.models.length === 0) return null
+              return (
+                <optgroup key={p} label={PROVIDER_LABEL[p]}>
+                  {r.models.map((m) => (
+                    <option key={m.id} value={`${p}:${m.id}`}>
+                      {describeModel(m)}
+                    </option>
+                  ))}
+                </optgroup>
+              )
+            })}
+            <option value={CUSTOM_OPTION}>Other…</option>
+          </select>
+        )}
+        {custom && (
+          <button
+            className="shrink-0 rounded border px-3 py-2 text-xs hover:bg-zinc-50"
+            onClick={() => setCustom(false)}
+          >
+            List
+          </button>
+        )}
+        <button
+          className="shrink-0 rounded border px-3 py-2 text-xs hover:bg-zinc-50 disabled:opacity-50"
+          onClick={() => setRefreshKey((k) => k + 1)}
+          disabled={loading}
+          title="Reload the model list"
+        >
+          Refresh
+        </button>
+      </div>
+
+      <div className="text-xs">
+        {loading ? (
+          <span className="text-zinc-500">Checking available models…</span>
+        ) : !current ? null : current.error ? (
+          <span className="text-zinc-600">
+            Couldn't list {PROVIDER_LABEL[provider]} models: {current.error.hint ?? current.error.message}
+          </span>
+        ) : match ? (
+          <span className="text-green-700">✓ Available on {PROVIDER_LABEL[provider]}</span>
+        ) : (
+          <span className="text-amber-700">
+            “{model}” isn't available on {PROVIDER_LABEL[provider]}.{' '}
+            {provider === 'ollama' ? (
+              <button
+                className="rounded border px-2 py-0.5 text-zinc-800 hover:bg-zinc-50 disabled:opacity-50"
+                onClick={() => window.api.ollama.pull(model)}
+                disabled={pulls[model]?.state === 'pulling'}
+              >
+                Download it
+              </button>
+            ) : (
+              'Check the name or pick one from the list.'
+            )}
+          </span>
+        )}
+      </div>
+      {provider === 'ollama' && pulls[model] && (
+        <PullProgress pull={pulls[model]} onDismiss={() => dismiss(model)} />
+      )}
+      {providers
+        .filter((p) => p !== provider && results[p]?.error)
+        .map((p) => (
+          <div key={p} className="text-[11px] text-zinc-500">
+            {PROVIDER_LABEL[p]} models unavailable: {results[p]!.error!.hint ?? results[p]!.error!.message}
+          </div>
+        ))}
+    </div>
+  )
+}
@@ -0,0 +1,163 @@
+import { useEffect, useRef, useState } from 'react'
+import type { PreviewLogLine, PreviewStatus } from '@shared/types'
+
+const STATE_LABEL: Record<PreviewStatus['state'], string> = {
+  stopped: 'Stopped',
+  installing: 'Installing dependencies…',
+  starting: 'Starting dev server…',
+  ready: 'Running',
+  error: 'Error'
+}
+
+const MAX_LOG_LINES = 500
+
+/**
+ * The DOM typings only know <webview> as a plain element; Electron adds the navigation methods.
+ */
+type WebviewElement = HTMLWebViewElement & { reload: () => void }
+
+/**
+ * Design tab: runs `next dev` for the project and shows it in an embedded webview.
+ * The dev server is started on first open and stopped when the project is closed.
+ */
+export function PreviewPane(props: { projectPath: string }) {
+  const [status, setStatus] = useState<PreviewStatus>({ projectPath: props.projectPath, state: 'stopped' })
+  const [logs, setLogs] = useState<PreviewLogLine[]>([])
+  const [showLogs, setShowLogs] = useState(false)
+  const webviewRef = useRef<WebviewElement | null>(null)
+  const logEndRef = useRef<HTMLDivElement | null>(null)
+
+  useEffect(() => {
+    let disposed = false
+    const projectPath = props.projectPath
+
+    const offStatus = window.api.preview.onStatus((s) => {
+      if (s.projectPath === projectPath) setStatus(s)
+    })
+    const offLog = window.api.preview.onLog(projectPath, (line) => {
+      setLogs((l) => [...l, line].slice(-MAX_LOG_LINES))
+    })
+
+    ;(async () => {
+      const [current, existingLogs] = await Promise.all([
+        window.api.preview.status(projectPath),
+        window.api.preview.logs(projectPath, { limit: MAX_LOG_LINES })
+      ])
+      if (disposed) return
+      setStatus(current)
+      setLogs(existingLogs)
+      if (current.state === 'stopped') {
+        setStatus(await window.api.preview.start(projectPath))
+      }
+    })()
+
+    return () => {
+      disposed = true
+      offStatus()
+      offLog()
+    }
+  }, [props.projectPath])
+
+  useEffect(() => {
+    if (showLogs) logEndRef.current?.scrollIntoView()
+  }, [showLogs, logs.length])
+
+  const busy = status.state === 'installing' || status.state === 'starting'
+  const dotClassName =
+    status.state === 'ready'
+      ? 'bg-green-500'
+      : status.state === 'error'
+        ? 'bg-red-500'
+        : busy
+          ? 'bg-amber-400'
+          : 'bg-zinc-300'
+
+  async function start() {
+    setStatus(await window.api.preview.start(props.projectPath))
+  }
+
+  async function stop() {
+    setStatus(await window.api.preview.stop(props.projectPath))
+  }
+
+  async function restart() {
+    setStatus(await window.api.preview.restart(props.projectPath))
+  }
+
+  return (
+    <div className="flex h-[calc(100vh-56px)] flex-col">
+      <div className="flex items-center gap-2 border-b px-4 py-2 text-xs">
+        <span className={`inline-block h-2 w-2 rounded-full ${dotClassName}`} />
+        <span className="font-semibold text-zinc-700">{STATE_LABEL[status.state]}</span>
+        {status.url && <code className="rounded bg-zinc-100 px-1 py-0.5 text-zinc-600">{status.url}</code>}
+
+        <div className="ml-auto flex gap-2">
+          {status.state === 'ready' && (
+            <button
+              className="rounded border px-2 py-1 hover:bg-zinc-50"
+              onClick={() => webviewRef.current?.reload()}
+            >
+              Reload
+            </button>
+          )}
+          {status.state === 'stopped' || status.state === 'error' ? (
+            <button className="rounded border px-2 py-1 hover:bg-zinc-50" onClick={start}>
+              Start
+            </button>
+          ) : (
+            <button className="rounded border px-2 py-1 hover:bg-zinc-50" onClick={stop}>
+              Stop
+            </button>
+          )}
+          <button
+            className="rounded border px-2 py-1 hover:bg-zinc-50 disabled:opacity-50"
+            onClick={restart}
+            disabled={busy}
+          >
+            Restart
+          </button>
+          <button
+            className={`rounded border px-2 py-1 hover:bg-zinc-50 ${showLogs ? 'border-black' : ''}`}
+            onClick={() => setShowLogs((v) => !v)}
+          >
+            Logs
+          </button>
+        </div>
+      </div>
+
+      {status.state === 'error' && status.error && (
+        <div className="border-b border-red-200 bg-red-50 px-4 py-2 text-xs text-red-800">{status.error}</div>
+      )}
+
+      <div className="relative flex-1 bg-zinc-50">
+        {status.state === 'ready' && status.url ? (
+          <webview
+            ref={(el) => {
+              webviewRef.current = el as WebviewElement | null
+            }}
+            src={status.url}
+            className="h-full w-full"
+          />
+        ) : (
+          <div className="p-6 text-sm text-zinc-600">
+            {busy ? STATE_LABEL[status.state] : 'The preview is not running.'}
+          </div>
+        )}
+      </div>
+
+      {showLogs && (
+        <div className="h-48 overflow-auto border-t bg-zinc-950 p-2 font-mono text-[11px] text-zinc-200">
+          {logs.map((l, i) => (
+            <div
+              key={i}
+              className={l.stream === 'stderr' ? 'text-red-300' : l.stream === 'system' ? 'text-sky-300' : ''}
+            >
+              {l.text}
+            </div>
+          ))}
+          <div ref={logEndRef} />
+        </div>
+      )}
+    </div>
+  )
+}
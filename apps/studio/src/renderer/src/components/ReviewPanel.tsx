@@ -0,0 +1,173 @@
+import { useState } from 'react'
+import type { AiReview, AiReviewDecision, AiReviewFile, AiReviewFileStatus } from '@shared/types'
+
+const STATUS_STYLE: Record<AiReviewFileStatus, string> = {
+  created: 'border-green-200 bg-green-50 text-green-800',
+  modified: 'border-blue-200 bg-blue-50 text-blue-800',
+  unchanged: 'border-zinc-200 bg-zinc-50 text-zinc-500',
+  deleted: 'border-red-200 bg-red-50 text-red-800',
+  renamed: 'border-amber-200 bg-amber-50 text-amber-800',
+  failed: 'border-red-300 bg-red-100 text-red-900',
+  merged: 'border-teal-200 bg-teal-50 text-teal-800',
+  conflict: 'border-orange-300 bg-orange-50 text-orange-900'
+}
+
+// Unchanged files have nothing to apply, failed ones can't be applied.
+function isApplicable(f: AiReviewFile) {
+  return f.status !== 'unchanged' && f.status !== 'failed'
+}
+
+export function DiffView(props: { diff: string }) {
+  return (
+    <pre className="max-h-80 overflow-auto border-t bg-white py-1 font-mono text-[11px] leading-4">
+      {props.diff.split('\n').map((line, i) => (
+        <div
+          key={i}
+          className={`px-2 ${
+            line.startsWith('+++') || line.startsWith('---')
+              ? 'text-zinc-500'
+              : line.startsWith('+')
+                ? 'bg-green-50 text-green-900'
+                : line.startsWith('-')
+                  ? 'bg-red-50 text-red-900'
+                  : line.startsWith('@@')
+                    ? 'text-blue-700'
+                    : 'text-zinc-700'
+          }`}
+        >
+          {line || ' '}
+        </div>
+      ))}
+    </pre>
+  )
+}
+
+function ReviewFileRow(props: { file: AiReviewFile; checked: boolean; onToggle: () => void; disabled?: boolean }) {
+  const f = props.file
+  const [open, setOpen] = useState(f.status === 'failed')
+  const canExpand = !!f.diff || !!f.failures?.length
+
+  return (
+    <li className="rounded border bg-zinc-50">
+      <div className="flex items-center gap-2 px-2 py-1.5">
+        <input
+          type="checkbox"
+          checked={props.checked}
+          onChange={props.onToggle}
+          disabled={props.disabled || !isApplicable(f)}
+        />
+        <span className={`rounded border px-1.5 text-[10px] ${STATUS_STYLE[f.status]}`}>{f.status}</span>
+        <button
+          className="min-w-0 flex-1 truncate text-left font-mono text-[11px] hover:underline disabled:hover:no-underline"
+          onClick={() => setOpen((o) => !o)}
+          disabled={!canExpand}
+          title={f.from ? `${f.from} → ${f.path}` : f.path}
+        >
+          {f.from ? `${f.from} → ${f.path}` : f.path}
+        </button>
+        {canExpand && <span className="text-[10px] text-zinc-500">{open ? '▾' : '▸'}</span>}
+      </div>
+      {open && f.failures && (
+        <ul className="border-t px-3 py-1.5 text-[11px] text-red-800">
+          {f.failures.map((line, i) => (
+            <li key={i}>{line}</li>
+          ))}
+        </ul>
+      )}
+      {open && f.diff && <DiffView diff={f.diff} />}
+    </li>
+  )
+}
+
+/**
+ * Planned changes of a review run: per-file diffs with checkboxes. Nothing is written until
+ * one of the buttons sends the decision.
+ */
+export function ReviewPanel(props: { review: AiReview; onDecide: (decision: AiReviewDecision) => void }) {
+  const applicable = props.review.files.filter(isApplicable)
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(applicable.map((f) => f.id)))
+  const [installDependencies, setInstallDependencies] = useState(true)
+  const [sent, setSent] = useState(false)
+
+  function decide(accept: string[]) {
+    setSent(true)
+    props.onDecide({ accept, installDependencies: accept.length > 0 && installDependencies })
+  }
+
+  function toggle(id: string) {
+    setSelected((s) => {
+      const next = new Set(s)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }
+
+  const deps = [...props.review.dependencies, ...props.review.devDependencies.map((d) => `${d} (dev)`)]
+  return (
+    <div className="rounded border bg-white p-3 text-xs">
+      <div className="mb-2 flex items-center justify-between">
+        <div className="font-semibold text-zinc-700">
+          Review changes ({applicable.length} of {props.review.files.length} file
+          {props.review.files.length === 1 ? '' : 's'} can be applied)
+        </div>
+        <div className="text-[10px] text-zinc-500">Nothing has been written yet</div>
+      </div>
+
+      <ul className="space-y-1">
+        {props.review.files.map((f) => (
+          <ReviewFileRow
+            key={f.id}
+            file={f}
+            checked={selected.has(f.id)}
+            onToggle={() => toggle(f.id)}
+            disabled={sent}
+          />
+        ))}
+      </ul>
+
+      {deps.length > 0 && (
+        <label className="mt-2 flex items-center gap-2 text-zinc-700">
+          <input
+            type="checkbox"
+            checked={installDependencies}
+            onChange={(e) => setInstallDependencies(e.target.checked)}
+            disabled={sent}
+          />
+          Install dependencies: <span className="font-mono">{deps.join(', ')}</span>
+        </label>
+      )}
+      {props.review.dependencyIssues.length > 0 && (
+        <ul className="mt-1 list-disc pl-5 text-amber-700">
+          {props.review.dependencyIssues.map((issue) => (
+            <li key={issue}>{issue}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className="mt-3 flex justify-end gap-2">
+        <button
+          className="rounded border px-3 py-1.5 hover:bg-zinc-50 disabled:opacity-50"
+          onClick={() => decide([])}
+          disabled={sent}
+        >
+          Reject all
+        </button>
+        <button
+          className="rounded border px-3 py-1.5 hover:bg-zinc-50 disabled:opacity-50"
+          onClick={() => decide([...selected])}
+          disabled={sent || selected.size === 0}
+        >
+          Apply selected ({selected.size})
+        </button>
+        <button
+          className="rounded bg-black px-3 py-1.5 text-white hover:bg-zinc-800 disabled:opacity-50"
+          onClick={() => decide(applicable.map((f) => f.id))}
+          disabled={sent || applicable.length === 0}
+        >
+          Accept all
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -2,11 +2,102 @@ export type AiMode = 'local' | 'cloud'
 
 export type ChatRole = 'system' | 'user' | 'assistant'
 
+export type FinishReason = 'stop' | 'length' | 'tool-calls' | 'cancelled' | 'error'
+
+/**
+ * How an assistant message was generated (provider, token usage, timings).
+ */
+export interface ChatMessageGeneration {
+  provider: string
+  model: string
+  /**
+   * 'length' means the output was cut off by the model's token limit.
+   */
+  finishReason: FinishReason
+  promptTokens?: number
+  completionTokens?: number
+  timeToFirstTokenMs?: number
+  totalDurationMs?: number
+}
+
+/**
+ * An image attached to a user message, stored in the project under .vorbyte/attachments.
+ */
+export interface ChatAttachment {
+  id: string
+  /**
+   * Original file name, for display.
+   */
+  name: string
+  mimeType: string
+  /**
+   * Relative to the project root.
+   */
+  path: string
+  size: number
+}
+
 export interface ChatMessage {
   id: string
   role: ChatRole
   content: string
   createdAt: string
+  /**
+   * User messages only.
+   */
+  attachments?: ChatAttachment[]
+  /**
+   * Assistant messages only.
+   */
+  generation?: ChatMessageGeneration
+  /**
+   * Assistant messages from agent-mode runs.
+   */
+  agent?: ChatMessageAgentInfo
+  /**
+   * Set when the run changed files and a snapshot of their previous content was kept, so the
+   * chat can be reverted to before it.
+   */
+  snapshot?: { files: number }
+}
+
+export interface ChatMessageAgentInfo {
+  /**
+   * Model turns that called tools.
+   */
+  steps: number
+  toolCalls: number
+  /**
+   * Full tool-call transcript (AgentTranscript JSON), relative to the project root.
+   */
+  transcript: string
+}
+
+/**
+ * Stored under .vorbyte/transcripts/<assistant message id>.json for agent-mode runs.
+ */
+export interface AgentTranscript {
+  requestId: string
+  provider: string
+  model: string
+  createdAt: string
+  prompt: string
+  maxSteps: number
+  steps: {
+    step: number
+    /**
+     * What the model said alongside its tool calls.
+     */
+    text: string
+    toolCalls: {
+      id: string
+      name: string
+      arguments: Record<string, unknown>
+      output: string
+      ok: boolean
+      durationMs: number
+    }[]
+  }[]
 }
 
 /**
@@ -35,6 +126,9 @@ export interface CreateProjectRequest {
    */
   templateId?: string
   aiMode?: AiMode
+  /**
+   * Same format as AppSettings.cloudModel ("openai:gpt-4o", "anthropic:claude-sonnet-4-5", ...).
+   */
   cloudModel?: string
   /**
    * For Milestone 1/2: can be a local model name ("llama3.1") or "ollama:llama3.1".
@@ -76,10 +170,20 @@ export interface AppSettings {
    * Stored for Milestone 1 persistence; secure storage can be added later.
    */
   openaiApiKey?: string
+  anthropicApiKey?: string
 
   aiMode?: AiMode
+  /**
+   * Model name, optionally prefixed with a provider: "gpt-4o-mini", "openai:gpt-4o",
+   * "anthropic:claude-sonnet-4-5". Bare "claude-*" names resolve to Anthropic.
+   */
   cloudModel?: string
 
+  /**
+   * Ollama server URL. Falls back to VORBYTE_OLLAMA_BASE_URL, then http://127.0.0.1:11434.
+   */
+  ollamaBaseUrl?: string
+
   /**
    * For Milestone 1 UI: can be a local model path OR a model name (Ollama).
    * Milestone 2 uses it as a model name by default.
@@ -90,6 +194,43 @@ export interface AppSettings {
    * Simple env var UI storage.
    */
   envVars?: EnvVarPair[]
+
+  /**
+   * npm registry that new packages are checked against before they're installed (e.g. a local
+   * verdaccio). Falls back to VORBYTE_NPM_REGISTRY, then https://registry.npmjs.org.
+   */
+  packageRegistryUrl?: string
+  /**
+   * Check packages against cached registry metadata only; ones never seen online are rejected.
+   */
+  packageRegistryOffline?: boolean
+  /**
+   * Which packages the AI may install, for every project. Each project can add to it in
+   * .vorbyte/dependency-policy.json.
+   */
+  dependencyPolicy?: AiDependencyPolicy
+}
+
+/**
+ * Mirrors codegen's DependencyPolicy.
+ */
+export interface AiDependencyPolicy {
+  /**
+   * Package names (or `@scope/*`) that install without asking.
+   */
+  allow?: string[]
+  /**
+   * Package names (or `@scope/*`) that are never installed.
+   */
+  deny?: string[]
+  /**
+   * Ask before installing anything not on the allowlist.
+   */
+  requireApproval?: boolean
+  /**
+   * Install with --ignore-scripts, so packages can't run install scripts.
+   */
+  ignoreScripts?: boolean
 }
 
 export interface SelectDirectoryOptions {
@@ -103,6 +244,26 @@ export interface SelectDirectoryOptions {
 export interface AiRunRequest {
   projectPath: string
   prompt: string
+  /**
+   * Images to send with the prompt (png, jpeg, gif or webp). Needs a vision-capable model.
+   */
+  attachments?: { name: string; dataUrl: string }[]
+  /**
+   * Agent mode: let the model read, list, grep and typecheck the project over several
+   * turns before it writes files. Needs a model with tool calling.
+   */
+  agent?: boolean
+  /**
+   * Show the planned changes (per-file diffs) and wait for the user's ai:review decision
+   * before writing anything.
+   */
+  review?: boolean
+  /**
+   * After applying, run the project's lint and build scripts and send what they report back to
+   * the model for fixes, until both pass or the fix rounds run out. Each round is posted to the
+   * chat as it happens (ai:event "chat").
+   */
+  verify?: boolean
   /**
    * Optional id for cancellation.
    */
@@ -112,7 +273,340 @@ export interface AiRunRequest {
 export interface AiRunResult {
   chat: ChatMessage[]
   appliedFiles: string[]
+  deletedFiles: string[]
+  renamedFiles: { from: string; to: string }[]
   installedDependencies: string[]
+  installedDevDependencies: string[]
+  typecheck: AiTypecheckReport
+  /**
+   * Set for verify runs that applied files.
+   */
+  verification?: AiVerifyReport
+}
+
+/**
+ * Mirrors codegen's TypecheckDiagnostic.
+ */
+export interface AiTypecheckDiagnostic {
+  file?: string
+  line?: number
+  column?: number
+  code: number
+  message: string
+}
+
+/**
+ * The in-memory typecheck of a run's changes, after any repair rounds.
+ */
+export interface AiTypecheckReport {
+  /**
+   * False when the project couldn't be typechecked; `skipped` says why.
+   */
+  checked: boolean
+  skipped?: string
+  /**
+   * Errors left in what was applied.
+   */
+  diagnostics: AiTypecheckDiagnostic[]
+  /**
+   * How many times the errors were sent back to the model to fix.
+   */
+  repairRounds: number
+}
+
+/**
+ * Mirrors codegen's VerifyProblem.
+ */
+export interface AiVerifyProblem {
+  script: string
+  file?: string
+  line?: number
+  column?: number
+  severity: 'error' | 'warning'
+  message: string
+  rule?: string
+}
+
+/**
+ * Mirrors codegen's VerifyStep.
+ */
+export interface AiVerifyStep {
+  script: string
+  status: 'passed' | 'failed' | 'skipped'
+  reason?: string
+  durationMs: number
+  problems: AiVerifyProblem[]
+  output: string
+}
+
+/**
+ * Mirrors codegen's VerifyResult.
+ */
+export interface AiVerifyResult {
+  ok: boolean
+  steps: AiVerifyStep[]
+}
+
+/**
+ * The lint/build checks of a verify run and the fixes in between.
+ */
+export interface AiVerifyReport {
+  /**
+   * Whether the last check passed.
+   */
+  ok: boolean
+  fixRounds: number
+  checks: AiVerifyResult[]
+}
+
+/**
+ * Phase-level progress of an ai:run, in the order they normally happen.
+ */
+export type AiRunProgress =
+  | { phase: 'context' }
+  | {
+      phase: 'waiting'
+      provider: string
+      model: string
+      /**
+       * Set while the provider failed transiently (rate limit, 5xx, connect error) and we're backing off.
+       */
+      retry?: { attempt: number; maxRetries: number; delayMs: number; reason: string }
+    }
+  | { phase: 'generating'; chars: number }
+  | { phase: 'tool'; step: number; maxSteps: number; tool: string; detail?: string }
+  | { phase: 'parsing'; fileCount: number; dependencyCount: number }
+  | { phase: 'typechecking' }
+  | { phase: 'repairing'; round: number; maxRounds: number; errorCount: number }
+  | { phase: 'review'; fileCount: number }
+  | { phase: 'conflicts'; fileCount: number }
+  | { phase: 'writing'; file: string; index: number; total: number }
+  | { phase: 'checking-dependencies'; dependencies: string[] }
+  | { phase: 'approving-dependencies'; count: number }
+  | { phase: 'installing'; packageManager: string; dependencies: string[]; dev?: boolean; output?: string }
+  | { phase: 'verifying'; round: number; script: string; output?: string }
+  | { phase: 'fixing'; round: number; maxRounds: number; problemCount: number }
+  | { phase: 'done' }
+
+export type AiRunPhase = AiRunProgress['phase']
+
+/**
+ * Mirrors the engine's EngineErrorCode; 'unknown' covers failures outside the engine
+ * (e.g. writing files or installing dependencies).
+ */
+export type AiRunErrorCode =
+  | 'auth'
+  | 'model-not-found'
+  | 'connection'
+  | 'rate-limit'
+  | 'context-too-long'
+  | 'cancelled'
+  | 'bad-response'
+  | 'unsupported-input'
+  | 'unknown'
+
+export interface AiRunError {
+  code: AiRunErrorCode
+  message: string
+  provider?: string
+  model?: string
+  status?: number
+  /**
+   * Suggested fix. Backticks mark commands.
+   */
+  hint?: string
+}
+
+/**
+ * Events pushed from main to renderer while an ai:run is in flight (channel: "ai:event").
+ * Every event carries the requestId so the renderer can ignore events from other runs.
+ */
+export type AiRunEvent =
+  | { type: 'delta'; requestId: string; delta: string }
+  | { type: 'turn'; requestId: string }
+  | { type: 'progress'; requestId: string; progress: AiRunProgress }
+  | { type: 'error'; requestId: string; error: AiRunError }
+  | { type: 'review'; requestId: string; review: AiReview }
+  | { type: 'conflicts'; requestId: string; conflicts: AiConflictFile[] }
+  | { type: 'chat'; requestId: string; chat: ChatMessage[] }
+  | { type: 'dependencies'; requestId: string; dependencies: AiPendingDependency[] }
+
+/**
+ * Mirrors codegen's PlannedChangeStatus.
+ */
+export type AiReviewFileStatus =
+  | 'created'
+  | 'modified'
+  | 'unchanged'
+  | 'deleted'
+  | 'renamed'
+  | 'failed'
+  | 'merged'
+  | 'conflict'
+
+export interface AiReviewFile {
+  id: string
+  /**
+   * Where the file ends up (the new path for renames).
+   */
+  path: string
+  from?: string
+  status: AiReviewFileStatus
+  /**
+   * Unified diff against the current file, after formatting.
+   */
+  diff: string
+  /**
+   * Failed files: one line per hunk or SEARCH block that didn't match.
+   */
+  failures?: string[]
+}
+
+/**
+ * Sent (as an ai:event) when a review run has its changes ready. Nothing is written until
+ * the renderer answers with ai:review.
+ */
+export interface AiReview {
+  files: AiReviewFile[]
+  dependencies: string[]
+  devDependencies: string[]
+  /**
+   * Packages that won't be installed or need a look, as readable messages.
+   */
+  dependencyIssues: string[]
+}
+
+export interface AiReviewDecision {
+  /**
+   * Ids of the files to apply; an empty list rejects everything.
+   */
+  accept: string[]
+  installDependencies: boolean
+}
+
+/**
+ * A file the AI rewrote that was also edited by hand since its last write, where the two
+ * changed the same lines. Sent (as an ai:event) before anything is written; the run waits for
+ * ai:resolveConflicts.
+ */
+export interface AiConflictFile {
+  path: string
+  /**
+   * Number of regions both sides changed.
+   */
+  regions: number
+  /**
+   * Unified diff from the file on disk to the merge with conflict markers.
+   */
+  diff: string
+}
+
+/**
+ * Mirrors codegen's ConflictResolution: keep the file on disk, take the AI's version, or write
+ * the merge with conflict markers.
+ */
+export type AiConflictResolution = 'ours' | 'theirs' | 'markers'
+
+/**
+ * Mirrors codegen's PendingDependency: a package the dependency policy holds back until the
+ * user approves it. Sent (as an ai:event) before installing; the run waits for
+ * ai:approveDependencies.
+ */
+export interface AiPendingDependency {
+  spec: string
+  name: string
+  dev: boolean
+  reason: 'typosquat' | 'not-allowlisted'
+  similarTo?: string
+  message: string
+}
+
+export interface AiDependencyDecision {
+  /**
+   * Specs to install; the rest are skipped.
+   */
+  approve: string[]
+  /**
+   * Add the approved packages to the project's allowlist.
+   */
+  remember: boolean
+}
+
+/**
+ * The last "revert to here": the message it went back to and the files it changed. Undoable
+ * until the next run.
+ */
+export interface ProjectRevert {
+  to: string
+  createdAt: string
+  files: string[]
+}
+
+export type ModelProvider = 'ollama' | 'openai' | 'anthropic'
+
+export interface ModelSummary {
+  id: string
+  displayName?: string
+  family?: string
+  parameterSize?: string
+  quantization?: string
+  sizeBytes?: number
+  contextLength?: number
+}
+
+export interface ModelListRequest {
+  provider: ModelProvider
+  /**
+   * Unsaved settings (API keys, Ollama URL) to use instead of the stored ones.
+   */
+  settings?: Partial<AppSettings>
+}
+
+export interface ModelListResult {
+  provider: ModelProvider
+  models: ModelSummary[]
+  /**
+   * Set when the provider couldn't be reached or rejected the request; models is empty then.
+   */
+  error?: AiRunError
+}
+
+export interface OllamaPullStatus {
+  model: string
+  state: 'pulling' | 'done' | 'error' | 'cancelled'
+  /**
+   * Ollama's status text ("pulling manifest", "pulling <digest>", "success", ...).
+   */
+  status: string
+  completed?: number
+  total?: number
+  error?: AiRunError
+}
+
+export interface OllamaModelDetails extends ModelSummary {
+  parameters?: string
+  license?: string
+  capabilities?: string[]
+}
+
+/**
+ * Milestone 3: live preview (next dev) of the active project.
+ */
+export type PreviewState = 'stopped' | 'installing' | 'starting' | 'ready' | 'error'
+
+export interface PreviewStatus {
+  projectPath: string
+  state: PreviewState
+  port?: number
+  url?: string
+  error?: string
+  startedAt?: string
+}
+
+export interface PreviewLogLine {
+  ts: string
+  stream: 'stdout' | 'stderr' | 'system'
+  text: string
 }
 
 export interface VorByteApi {
@@ -140,6 +634,30 @@ export interface VorByteApi {
     get: () => Promise<AppSettings>
     save: (settings: AppSettings) => Promise<AppSettings>
   }
+  models: {
+    /**
+     * Models the provider reports as available. Never rejects; failures come back in `error`.
+     */
+    list: (req: ModelListRequest) => Promise<ModelListResult>
+  }
+  ollama: {
+    /**
+     * Download a model. Resolves with the final status (done/error/cancelled) instead of rejecting.
+     * Calling it again while the model is downloading returns the current status.
+     */
+    pull: (model: string) => Promise<OllamaPullStatus>
+    cancelPull: (model: string) => Promise<boolean>
+    /**
+     * Downloads currently in flight.
+     */
+    pulls: () => Promise<OllamaPullStatus[]>
+    delete: (model: string) => Promise<void>
+    show: (model: string) => Promise<OllamaModelDetails>
+    /**
+     * Progress of every download. Returns an unsubscribe function.
+     */
+    onPull: (cb: (status: OllamaPullStatus) => void) => () => void
+  }
   chat: {
     load: (projectPath: string) => Promise<ChatMessage[]>
     clear: (projectPath: string) => Promise<void>
@@ -148,10 +666,83 @@ export interface VorByteApi {
      */
     read: (projectPath: string) => Promise<ChatMessage[]>
     write: (projectPath: string, chat: ChatMessage[]) => Promise<boolean>
+    /**
+     * An attachment's image as a data: URL, for thumbnails.
+     */
+    attachment: (projectPath: string, attachment: ChatAttachment) => Promise<string>
+  }
+  snapshots: {
+    /**
+     * Put every file changed by runs after this assistant message back the way it was.
+     */
+    revert: (projectPath: string, messageId: string) => Promise<ProjectRevert>
+    undoRevert: (projectPath: string) => Promise<ProjectRevert>
+    lastRevert: (projectPath: string) => Promise<ProjectRevert | null>
   }
   ai: {
     run: (req: AiRunRequest) => Promise<AiRunResult>
     cancel: (requestId: string) => Promise<void>
+    /**
+     * Subscribe to streamed model output for a run. Subscribe before calling run() so no
+     * deltas are missed. Returns an unsubscribe function.
+     */
+    onDelta: (requestId: string, cb: (delta: string) => void) => () => void
+    /**
+     * Called when a new model turn starts (agent steps, repair and fix rounds); the deltas
+     * that follow belong to it.
+     */
+    onTurn: (requestId: string, cb: () => void) => () => void
+    /**
+     * Subscribe to phase-level progress for a run. Returns an unsubscribe function.
+     */
+    onProgress: (requestId: string, cb: (progress: AiRunProgress) => void) => () => void
+    /**
+     * Structured details for a failed run, sent just before ai.run() rejects.
+     */
+    onError: (requestId: string, cb: (error: AiRunError) => void) => () => void
+    /**
+     * Review runs (AiRunRequest.review): called with the planned changes. Answer with review().
+     */
+    onReview: (requestId: string, cb: (review: AiReview) => void) => () => void
+    /**
+     * Apply the accepted files of a run waiting in review; ai.run() then resolves as usual.
+     */
+    review: (requestId: string, decision: AiReviewDecision) => Promise<void>
+    /**
+     * Called when the AI's rewrites clash with hand edits. Answer with resolveConflicts().
+     */
+    onConflicts: (requestId: string, cb: (conflicts: AiConflictFile[]) => void) => () => void
+    /**
+     * Settle the conflicts of a waiting run, by path. Files left out keep their content on disk.
+     */
+    resolveConflicts: (requestId: string, resolutions: Record<string, AiConflictResolution>) => Promise<void>
+    /**
+     * Verify runs: called with the whole chat each time a check or fix is posted to it.
+     */
+    onChat: (requestId: string, cb: (chat: ChatMessage[]) => void) => () => void
+    /**
+     * Called when the dependency policy holds packages back. Answer with approveDependencies().
+     */
+    onDependencies: (requestId: string, cb: (dependencies: AiPendingDependency[]) => void) => () => void
+    /**
+     * Install the approved packages of a waiting run and skip the rest.
+     */
+    approveDependencies: (requestId: string, decision: AiDependencyDecision) => Promise<void>
+  }
+  preview: {
+    start: (projectPath: string) => Promise<PreviewStatus>
+    stop: (projectPath: string) => Promise<PreviewStatus>
+    restart: (projectPath: string) => Promise<PreviewStatus>
+    status: (projectPath: string) => Promise<PreviewStatus>
+    logs: (projectPath: string, opts?: { limit?: number }) => Promise<PreviewLogLine[]>
+    /**
+     * Status changes for any project's preview. Returns an unsubscribe function.
+     */
+    onStatus: (cb: (status: PreviewStatus) => void) => () => void
+    /**
+     * Log lines for one project's preview. Returns an unsubscribe function.
+     */
+    onLog: (projectPath: string, cb: (line: PreviewLogLine) => void) => () => void
   }
   dialog: {
     selectDirectory: (opts?: SelectDirectoryOptions) => Promise<string | null>
@@ -1,9 +1,38 @@
 import fs from 'node:fs/promises'
 import path from 'node:path'
 import { spawn } from 'node:child_process'
-import type { ApplyResult, FileChange } from './types'
+import type {
+  ApplyPlan,
+  ApplyProgressEvent,
+  ApplyResult,
+  ConflictResolution,
+  EditFailure,
+  FileChange,
+  FileDelete,
+  FileRename,
+  FileWrite,
+  DependencyIssue,
+  DependencyPolicy,
+  InferredDependencies,
+  PendingDependency,
+  PlannedChange,
+  RegistryOptions
+} from './types'
 import { formatTextIfSupported } from './format'
-import { choosePackageManager, readProjectDeps, inferDependenciesFromFiles } from './deps'
+import { applySearchReplace, applyUnifiedDiff, createUnifiedDiff, mergeThreeWay } from './diff'
+import {
+  readProjectDeps,
+  inferDependenciesFromFiles,
+  isYarnBerry,
+  parseDependencySpec,
+  resolvePackageManager
+} from './deps'
+import { checkDependencies } from './registry'
+import { applyDependencyPolicy, mergePolicies, readProjectPolicy } from './policy'
+import { createFileTransaction, type FileState } from './transaction'
+import { ApplyError } from './errors'
+import { createSnapshotStore } from './snapshots'
+import { createWriteLog } from './writeLog'
 
 const DEFAULT_IGNORES = new Set(['node_modules', '.next', '.git', '.vorbyte'])
 
@@ -32,80 +61,458 @@ function sanitizeRelativeFilePath(p: string): string {
   return norm
 }
 
-async function writeOne(projectDir: string, change: FileChange): Promise<string> {
-  const rel = sanitizeRelativeFilePath(change.path)
-  const dest = path.join(projectDir, ...rel.split('/'))
-  await fs.mkdir(path.dirname(dest), { recursive: true })
+const LOCKFILES = ['pnpm-lock.yaml', 'yarn.lock', 'package-lock.json']
 
-  const formatted = await formatTextIfSupported({ filePath: dest, text: change.content, cwd: projectDir }).catch(
-    () => change.content
+const MERGE_LABELS = { ours: 'your edits', theirs: 'AI' }
+
+async function readState(file: string): Promise<Buffer | null> {
+  return fs.readFile(file).catch(() => null)
+}
+
+function asText(state: FileState) {
+  return state === null ? null : typeof state === 'string' ? state : state.toString('utf-8')
+}
+
+/**
+ * The exact text written to disk: prettier-formatted where supported, ending in a newline.
+ */
+async function formatForWrite(projectDir: string, dest: string, content: string) {
+  const formatted = await formatTextIfSupported({ filePath: dest, text: content, cwd: projectDir }).catch(
+    () => content
   )
+  return formatted.endsWith('\n') ? formatted : formatted + '\n'
+}
+
+type Resolved = { content: string; failures?: EditFailure[] }
+
+type ContentChange = Exclude<FileChange, FileDelete | FileRename>
+
+function resolveContent(current: string, change: ContentChange): Resolved {
+  if (change.kind !== 'patch' && change.kind !== 'edit') return { content: change.content }
+  const res =
+    change.kind === 'patch' ? applyUnifiedDiff(current, change.patch) : applySearchReplace(current, change.edits)
+  return res.failures.length > 0 ? res : { content: res.content }
+}
+
+/**
+ * Run the changes in memory, in order (so "Rename: a -> b" followed by an edit to b works).
+ * Returns what each change does and the final state of every touched file. Patches and edits
+ * that don't match are reported as 'failed' and leave their file alone: a half-applied patch
+ * is harder to fix than an untouched file. A full rewrite of a file edited by hand since the AI
+ * last wrote it is merged with those edits; if they overlap it's a 'conflict' and the file is
+ * left alone until the caller settles it. Throws on unsafe paths and impossible renames.
+ */
+export async function simulate(
+  projectDir: string,
+  files: FileChange[],
+  onProgress?: (event: ApplyProgressEvent) => void
+): Promise<{ planned: PlannedChange[]; final: Map<string, FileState> }> {
+  // Final state by relative path, for the files this batch touches; null = deleted.
+  const final = new Map<string, FileState>()
+  const abs = (rel: string) => path.join(projectDir, ...rel.split('/'))
+  const writeLog = createWriteLog(projectDir)
+  const read = async (rel: string): Promise<FileState> => (final.has(rel) ? final.get(rel)! : readState(abs(rel)))
+
+  const planned: PlannedChange[] = []
+  // The entry for each path this batch changes, and its content before the batch. Later changes
+  // to a path replace its entry and diff against that content, so every path has one entry.
+  const original = new Map<string, { entry: PlannedChange; before: string | null }>()
+  const record = (rel: string, entry: PlannedChange, before: string | null) => {
+    const seen = original.get(rel)
+    if (seen) planned[planned.indexOf(seen.entry)] = entry
+    else planned.push(entry)
+    original.set(rel, { entry, before })
+  }
+  const forget = (rel: string) => {
+    const seen = original.get(rel)
+    if (seen) planned.splice(planned.indexOf(seen.entry), 1)
+    original.delete(rel)
+  }
+  const renamed = (from: string, to: string, before: string, after: string): PlannedChange => {
+    const edited = before !== after
+    return {
+      path: to,
+      from,
+      status: 'renamed',
+      diff: edited ? createUnifiedDiff(to, before, after) : '',
+      change: { kind: 'rename', path: from, to, ...(edited ? { content: after } : {}) }
+    }
+  }
+
+  for (const [index, change] of files.entries()) {
+    onProgress?.({ type: 'write', path: change.path, index, total: files.length })
+
+    if (change.kind === 'delete') {
+      const rel = sanitizeRelativeFilePath(change.path)
+      const stat = final.has(rel) ? null : await fs.stat(abs(rel)).catch(() => null)
+      if (stat && !stat.isFile()) throw new Error(`Refusing to delete a directory: ${rel}`)
+      const current = await read(rel)
+      if (current === null) continue
+      final.set(rel, null)
+      const before = original.has(rel) ? original.get(rel)!.before : asText(current)
+      // Created earlier in this batch: nothing left to delete.
+      if (before === null) forget(rel)
+      else record(rel, { path: rel, status: 'deleted', diff: createUnifiedDiff(rel, before, null), change }, before)
+      continue
+    }
+
+    if (change.kind === 'rename') {
+      const from = sanitizeRelativeFilePath(change.path)
+      const to = sanitizeRelativeFilePath(change.to)
+      const current = await read(from)
+      if (current === null) throw new Error(`Cannot rename ${from}: file not found`)
+      if (from !== to && (await read(to)) !== null) {
+        throw new Error(`Cannot rename ${from} to ${to}: ${to} already exists`)
+      }
+      const moved = change.content ?? current
+      final.set(from, null)
+      final.set(to, moved)
+
+      // A file changed earlier in this batch moves with its changes, so its entry (a pending
+      // conflict included: the file moves as it is on disk) becomes the one for the new path.
+      const seen = original.get(from)
+      const source = seen?.entry.from ?? from
+      const before = seen ? seen.before : asText(current)
+      const after = asText(moved)!
+      forget(from)
+      // A file deleted earlier in this batch keeps its own entry.
+      original.delete(to)
+
+      let entry: PlannedChange
+      if (before === null) {
+        const diff = createUnifiedDiff(to, null, after)
+        entry = { path: to, status: 'created', diff, change: { path: to, content: after } }
+      } else if (source === to) {
+        const status = before === after ? 'unchanged' : 'modified'
+        entry = { path: to, status, diff: createUnifiedDiff(to, before, after), change: { path: to, content: after } }
+      } else {
+        entry = renamed(source, to, before, after)
+      }
+      record(to, entry, before)
+      continue
+    }
+
+    const rel = sanitizeRelativeFilePath(change.path)
+    const onDisk = !final.has(rel)
+    const current = asText(await read(rel))
+    const { content, failures } = resolveContent(current ?? '', change)
+    if (failures) {
+      planned.push({ path: rel, status: 'failed', diff: '', failures, change })
+      continue
+    }
+
+    let after = await formatForWrite(projectDir, abs(rel), content)
+    const seen = original.get(rel)
+    const before = seen ? seen.before : current
+    // A file moved earlier in this batch keeps its rename entry, now carrying the new content.
+    let entry: PlannedChange =
+      seen?.entry.status === 'renamed' && before !== null
+        ? renamed(seen.entry.from!, rel, before, after)
+        : {
+            path: rel,
+            status: before === null ? 'created' : before === after ? 'unchanged' : 'modified',
+            diff: createUnifiedDiff(rel, before, after),
+            change: { path: rel, content: after }
+          }
+
+    // Patches and edits already apply to the file as it is; only full rewrites can drop hand edits.
+    const base =
+      onDisk && current !== null && current !== after && (change.kind === undefined || change.kind === 'write')
+        ? await writeLog.divergedBase(rel, current)
+        : null
+    if (base !== null) {
+      const merge = mergeThreeWay(base, current!, after, MERGE_LABELS)
+      if (merge.conflicts > 0) {
+        const conflict = { base, ours: current!, theirs: after, merged: merge.content, regions: merge.conflicts }
+        entry = { ...entry, status: 'conflict', diff: createUnifiedDiff(rel, current, merge.content), conflict }
+      } else {
+        after = await formatForWrite(projectDir, abs(rel), merge.content)
+        const status = after === current ? 'unchanged' : 'merged'
+        const diff = createUnifiedDiff(rel, current, after)
+        entry = { ...entry, status, diff, change: { path: rel, content: after } }
+      }
+    }
+    if (entry.status !== 'conflict') final.set(rel, after)
+    record(rel, entry, before)
+  }
+
+  return { planned, final }
+}
 
-  await fs.writeFile(dest, formatted.endsWith('\n') ? formatted : formatted + '\n', 'utf-8')
-  return rel
+function writesOf(planned: PlannedChange[]): FileWrite[] {
+  return planned.flatMap((p) => (p.change.kind === undefined || p.change.kind === 'write' ? [p.change] : []))
 }
 
-function runCmd(cmd: string, args: string[], cwd: string): Promise<void> {
+/**
+ * Listed dependencies plus ones inferred from the written files' imports (models often forget
+ * to list them), minus what package.json already has. A package used at runtime anywhere is a
+ * dependency; listed @types/* packages are devDependencies. Listed specs keep their ranges.
+ */
+async function missingDependencies(
+  projectDir: string,
+  listed: { dependencies?: string[]; devDependencies?: string[] },
+  written: FileWrite[]
+): Promise<InferredDependencies> {
+  const clean = (list?: string[]) => (list ?? []).map((d) => d.trim()).filter(Boolean)
+  const nameOf = (spec: string) => parseDependencySpec(spec)?.name ?? spec
+  const collect = (specs: string[]) => {
+    const byName = new Map<string, string>()
+    for (const spec of specs) {
+      const name = nameOf(spec)
+      const current = byName.get(name)
+      // A spec with a range wins over the bare name.
+      if (current === undefined || (current === name && spec !== name)) byName.set(name, spec)
+    }
+    return byName
+  }
+
+  const inferred = inferDependenciesFromFiles(written, { projectDir })
+  const fromAi = clean(listed.dependencies)
+  const isTypes = (spec: string) => spec.startsWith('@types/')
+  const runtime = collect([...fromAi.filter((d) => !isTypes(d)), ...inferred.dependencies])
+  const dev = collect([...clean(listed.devDependencies), ...fromAi.filter(isTypes), ...inferred.devDependencies])
+  if (runtime.size === 0 && dev.size === 0) return { dependencies: [], devDependencies: [] }
+  const existing = await readProjectDeps(projectDir)
+  return {
+    dependencies: [...runtime].filter(([name]) => !existing.has(name)).map(([, spec]) => spec),
+    devDependencies: [...dev].filter(([name]) => !runtime.has(name) && !existing.has(name)).map(([, spec]) => spec)
+  }
+}
+
+function runCmd(
+  cmd: string,
+  args: string[],
+  cwd: string,
+  onOutput?: (line: string) => void,
+  env?: Record<string, string>
+): Promise<void> {
   return new Promise((resolve, reject) => {
-    const child = spawn(cmd, args, { cwd, stdio: 'inherit' })
+    const child = spawn(cmd, args, { cwd, stdio: ['ignore', 'pipe', 'pipe'], env: env && { ...process.env, ...env } })
+
+    // Keep a short tail of the output so failures are explainable without a terminal.
+    const tail: string[] = []
+    const onData = (buf: Buffer) => {
+      for (const raw of buf.toString('utf-8').split(/\r?\n/)) {
+        const line = raw.trimEnd()
+        if (!line) continue
+        tail.push(line)
+        if (tail.length > 20) tail.shift()
+        onOutput?.(line)
+      }
+    }
+    child.stdout?.on('data', onData)
+    child.stderr?.on('data', onData)
+
     child.on('error', reject)
     child.on('exit', (code) => {
       if (code === 0) resolve()
-      else reject(new Error(`${cmd} ${args.join(' ')} failed with code ${code}`))
+      else reject(new Error(`${cmd} ${args.join(' ')} failed with code ${code}\n\n${tail.join('\n')}`.trim()))
     })
   })
 }
 
-async function isCommandAvailable(cmd: string): Promise<boolean> {
-  return new Promise((resolve) => {
-    const child = spawn(cmd, ['--version'], { stdio: 'ignore' })
-    child.on('error', () => resolve(false))
-    child.on('exit', (code) => resolve(code === 0))
+type DependencyOptions = {
+  projectDir: string
+  dependencies?: string[]
+  devDependencies?: string[]
+  registry?: RegistryOptions | false
+  policy?: DependencyPolicy
+  onProgress?: (event: ApplyProgressEvent) => void
+}
+
+/**
+ * What to install for `written`: the missing packages, checked against the registry, then
+ * sorted by the dependency policy (the given one combined with the project's). Packages the
+ * policy holds back come back as `pending`.
+ */
+async function resolveDependencies(opts: DependencyOptions, written: FileWrite[]) {
+  const checked = await checkDependencies({
+    projectDir: opts.projectDir,
+    dependencies: await missingDependencies(opts.projectDir, opts, written),
+    registry: opts.registry,
+    onProgress: opts.onProgress
   })
+  const policy = mergePolicies(opts.policy, await readProjectPolicy(opts.projectDir))
+  const sorted = await applyDependencyPolicy({ projectDir: opts.projectDir, ...checked, policy })
+  return {
+    dependencies: sorted.dependencies,
+    devDependencies: sorted.devDependencies,
+    pending: sorted.pending,
+    skipped: [...checked.skipped, ...sorted.denied],
+    warnings: checked.warnings,
+    ignoreScripts: !!policy.ignoreScripts
+  }
 }
 
+async function installDependencies(
+  projectDir: string,
+  needed: InferredDependencies & { ignoreScripts?: boolean },
+  onProgress?: (event: ApplyProgressEvent) => void
+) {
+  const pm = await resolvePackageManager(projectDir)
+  const onOutput = (line: string) => onProgress?.({ type: 'install-output', line })
+  // Yarn 2+ has no --ignore-scripts flag on `yarn add`; it reads the setting from the environment.
+  const berry = pm === 'yarn' && (await isYarnBerry(projectDir))
+  const scriptFlags = needed.ignoreScripts && !berry ? ['--ignore-scripts'] : []
+  const env = needed.ignoreScripts && berry ? { YARN_ENABLE_SCRIPTS: '0' } : undefined
+
+  for (const [dev, deps] of [
+    [false, needed.dependencies],
+    [true, needed.devDependencies]
+  ] as const) {
+    if (deps.length === 0) continue
+    onProgress?.({ type: 'install', packageManager: pm, dependencies: deps, dev })
+    const flags = [...(dev ? ['-D'] : []), ...scriptFlags]
+    if (pm === 'pnpm') {
+      await runCmd('pnpm', ['add', ...flags, ...deps], projectDir, onOutput)
+    } else if (pm === 'yarn') {
+      await runCmd('yarn', ['add', ...flags, ...deps], projectDir, onOutput, env)
+    } else {
+      await runCmd('npm', ['install', ...flags, ...deps], projectDir, onOutput)
+    }
+  }
+}
+
+/**
+ * Apply changes as one transaction: everything is worked out in memory first (see simulate),
+ * then written together. If writing or the dependency install fails, every touched file,
+ * package.json and the lockfiles are restored and an ApplyError lists what was rolled back.
+ * node_modules isn't restored; a later install brings it back in line with the lockfile.
+ */
 export async function applyChanges(opts: {
   projectDir: string
   files: FileChange[]
   dependencies?: string[]
+  /**
+   * Packages to install with `-D`.
+   */
+  devDependencies?: string[]
+  /**
+   * Checked before installing (see checkDependencies); false skips the registry lookups.
+   */
+  registry?: RegistryOptions | false
+  /**
+   * Combined with the project's `.vorbyte/dependency-policy.json` (see applyDependencyPolicy).
+   */
+  policy?: DependencyPolicy
+  /**
+   * Asked about packages the policy holds back (suspected typosquats, and anything not
+   * allowlisted in requireApproval mode); returns the specs to install anyway. Without it,
+   * none of them are installed.
+   */
+  approveDependencies?: (pending: PendingDependency[]) => Promise<string[]>
+  /**
+   * Also install packages imported by the written files but missing from `dependencies`.
+   * Defaults to true; turn off when the dependencies come from an approved plan.
+   */
+  inferDependencies?: boolean
+  /**
+   * Keep the pre-run contents of every touched file under this id in the project's snapshot
+   * store (see createSnapshotStore), so the run can be reverted later.
+   */
+  snapshotId?: string
+  /**
+   * Asked how to settle 'conflict' files (hand edits that overlap the AI's rewrite), by path.
+   * Files it leaves out, and all of them without this callback, keep their content on disk.
+   */
+  resolveConflicts?: (conflicts: PlannedChange[]) => Promise<Record<string, ConflictResolution>>
+  onProgress?: (event: ApplyProgressEvent) => void
 }): Promise<ApplyResult> {
-  const writtenFiles: string[] = []
-  for (const change of opts.files) {
-    const rel = await writeOne(opts.projectDir, change)
-    writtenFiles.push(rel)
-  }
+  const tx = createFileTransaction(opts.projectDir)
 
-  const depsFromAi = (opts.dependencies ?? []).map((d) => d.trim()).filter(Boolean)
+  try {
+    const { planned, final } = await simulate(opts.projectDir, opts.files, opts.onProgress)
 
-  // If the model forgot to list deps, try to infer from import statements in generated files.
-  const depsInferred = inferDependenciesFromFiles(opts.files)
+    const conflicted = planned.filter((p) => p.status === 'conflict')
+    const chosen = conflicted.length > 0 && opts.resolveConflicts ? await opts.resolveConflicts(conflicted) : {}
+    const conflicts = conflicted.map((p) => ({ path: p.path, resolution: chosen[p.path] ?? ('ours' as const) }))
+    for (const { path: rel, resolution } of conflicts) {
+      const conflict = planned.find((p) => p.path === rel)!.conflict!
+      if (resolution === 'theirs') final.set(rel, conflict.theirs)
+      else if (resolution === 'markers') final.set(rel, conflict.merged)
+    }
 
-  const depsToInstall = Array.from(new Set([...depsFromAi, ...depsInferred]))
-  const installedDependencies: string[] = []
+    // Dependencies are checked (and approved) before anything is written, so a bad package
+    // name costs nothing.
+    const needed = await resolveDependencies(opts, opts.inferDependencies === false ? [] : writesOf(planned))
+    const approved = new Set(
+      needed.pending.length > 0 && opts.approveDependencies ? await opts.approveDependencies(needed.pending) : []
+    )
+    for (const p of needed.pending) {
+      if (!approved.has(p.spec)) {
+        needed.skipped.push({ spec: p.spec, kind: 'not-approved', message: `Not approved: ${p.message}` })
+      } else if (p.dev) {
+        needed.devDependencies.push(p.spec)
+      } else {
+        needed.dependencies.push(p.spec)
+      }
+    }
 
-  if (depsToInstall.length > 0) {
-    const existing = await readProjectDeps(opts.projectDir)
-    const needed = depsToInstall.filter((d) => !existing.has(d))
-    if (needed.length > 0) {
-      // Choose package manager
-      const preferred = choosePackageManager(opts.projectDir)
-      let pm: 'pnpm' | 'yarn' | 'npm' = preferred
+    for (const [rel, state] of final) tx.stage(rel, state)
+    await tx.commit()
 
-      // If pnpm/yarn chosen but not installed, fallback to npm
-      if (pm === 'pnpm' && !(await isCommandAvailable('pnpm'))) pm = 'npm'
-      if (pm === 'yarn' && !(await isCommandAvailable('yarn'))) pm = 'npm'
+    if (needed.dependencies.length > 0 || needed.devDependencies.length > 0) {
+      for (const f of ['package.json', ...LOCKFILES]) await tx.backup(f)
+      await installDependencies(opts.projectDir, needed, opts.onProgress)
+    }
 
-      if (pm === 'pnpm') {
-        await runCmd('pnpm', ['add', ...needed], opts.projectDir)
-      } else if (pm === 'yarn') {
-        await runCmd('yarn', ['add', ...needed], opts.projectDir)
-      } else {
-        await runCmd('npm', ['install', ...needed], opts.projectDir)
-      }
+    const snapshot = opts.snapshotId
+      ? await createSnapshotStore(opts.projectDir).record(opts.snapshotId, tx.originals())
+      : null
+    await createWriteLog(opts.projectDir).record(final)
 
-      installedDependencies.push(...needed)
+    const isWritten = (p: PlannedChange) =>
+      p.status === 'created' ||
+      p.status === 'modified' ||
+      p.status === 'merged' ||
+      (p.status === 'conflict' && final.has(p.path))
+    return {
+      writtenFiles: planned.filter(isWritten).map((p) => p.path),
+      deletedFiles: planned.filter((p) => p.status === 'deleted').map((p) => p.path),
+      renamedFiles: planned.flatMap((p) => (p.status === 'renamed' ? [{ from: p.from!, to: p.path }] : [])),
+      installedDependencies: needed.dependencies,
+      installedDevDependencies: needed.devDependencies,
+      skippedDependencies: needed.skipped,
+      dependencyWarnings: needed.warnings,
+      failedEdits: planned.flatMap((p) => (p.failures ? [{ path: p.path, failures: p.failures }] : [])),
+      mergedFiles: planned.filter((p) => p.status === 'merged').map((p) => p.path),
+      conflicts,
+      snapshot: snapshot ?? undefined
     }
+  } catch (err) {
+    const { restored, notRestored } = await tx.rollback()
+    throw new ApplyError(err, { rolledBack: restored, notRestored })
   }
+}
 
-  return { writtenFiles, installedDependencies }
+/**
+ * Work out what applyChanges would do, without touching the project: per-file status and a
+ * unified diff against the current content (after formatting), plus the dependencies it would
+ * install. Throws on the same unsafe paths and impossible renames as applyChanges.
+ */
+export async function planChanges(opts: {
+  projectDir: string
+  files: FileChange[]
+  dependencies?: string[]
+  devDependencies?: string[]
+  registry?: RegistryOptions | false
+  policy?: DependencyPolicy
+}): Promise<ApplyPlan> {
+  const { planned } = await simulate(opts.projectDir, opts.files)
+  const needed = await resolveDependencies(opts, writesOf(planned))
+  // Held-back packages stay in the plan; applyChanges asks about them again.
+  const warnings: DependencyIssue[] = [...needed.warnings]
+  for (const p of needed.pending) {
+    if (p.dev) needed.devDependencies.push(p.spec)
+    else needed.dependencies.push(p.spec)
+    const message = `${p.message} You'll be asked before it's installed.`
+    warnings.push({ spec: p.spec, kind: 'needs-approval', message })
+  }
+  return {
+    files: planned,
+    dependencies: needed.dependencies,
+    devDependencies: needed.devDependencies,
+    skippedDependencies: needed.skipped,
+    dependencyWarnings: warnings
+  }
 }
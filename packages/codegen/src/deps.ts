@@ -2,7 +2,9 @@ import fs from 'node:fs/promises'
 import fssync from 'node:fs'
 import path from 'node:path'
 import { builtinModules } from 'node:module'
-import type { FileChange } from './types'
+import { spawn } from 'node:child_process'
+import ts from 'typescript'
+import type { FileWrite, InferredDependencies, PackageManager } from './types'
 
 export async function readProjectDeps(projectDir: string): Promise<Set<string>> {
   const pkgPath = path.join(projectDir, 'package.json')
@@ -18,7 +20,7 @@ export async function readProjectDeps(projectDir: string): Promise<Set<string>>
   return s
 }
 
-export function choosePackageManager(projectDir: string): 'pnpm' | 'yarn' | 'npm' {
+export function choosePackageManager(projectDir: string): PackageManager {
   // If lockfile exists, match it. Otherwise default to npm.
   const has = (f: string) => {
     try {
@@ -35,67 +37,244 @@ export function choosePackageManager(projectDir: string): 'pnpm' | 'yarn' | 'npm
   return 'npm'
 }
 
+/**
+ * Whether the project is on Yarn 2 or later, whose CLI differs from Yarn 1's: by the
+ * `packageManager` field in package.json, else by the `.yarnrc.yml` only those versions read.
+ */
+export async function isYarnBerry(projectDir: string): Promise<boolean> {
+  const pkg: unknown = await fs
+    .readFile(path.join(projectDir, 'package.json'), 'utf-8')
+    .then(JSON.parse)
+    .catch(() => null)
+  const field = pkg && typeof pkg === 'object' && 'packageManager' in pkg ? pkg.packageManager : undefined
+  const declared = typeof field === 'string' ? field.match(/^yarn@(\d+)\./) : null
+  if (declared) return Number(declared[1]) >= 2
+  return fssync.existsSync(path.join(projectDir, '.yarnrc.yml'))
+}
+
+function isCommandAvailable(cmd: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    const child = spawn(cmd, ['--version'], { stdio: 'ignore' })
+    child.on('error', () => resolve(false))
+    child.on('exit', (code) => resolve(code === 0))
+  })
+}
+
+/**
+ * choosePackageManager, falling back to npm when pnpm/yarn isn't installed.
+ */
+export async function resolvePackageManager(projectDir: string): Promise<PackageManager> {
+  const pm = choosePackageManager(projectDir)
+  if (pm !== 'npm' && !(await isCommandAvailable(pm))) return 'npm'
+  return pm
+}
+
 const BUILTINS = new Set(
   builtinModules.map((m) => (m.startsWith('node:') ? m.slice('node:'.length) : m))
 )
 
-function normalizePackageName(spec: string): string | null {
-  // ignore relative & absolute paths
-  if (!spec) return null
-  if (spec.startsWith('.') || spec.startsWith('/') || spec.startsWith('file:')) return null
-  if (spec.startsWith('node:')) return null
+// What npm accepts as a (new) package name. Aliases like `@/lib`, `~/x` and `#internal` never match.
+const PACKAGE_NAME = /^(?:@[a-z0-9][\w.-]*\/)?[a-z0-9][\w.-]*$/
+
+const SCANNED = /\.(?:[cm]?[jt]s|[jt]sx)$/i
+const TYPED = /\.(?:[cm]?ts|tsx)$/i
+// Tests, stories, declaration files and tool configs only run in development. next.config is
+// loaded by `next start` as well, so what it imports is a runtime dependency.
+const DEV_FILES = [
+  /(?:^|\/)(?:__tests__|__mocks__)\//,
+  /\.(?:test|spec|stories)\.[cm]?[jt]sx?$/,
+  /\.d\.[cm]?ts$/,
+  /(?:^|\/)(?!next\.)[^/]+\.config\.[cm]?[jt]s$/
+]
 
-  // common TS path aliases (project-specific)
-  if (spec.startsWith('@/') || spec.startsWith('~') || spec.startsWith('#')) return null
+// Popular packages without bundled types: importing one from TypeScript also needs @types/<name>.
+const UNTYPED_PACKAGES = new Set([
+  'bcrypt',
+  'compression',
+  'cookie-parser',
+  'cors',
+  'd3',
+  'express',
+  'file-saver',
+  'howler',
+  'jquery',
+  'js-cookie',
+  'jsonwebtoken',
+  'lodash',
+  'lodash.debounce',
+  'lodash.throttle',
+  'mime-types',
+  'morgan',
+  'multer',
+  'node-cron',
+  'nodemailer',
+  'papaparse',
+  'pg',
+  'qs',
+  'react-beautiful-dnd',
+  'react-syntax-highlighter',
+  'sanitize-html',
+  'three',
+  'uuid',
+  'validator',
+  'ws'
+])
+
+function normalizePackageName(spec: string): string | null {
+  if (!spec || spec.startsWith('node:')) return null
 
   // strip query/hash (rare)
-  const clean = spec.split('?')[0].split('#')[0]
+  const clean = spec.split('?')[0]
+  const parts = clean.split('/')
+  // scoped packages: @scope/name/... ; normal: lodash/xyz -> lodash
+  const name = clean.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0]
+  if (BUILTINS.has(name) || !PACKAGE_NAME.test(name)) return null
+  return name
+}
 
-  // builtins
-  const firstSeg = clean.split('/')[0]
-  if (BUILTINS.has(firstSeg)) return null
+/**
+ * Split an npm spec into name and range: `zod`, `zod@^3`, `@tanstack/react-query@5.x`,
+ * `next-auth@beta`. Null for invalid names and for specs that don't come from the registry
+ * (git URLs, tarballs, `file:`, `npm:` aliases).
+ */
+export function parseDependencySpec(spec: string): { name: string; range?: string } | null {
+  const clean = spec.trim()
+  const at = clean.indexOf('@', 1)
+  const name = at === -1 ? clean : clean.slice(0, at)
+  const range = at === -1 ? undefined : clean.slice(at + 1).trim() || undefined
+  if (!PACKAGE_NAME.test(name) || (range && /[:/]/.test(range))) return null
+  return { name, range }
+}
 
-  // scoped packages: @scope/name/...
-  if (clean.startsWith('@')) {
-    const parts = clean.split('/')
-    if (parts.length >= 2) return parts.slice(0, 2).join('/')
-    return null
+function typesPackage(name: string) {
+  return `@types/${name.startsWith('@') ? name.slice(1).replace('/', '__') : name}`
+}
+
+function scriptKind(file: string) {
+  const ext = path.extname(file).toLowerCase()
+  if (ext === '.tsx') return ts.ScriptKind.TSX
+  if (ext === '.ts' || ext === '.mts' || ext === '.cts') return ts.ScriptKind.TS
+  if (ext === '.mjs' || ext === '.cjs') return ts.ScriptKind.JS
+  // Plenty of .js files in React projects contain JSX.
+  return ts.ScriptKind.JSX
+}
+
+/**
+ * Every module a file loads, and whether it's only for types: import/export declarations
+ * (including side-effect imports and `export * from`), `import x = require()`, require(),
+ * import(), `import('x').T` types and `/// <reference types>`. Strings and comments that merely
+ * look like imports aren't code, so they don't count.
+ */
+function collectImports(file: FileWrite): { spec: string; typeOnly: boolean }[] {
+  const source = ts.createSourceFile(file.path, file.content, ts.ScriptTarget.Latest, false, scriptKind(file.path))
+  const found: { spec: string; typeOnly: boolean }[] = []
+  const add = (node: ts.Node | undefined, typeOnly: boolean) => {
+    if (node && ts.isStringLiteralLike(node)) found.push({ spec: node.text, typeOnly })
+  }
+  const allTypes = (elements: readonly (ts.ImportSpecifier | ts.ExportSpecifier)[]) =>
+    elements.length > 0 && elements.every((e) => e.isTypeOnly)
+
+  const visit = (node: ts.Node) => {
+    if (ts.isImportDeclaration(node)) {
+      const clause = node.importClause
+      const named = clause?.namedBindings && ts.isNamedImports(clause.namedBindings) ? clause.namedBindings : null
+      // `import { type A, type B } from 'x'` is dropped from the output just like `import type`.
+      const typeOnly = !!clause && (clause.isTypeOnly || (!clause.name && !!named && allTypes(named.elements)))
+      add(node.moduleSpecifier, typeOnly)
+    } else if (ts.isExportDeclaration(node)) {
+      const named = node.exportClause && ts.isNamedExports(node.exportClause) ? node.exportClause : null
+      add(node.moduleSpecifier, node.isTypeOnly || (!!named && allTypes(named.elements)))
+    } else if (ts.isImportEqualsDeclaration(node) && ts.isExternalModuleReference(node.moduleReference)) {
+      add(node.moduleReference.expression, node.isTypeOnly)
+    } else if (ts.isCallExpression(node)) {
+      const callee = node.expression
+      if (callee.kind === ts.SyntaxKind.ImportKeyword || (ts.isIdentifier(callee) && callee.text === 'require')) {
+        add(node.arguments[0], false)
+      }
+    } else if (ts.isImportTypeNode(node) && ts.isLiteralTypeNode(node.argument)) {
+      add(node.argument.literal, true)
+    }
+    ts.forEachChild(node, visit)
   }
+  visit(source)
 
-  // normal: lodash/xyz -> lodash
-  return firstSeg
+  for (const ref of source.typeReferenceDirectives) {
+    found.push({ spec: ref.fileName === 'node' ? '@types/node' : ref.fileName, typeOnly: true })
+  }
+  return found
 }
 
-export function inferDependenciesFromFiles(files: FileChange[]): string[] {
-  const out = new Set<string>()
+/**
+ * A matcher for specifiers that resolve inside the project through its tsconfig.json (or
+ * jsconfig.json): `paths` aliases, and with `baseUrl`, bare paths like `components/Button`
+ * that name a top-level entry under it (on disk or among `files`).
+ */
+function readLocalSpecifiers(projectDir: string, files: FileWrite[]): (spec: string) => boolean {
+  const configPath = ['tsconfig.json', 'jsconfig.json']
+    .map((f) => path.join(projectDir, f))
+    .find((f) => fssync.existsSync(f))
+  if (!configPath) return () => false
+  const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile)
+  if (error) return () => false
+  const { options } = ts.parseJsonConfigFileContent(config, ts.sys, projectDir, undefined, configPath)
 
-  for (const f of files) {
-    const ext = path.extname(f.path).toLowerCase()
-    if (!['.ts', '.tsx', '.js', '.jsx'].includes(ext)) continue
+  const exact = new Set<string>()
+  const prefixes: string[] = []
+  for (const key of Object.keys(options.paths ?? {})) {
+    const star = key.indexOf('*')
+    if (star === -1) exact.add(key)
+    // A bare "*" mapping falls back to node_modules, so it says nothing about what's local.
+    else if (star > 0) prefixes.push(key.slice(0, star))
+  }
 
-    const src = f.content
+  const baseUrl = options.baseUrl
+  const baseRel = baseUrl ? path.relative(projectDir, baseUrl).split(path.sep).join('/') : null
+  const written = new Set(
+    files.flatMap((f) => {
+      const rel = f.path.replace(/\\/g, '/').replace(/^\.\//, '')
+      const under = baseRel ? (rel.startsWith(`${baseRel}/`) ? rel.slice(baseRel.length + 1) : null) : rel
+      return under ? [under.split('/')[0].replace(/\.[^.]+$/, '')] : []
+    })
+  )
+  const underBaseUrl = (first: string) =>
+    written.has(first) ||
+    ['', '.ts', '.tsx', '.js', '.jsx'].some((ext) => fssync.existsSync(path.join(baseUrl!, first + ext)))
 
-    // import ... from 'pkg'
-    for (const m of src.matchAll(/from\s+['"]([^'"]+)['"]/g)) {
-      const spec = m[1]
-      const pkg = normalizePackageName(spec)
-      if (pkg) out.add(pkg)
-    }
+  return (spec) =>
+    exact.has(spec) ||
+    prefixes.some((p) => spec.startsWith(p)) ||
+    (baseRel !== null && !spec.startsWith('@') && underBaseUrl(spec.split('/')[0]))
+}
 
-    // require('pkg')
-    for (const m of src.matchAll(/require\(\s*['"]([^'"]+)['"]\s*\)/g)) {
-      const spec = m[1]
-      const pkg = normalizePackageName(spec)
-      if (pkg) out.add(pkg)
-    }
+/**
+ * The npm packages `files` import, parsed with the TypeScript compiler rather than matched as
+ * text. Runtime imports from app code are dependencies. Type-only imports, imports from
+ * tests/configs/declaration files and @types/* companions of untyped packages are devDependencies.
+ * With `projectDir`, the project's tsconfig path aliases aren't mistaken for packages.
+ */
+export function inferDependenciesFromFiles(
+  files: FileWrite[],
+  opts: { projectDir?: string } = {}
+): InferredDependencies {
+  const runtime = new Set<string>()
+  const dev = new Set<string>()
+  let isLocal: ((spec: string) => boolean) | undefined
 
-    // dynamic import('pkg')
-    for (const m of src.matchAll(/import\(\s*['"]([^'"]+)['"]\s*\)/g)) {
-      const spec = m[1]
+  for (const f of files) {
+    if (!SCANNED.test(f.path)) continue
+    const devFile = DEV_FILES.some((re) => re.test(f.path))
+    for (const { spec, typeOnly } of collectImports(f)) {
+      if (spec.startsWith('.') || spec.startsWith('/')) continue
       const pkg = normalizePackageName(spec)
-      if (pkg) out.add(pkg)
+      if (!pkg) continue
+      isLocal ??= opts.projectDir ? readLocalSpecifiers(opts.projectDir, files) : () => false
+      if (isLocal(spec)) continue
+
+      const into = typeOnly || devFile ? dev : runtime
+      into.add(pkg)
+      if (TYPED.test(f.path) && UNTYPED_PACKAGES.has(pkg)) dev.add(typesPackage(pkg))
     }
   }
 
-  return Array.from(out)
+  return { dependencies: [...runtime], devDependencies: [...dev].filter((d) => !runtime.has(d)) }
 }
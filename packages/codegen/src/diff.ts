@@ -0,0 +1,382 @@
+import type { EditFailure, SearchReplaceEdit } from './types'
+
+export interface DiffHunk {
+  /**
+   * 1-based line in the original file, from the `@@ -l,n +l,n @@` header. Undefined for
+   * bare `@@` headers, which models sometimes write; those are located by content only.
+   */
+  oldStart?: number
+  header: string
+  /**
+   * Hunk body, each line still prefixed with ' ', '-' or '+'.
+   */
+  lines: string[]
+}
+
+/**
+ * Result of applying edits to one file. `content` has every edit that matched applied;
+ * `failures` lists the rest (empty when the whole patch applied).
+ */
+export interface EditResult {
+  content: string
+  failures: EditFailure[]
+}
+
+/**
+ * Split a unified diff into hunks. File headers (`---` / `+++`, `diff --git`, `index`) are skipped.
+ */
+export function parseUnifiedDiff(patch: string): DiffHunk[] {
+  const hunks: DiffHunk[] = []
+  let current: DiffHunk | null = null
+
+  for (const line of patch.replace(/\r\n/g, '\n').split('\n')) {
+    if (/^@@(\s|$)/.test(line)) {
+      const m = line.match(/^@@\s+-(\d+)(?:,\d+)?\s+\+\d+(?:,\d+)?\s+@@/)
+      current = { oldStart: m ? Number(m[1]) : undefined, header: line.trim(), lines: [] }
+      hunks.push(current)
+      continue
+    }
+    if (!current) continue
+    if (line.startsWith('\\')) continue // "\ No newline at end of file"
+    if (line.startsWith('--- ') || line.startsWith('+++ ')) continue
+    // Models often drop the leading space on empty context lines.
+    current.lines.push(line === '' ? ' ' : line)
+  }
+
+  // A trailing newline in the patch leaves an empty context line behind.
+  for (const h of hunks) {
+    while (h.lines.length > 0 && h.lines[h.lines.length - 1] === ' ') h.lines.pop()
+  }
+  return hunks
+}
+
+/**
+ * Line comparisons from strict to loose. Models get indentation and trailing spaces wrong far
+ * more often than they get the code wrong, so the looser levels only ignore whitespace.
+ */
+const MATCHERS: ((line: string) => string)[] = [
+  (l) => l,
+  (l) => l.trimEnd(),
+  (l) => l.trim().replace(/\s+/g, ' ')
+]
+
+function matchesAt(lines: string[], block: string[], at: number, norm: (l: string) => string) {
+  if (at < 0 || at + block.length > lines.length) return false
+  return block.every((l, i) => norm(lines[at + i]) === norm(l))
+}
+
+/**
+ * Find `block` in `lines` at or after `from`, preferring the position closest to `expected`.
+ * Tries each matcher in turn so an exact match always wins over a whitespace-insensitive one.
+ */
+function findBlock(lines: string[], block: string[], from: number, expected = from): number {
+  for (const norm of MATCHERS) {
+    if (matchesAt(lines, block, expected, norm) && expected >= from) return expected
+    for (let d = 1; expected - d >= from || expected + d <= lines.length - block.length; d++) {
+      if (expected - d >= from && matchesAt(lines, block, expected - d, norm)) return expected - d
+      if (matchesAt(lines, block, expected + d, norm)) return expected + d
+    }
+  }
+  return -1
+}
+
+function splitLines(text: string) {
+  return text === '' ? [] : text.replace(/\n$/, '').split('\n')
+}
+
+function joinLines(lines: string[], original: string) {
+  const out = lines.join('\n')
+  return original.endsWith('\n') || original === '' ? `${out}\n` : out
+}
+
+/**
+ * Apply a unified diff with fuzzy matching: each hunk is placed nearest its stated line,
+ * after the previous hunk, ignoring whitespace differences if it has to. Context lines keep
+ * the file's own text. Hunks that can't be placed are reported and skipped.
+ */
+export function applyUnifiedDiff(original: string, patch: string): EditResult {
+  const hunks = parseUnifiedDiff(patch)
+  if (hunks.length === 0) {
+    return { content: original, failures: [{ index: 1, header: '', reason: 'Patch has no @@ hunks' }] }
+  }
+
+  const lines = splitLines(original.replace(/\r\n/g, '\n'))
+  const failures: EditFailure[] = []
+  let offset = 0
+  let cursor = 0
+
+  for (const [i, hunk] of hunks.entries()) {
+    const before = hunk.lines.filter((l) => !l.startsWith('+')).map((l) => l.slice(1))
+
+    // `-0,0` (insert at the top) has no old lines and a start of 0.
+    const start = hunk.oldStart ?? 0
+    const stated = start - 1 + (before.length === 0 && start > 0 ? 1 : 0) + offset
+    const expected = hunk.oldStart === undefined ? cursor : Math.max(cursor, stated)
+    const at = before.length === 0 ? Math.min(expected, lines.length) : findBlock(lines, before, cursor, expected)
+    if (at < 0) {
+      failures.push({ index: i + 1, header: hunk.header, reason: 'context and removed lines not found in the file' })
+      continue
+    }
+
+    // Rebuild the region: file text for context lines, the patch's text for added lines.
+    const after: string[] = []
+    let k = at
+    for (const l of hunk.lines) {
+      if (l.startsWith('+')) after.push(l.slice(1))
+      else if (l.startsWith('-')) k++
+      else after.push(lines[k++])
+    }
+
+    lines.splice(at, before.length, ...after)
+    offset += after.length - before.length
+    cursor = at + after.length
+  }
+
+  return { content: joinLines(lines, original), failures }
+}
+
+/**
+ * Parse SEARCH/REPLACE blocks:
+ *
+ *     <<<<<<< SEARCH
+ *     old lines
+ *     =======
+ *     new lines
+ *     >>>>>>> REPLACE
+ */
+export function parseSearchReplace(text: string): SearchReplaceEdit[] {
+  const edits: SearchReplaceEdit[] = []
+  const lines = text.replace(/\r\n/g, '\n').split('\n')
+  let i = 0
+
+  while (i < lines.length) {
+    if (!/^<{5,}\s*SEARCH\s*$/.test(lines[i])) {
+      i++
+      continue
+    }
+    const search: string[] = []
+    const replace: string[] = []
+    i++
+    while (i < lines.length && !/^={5,}\s*$/.test(lines[i])) search.push(lines[i++])
+    i++
+    while (i < lines.length && !/^>{5,}\s*REPLACE\s*$/.test(lines[i])) replace.push(lines[i++])
+    i++
+    edits.push({ search: search.join('\n'), replace: replace.join('\n') })
+  }
+  return edits
+}
+
+export function hasSearchReplace(text: string) {
+  return /^<{5,}\s*SEARCH\s*$/m.test(text)
+}
+
+/**
+ * Apply SEARCH/REPLACE edits in order. Each search text is matched exactly first, then line
+ * by line ignoring whitespace. An empty search creates the file (only if it's empty).
+ */
+export function applySearchReplace(original: string, edits: SearchReplaceEdit[]): EditResult {
+  let text = original.replace(/\r\n/g, '\n')
+  const failures: EditFailure[] = []
+
+  for (const [i, edit] of edits.entries()) {
+    const header = edit.search.split('\n').find((l) => l.trim())?.trim() ?? ''
+    const fail = (reason: string) => failures.push({ index: i + 1, header: header.slice(0, 80), reason })
+
+    if (!edit.search.trim()) {
+      if (text.trim()) fail('empty SEARCH only works for a new or empty file')
+      else text = edit.replace.endsWith('\n') ? edit.replace : `${edit.replace}\n`
+      continue
+    }
+
+    const exact = text.indexOf(edit.search)
+    if (exact >= 0) {
+      text = text.slice(0, exact) + edit.replace + text.slice(exact + edit.search.length)
+      continue
+    }
+
+    const lines = splitLines(text)
+    const at = findBlock(lines, splitLines(edit.search), 0)
+    if (at < 0) {
+      fail('SEARCH text not found in the file')
+      continue
+    }
+    lines.splice(at, splitLines(edit.search).length, ...splitLines(edit.replace))
+    text = joinLines(lines, text)
+  }
+
+  if (edits.length === 0) failures.push({ index: 1, header: '', reason: 'No SEARCH/REPLACE blocks found' })
+  return { content: text, failures }
+}
+
+type DiffOp = { type: ' ' | '-' | '+'; line: string }
+
+/**
+ * Line diff: common prefix/suffix, then an LCS table over the middle. Middles too big for the
+ * table (over ~4M cells) are shown as a full replacement rather than risking a slow app.
+ */
+function diffLines(a: string[], b: string[]): DiffOp[] {
+  let pre = 0
+  while (pre < a.length && pre < b.length && a[pre] === b[pre]) pre++
+  let suf = 0
+  while (suf < a.length - pre && suf < b.length - pre && a[a.length - 1 - suf] === b[b.length - 1 - suf]) suf++
+
+  const am = a.slice(pre, a.length - suf)
+  const bm = b.slice(pre, b.length - suf)
+  const middle: DiffOp[] = []
+
+  if (am.length * bm.length > 4_000_000) {
+    for (const line of am) middle.push({ type: '-', line })
+    for (const line of bm) middle.push({ type: '+', line })
+  } else {
+    // lcs[i][j] = LCS length of am[i..] and bm[j..], flattened.
+    const w = bm.length + 1
+    const lcs = new Uint32Array((am.length + 1) * w)
+    for (let i = am.length - 1; i >= 0; i--) {
+      for (let j = bm.length - 1; j >= 0; j--) {
+        lcs[i * w + j] =
+          am[i] === bm[j] ? lcs[(i + 1) * w + j + 1] + 1 : Math.max(lcs[(i + 1) * w + j], lcs[i * w + j + 1])
+      }
+    }
+    let i = 0
+    let j = 0
+    while (i < am.length || j < bm.length) {
+      if (i < am.length && j < bm.length && am[i] === bm[j]) {
+        middle.push({ type: ' ', line: am[i++] })
+        j++
+      } else if (i < am.length && (j >= bm.length || lcs[(i + 1) * w + j] >= lcs[i * w + j + 1])) {
+        middle.push({ type: '-', line: am[i++] })
+      } else {
+        middle.push({ type: '+', line: bm[j++] })
+      }
+    }
+  }
+
+  return [
+    ...a.slice(0, pre).map((line) => ({ type: ' ' as const, line })),
+    ...middle,
+    ...a.slice(a.length - suf).map((line) => ({ type: ' ' as const, line }))
+  ]
+}
+
+/**
+ * Unified diff between two versions of a file, with `context` lines around each change.
+ * Returns '' when they're equal. Pass null for a file that doesn't exist on that side.
+ */
+export function createUnifiedDiff(filePath: string, before: string | null, after: string | null, context = 3) {
+  const ops = diffLines(splitLines(before ?? ''), splitLines(after ?? ''))
+  const changed = ops.map((op, i) => (op.type === ' ' ? -1 : i)).filter((i) => i >= 0)
+  if (changed.length === 0) return ''
+
+  const out = [before === null ? '--- /dev/null' : `--- a/${filePath}`]
+  out.push(after === null ? '+++ /dev/null' : `+++ b/${filePath}`)
+
+  // Line numbers before each op, on both sides.
+  const oldAt: number[] = []
+  const newAt: number[] = []
+  let o = 1
+  let n = 1
+  for (const op of ops) {
+    oldAt.push(o)
+    newAt.push(n)
+    if (op.type !== '+') o++
+    if (op.type !== '-') n++
+  }
+
+  let k = 0
+  while (k < changed.length) {
+    const start = Math.max(0, changed[k] - context)
+    let end = changed[k]
+    // Merge changes whose context would overlap into one hunk.
+    while (k + 1 < changed.length && changed[k + 1] - end <= context * 2) end = changed[++k]
+    end = Math.min(ops.length - 1, end + context)
+    k++
+
+    const body = ops.slice(start, end + 1)
+    const oldCount = body.filter((op) => op.type !== '+').length
+    const newCount = body.filter((op) => op.type !== '-').length
+    // An empty side is numbered from the line before it, as diff(1) does.
+    const oldStart = oldCount === 0 ? oldAt[start] - 1 : oldAt[start]
+    const newStart = newCount === 0 ? newAt[start] - 1 : newAt[start]
+    out.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`)
+    out.push(...body.map((op) => `${op.type}${op.line}`))
+  }
+  return out.join('\n')
+}
+
+/**
+ * For each line of `a`, the index of the matching line in `b`, or -1 if it was removed.
+ */
+function lineMatches(a: string[], b: string[]): number[] {
+  const matches: number[] = []
+  let j = 0
+  for (const op of diffLines(a, b)) {
+    if (op.type === ' ') matches.push(j++)
+    else if (op.type === '-') matches.push(-1)
+    else j++
+  }
+  return matches
+}
+
+const sameLines = (a: string[], b: string[]) => a.length === b.length && a.every((l, i) => l === b[i])
+
+/**
+ * Result of a three-way merge. `content` has conflict markers around each of the `conflicts`
+ * regions both sides changed differently; with none, it's the clean merge.
+ */
+export interface MergeResult {
+  content: string
+  conflicts: number
+}
+
+/**
+ * diff3-style merge: both sides' changes to `base` are combined, and where they touch the same
+ * lines differently, both versions are kept between git-style markers (`labels` names the sides).
+ */
+export function mergeThreeWay(
+  base: string,
+  ours: string,
+  theirs: string,
+  labels = { ours: 'ours', theirs: 'theirs' }
+): MergeResult {
+  const b = splitLines(base.replace(/\r\n/g, '\n'))
+  const o = splitLines(ours.replace(/\r\n/g, '\n'))
+  const t = splitLines(theirs.replace(/\r\n/g, '\n'))
+  const toOurs = lineMatches(b, o)
+  const toTheirs = lineMatches(b, t)
+
+  const out: string[] = []
+  let conflicts = 0
+  let i = 0
+  let oi = 0
+  let ti = 0
+
+  while (i < b.length || oi < o.length || ti < t.length) {
+    // Next base line both sides kept: everything before it is a changed region.
+    let j = i
+    while (j < b.length && (toOurs[j] < 0 || toTheirs[j] < 0)) j++
+    if (j < b.length && j === i && toOurs[j] === oi && toTheirs[j] === ti) {
+      out.push(b[i++])
+      oi++
+      ti++
+      continue
+    }
+
+    const oEnd = j < b.length ? toOurs[j] : o.length
+    const tEnd = j < b.length ? toTheirs[j] : t.length
+    const baseChunk = b.slice(i, j)
+    const oursChunk = o.slice(oi, oEnd)
+    const theirsChunk = t.slice(ti, tEnd)
+
+    if (sameLines(oursChunk, baseChunk) || sameLines(oursChunk, theirsChunk)) out.push(...theirsChunk)
+    else if (sameLines(theirsChunk, baseChunk)) out.push(...oursChunk)
+    else {
+      conflicts++
+      out.push(`<<<<<<< ${labels.ours}`, ...oursChunk, '=======', ...theirsChunk, `>>>>>>> ${labels.theirs}`)
+    }
+    i = j
+    oi = oEnd
+    ti = tEnd
+  }
+
+  return { content: joinLines(out, theirs || ours), conflicts }
+}
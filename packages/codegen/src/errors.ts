@@ -0,0 +1,23 @@
+/**
+ * applyChanges failed and the project was put back the way it was. `rolledBack` lists the
+ * restored files (including package.json / lockfiles after a failed install); `notRestored`
+ * lists any that couldn't be restored and need a manual look.
+ */
+export class ApplyError extends Error {
+  readonly rolledBack: string[]
+  readonly notRestored: string[]
+
+  constructor(cause: unknown, opts: { rolledBack: string[]; notRestored: string[] }) {
+    const reason = cause instanceof Error ? cause.message : String(cause)
+    const count = opts.rolledBack.length
+    const files = `${count} file${count === 1 ? '' : 's'}`
+    const summary = count > 0 ? `Rolled back ${files}: ${opts.rolledBack.join(', ')}` : 'No files were changed.'
+    const lines = [reason, '', summary]
+    if (opts.notRestored.length > 0) lines.push(`Could not restore: ${opts.notRestored.join(', ')}`)
+
+    super(lines.join('\n'), { cause })
+    this.name = 'ApplyError'
+    this.rolledBack = opts.rolledBack
+    this.notRestored = opts.notRestored
+  }
+}
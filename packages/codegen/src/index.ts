@@ -1,3 +1,18 @@
 export * from './types'
-export { parseAiResponse } from './parse'
-export { applyChanges } from './apply'
+export { parseAiResponse, parseStructuredAiResponse, AI_RESPONSE_SCHEMA } from './parse'
+export { applyChanges, planChanges } from './apply'
+export { ApplyError } from './errors'
+export { createSnapshotStore } from './snapshots'
+export { typecheckChanges, formatDiagnostics } from './typecheck'
+export { verifyProject, parseScriptOutput } from './verify'
+export {
+  applyUnifiedDiff,
+  applySearchReplace,
+  parseSearchReplace,
+  createUnifiedDiff,
+  mergeThreeWay
+} from './diff'
+export { choosePackageManager, parseDependencySpec } from './deps'
+export { checkDependencies, createRegistryClient } from './registry'
+export { applyDependencyPolicy, allowInProject, findTyposquatTarget, mergePolicies, readProjectPolicy } from './policy'
+export { createProjectTools } from './tools'
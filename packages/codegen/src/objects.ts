@@ -0,0 +1,80 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import crypto from 'node:crypto'
+
+export function hashContent(content: string | Buffer) {
+  return crypto.createHash('sha256').update(content).digest('hex')
+}
+
+/**
+ * Content-addressed blobs in `dir`: each distinct file content is stored once, under its sha256.
+ */
+export function createObjectStore(dir: string) {
+  const objectPath = (hash: string) => path.join(dir, hash)
+
+  return {
+    async put(content: string | Buffer): Promise<string> {
+      const hash = hashContent(content)
+      const file = objectPath(hash)
+      await fs.mkdir(dir, { recursive: true })
+      if (!(await fs.stat(file).catch(() => null))) await fs.writeFile(file, content)
+      return hash
+    },
+
+    async get(hash: string): Promise<Buffer> {
+      return fs.readFile(objectPath(hash)).catch(() => {
+        throw new Error(`Stored file data is missing (${hash.slice(0, 12)}); it may have been pruned`)
+      })
+    },
+
+    /**
+     * Delete every object not in `used`.
+     */
+    async prune(used: Set<string>) {
+      const objects = await fs.readdir(dir).catch(() => [] as string[])
+      for (const name of objects) {
+        if (!used.has(name)) await fs.rm(objectPath(name), { force: true })
+      }
+    }
+  }
+}
+
+export const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null
+
+/**
+ * Only the string values of a JSON object.
+ */
+export function strings(v: unknown): Record<string, string> {
+  if (!isObject(v)) return {}
+  return Object.fromEntries(Object.entries(v).filter((e): e is [string, string] => typeof e[1] === 'string'))
+}
+
+/**
+ * A name createObjectStore could have given an object. Anything else read from an index (a
+ * hand edit, say) must not become a path.
+ */
+export const isHash = (v: unknown): v is string => typeof v === 'string' && /^[0-9a-f]{64}$/.test(v)
+
+/**
+ * Read a small JSON index, or undefined if it doesn't exist yet. One that doesn't parse (cut
+ * short, edited by hand) reads as undefined too, so callers start over instead of failing for good.
+ */
+export async function readIndexFile(file: string): Promise<unknown> {
+  const text = await fs.readFile(file, 'utf-8').catch(() => null)
+  if (!text) return undefined
+  try {
+    return JSON.parse(text)
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Write a JSON index via a temp file, so a crash never leaves it half-written.
+ */
+export async function writeIndexFile(file: string, data: unknown) {
+  await fs.mkdir(path.dirname(file), { recursive: true })
+  const tmp = `${file}.${Date.now()}.tmp`
+  await fs.writeFile(tmp, JSON.stringify(data, null, 2), 'utf-8')
+  await fs.rename(tmp, file)
+}
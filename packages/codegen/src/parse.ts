@@ -1,4 +1,5 @@
 import type { FileChange, ParsedAiResponse } from './types'
+import { hasSearchReplace, parseSearchReplace } from './diff'
 
 function safeTrim(s: string) {
   return s.replace(/\s+$/g, '').replace(/^\s+/g, '')
@@ -20,14 +21,43 @@ function parseJsonArrayLoose(text: string): string[] {
     .replace(/[\]\)]\s*$/g, '')
   return cleaned
     .split(',')
-    .map((s) => s.trim().replace(/^['"]|['"]$/g, ''))
+    .map((s) => s.trim().replace(/^['"`]|['"`]$/g, ''))
     .filter(Boolean)
 }
 
+// Models like to wrap paths in backticks or quotes: Delete: `app/old/page.tsx`
+function stripTicks(p: string) {
+  return p.trim().replace(/^[`'"]+|[`'"]+$/g, '')
+}
+
+const DIFF_HEADER = /^--- [^\n]*\n\+\+\+ /
+const HUNK_HEADER = /^@@ -\d+(,\d+)? \+\d+(,\d+)? @@/
+
+function isUnifiedDiff(info: string, body: string) {
+  if (/^(diff|patch)$/i.test(info)) return /^@@/m.test(body)
+  // A bare `---` is YAML frontmatter in .md/.mdx/.yml files, not a patch.
+  const start = body.trimStart()
+  return DIFF_HEADER.test(start) || HUNK_HEADER.test(start)
+}
+
+/**
+ * A fenced block is full file content, unless it holds SEARCH/REPLACE blocks or a unified diff
+ * (```diff fence, or a body starting with a `---`/`+++` header pair or an `@@ -a,b +c,d @@` hunk).
+ */
+function toFileChange(filePath: string, info: string, body: string): FileChange {
+  if (hasSearchReplace(body)) return { kind: 'edit', path: filePath, edits: parseSearchReplace(body) }
+  if (isUnifiedDiff(info, body)) return { kind: 'patch', path: filePath, patch: body }
+  return { path: filePath, content: body }
+}
+
 /**
  * Supported AI response formats:
  *  1) "File: path" + fenced code block
  *  2) fenced code block info string like ```file path/to/file.tsx
+ *
+ * Either block may hold full content, SEARCH/REPLACE blocks or a unified diff (see toFileChange).
+ *
+ * Plus one-line directives outside code fences: "Delete: path" and "Rename: from -> to".
  */
 export function parseAiResponse(raw: string): ParsedAiResponse {
   const lines = raw.replace(/\r\n/g, '\n').split('\n')
@@ -63,6 +93,22 @@ export function parseAiResponse(raw: string): ParsedAiResponse {
       continue
     }
 
+    const mDelete = line.match(/^Delete\s*:\s*(.+)$/i)
+    if (mDelete) {
+      if (firstFileLineIndex === null) firstFileLineIndex = i
+      files.push({ kind: 'delete', path: stripTicks(mDelete[1]) })
+      i++
+      continue
+    }
+
+    const mRename = line.match(/^Rename\s*:\s*(.+?)\s*(?:->|→|=>)\s*(.+)$/i)
+    if (mRename) {
+      if (firstFileLineIndex === null) firstFileLineIndex = i
+      files.push({ kind: 'rename', path: stripTicks(mRename[1]), to: stripTicks(mRename[2]) })
+      i++
+      continue
+    }
+
     // Format 1: File: path
     const mFile = line.match(/^File\s*:\s*(.+)$/i)
     if (mFile) {
@@ -75,6 +121,7 @@ export function parseAiResponse(raw: string): ParsedAiResponse {
       if (i >= lines.length || !lines[i].startsWith('```')) continue
 
       // consume opening fence
+      const info = lines[i].slice(3).trim()
       i++
       const contentLines: string[] = []
       while (i < lines.length && !lines[i].startsWith('```')) {
@@ -84,7 +131,7 @@ export function parseAiResponse(raw: string): ParsedAiResponse {
       // consume closing fence if present
       if (i < lines.length && lines[i].startsWith('```')) i++
 
-      files.push({ path: filePath, content: contentLines.join('\n') })
+      files.push(toFileChange(filePath, info, contentLines.join('\n')))
       continue
     }
 
@@ -100,7 +147,7 @@ export function parseAiResponse(raw: string): ParsedAiResponse {
         i++
       }
       if (i < lines.length && lines[i].startsWith('```')) i++
-      files.push({ path: filePath, content: contentLines.join('\n') })
+      files.push(toFileChange(filePath, '', contentLines.join('\n')))
       continue
     }
 
@@ -112,5 +159,103 @@ export function parseAiResponse(raw: string): ParsedAiResponse {
 
   const uniqDeps = Array.from(new Set(deps.map((d) => d.trim()).filter(Boolean)))
 
-  return { summary, files, dependencies: uniqDeps, raw }
+  return { summary, files, dependencies: uniqDeps, raw, format: 'markdown' }
+}
+
+/**
+ * JSON Schema for the structured output protocol. Written for OpenAI's strict mode: every
+ * property is required, and a file entry sets exactly one of `content` / `patch` (the other null).
+ */
+export const AI_RESPONSE_SCHEMA = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['summary', 'renamed', 'deleted', 'files', 'dependencies'],
+  properties: {
+    summary: { type: 'string', description: 'Short plain-English summary of the change.' },
+    renamed: {
+      type: 'array',
+      description: 'Files to move. Applied before `files`.',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['from', 'to'],
+        properties: { from: { type: 'string' }, to: { type: 'string' } }
+      }
+    },
+    deleted: { type: 'array', items: { type: 'string' }, description: 'Files to delete. Applied before `files`.' },
+    files: {
+      type: 'array',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['path', 'content', 'patch'],
+        properties: {
+          path: { type: 'string', description: 'Relative path from the project root.' },
+          content: { type: ['string', 'null'], description: 'Full new file content.' },
+          patch: {
+            type: ['string', 'null'],
+            description: 'Unified diff or SEARCH/REPLACE blocks against the current file.'
+          }
+        }
+      }
+    },
+    dependencies: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'New npm packages, optionally with a version range ("zod@^3").'
+    }
+  }
+} as const
+
+function isStringArray(v: unknown): v is string[] {
+  return Array.isArray(v) && v.every((x) => typeof x === 'string')
+}
+
+/**
+ * Validate a reply against AI_RESPONSE_SCHEMA. Returns null if it doesn't match.
+ */
+function readStructured(raw: string): Omit<ParsedAiResponse, 'raw' | 'format'> | null {
+  // Some models wrap the JSON in a fence even in JSON mode.
+  const text = raw.trim().replace(/^```(?:json)?\s*\n([\s\S]*?)\n```$/, '$1')
+  let json: any
+  try {
+    json = JSON.parse(text)
+  } catch {
+    return null
+  }
+
+  if (!json || typeof json !== 'object' || typeof json.summary !== 'string') return null
+  if (!Array.isArray(json.files) || !isStringArray(json.dependencies ?? [])) return null
+
+  const renamed = json.renamed ?? []
+  if (!Array.isArray(renamed) || !isStringArray(json.deleted ?? [])) return null
+
+  const files: FileChange[] = []
+  for (const r of renamed) {
+    if (!r || typeof r.from !== 'string' || typeof r.to !== 'string') return null
+    files.push({ kind: 'rename', path: r.from.trim(), to: r.to.trim() })
+  }
+  for (const d of json.deleted ?? []) files.push({ kind: 'delete', path: d.trim() })
+  for (const f of json.files) {
+    if (!f || typeof f.path !== 'string' || !f.path.trim()) return null
+    const hasContent = typeof f.content === 'string'
+    const hasPatch = typeof f.patch === 'string'
+    if (hasContent === hasPatch) return null
+    const filePath = f.path.trim()
+    if (hasContent) files.push({ path: filePath, content: f.content })
+    else if (hasSearchReplace(f.patch)) files.push({ kind: 'edit', path: filePath, edits: parseSearchReplace(f.patch) })
+    else files.push({ kind: 'patch', path: filePath, patch: f.patch })
+  }
+
+  const dependencies = Array.from(new Set((json.dependencies ?? []).map((d: string) => d.trim()).filter(Boolean)))
+  return { summary: safeTrim(json.summary), files, dependencies: dependencies as string[] }
+}
+
+/**
+ * Parse a reply requested with AI_RESPONSE_SCHEMA. Falls back to the markdown "File:" parser
+ * when the model didn't produce valid JSON (e.g. it ignored the response format).
+ */
+export function parseStructuredAiResponse(raw: string): ParsedAiResponse {
+  const structured = readStructured(raw)
+  return structured ? { ...structured, raw, format: 'json' } : parseAiResponse(raw)
 }
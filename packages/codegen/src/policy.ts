@@ -0,0 +1,249 @@
+import path from 'node:path'
+import type { DependencyIssue, DependencyPolicy, PendingDependency } from './types'
+import { parseDependencySpec, readProjectDeps } from './deps'
+import { isObject, readIndexFile, writeIndexFile } from './objects'
+
+const PROJECT_POLICY_PATH = path.join('.vorbyte', 'dependency-policy.json')
+
+// Widely installed packages that typosquats imitate. Names in the project's package.json count too.
+// Popular packages an edit away from another one (preact/react, cookies/cookie) are listed as
+// well: a known name is never a typosquat.
+const POPULAR_PACKAGES = [
+  '@emotion/react',
+  '@emotion/styled',
+  '@headlessui/react',
+  '@heroicons/react',
+  '@hookform/resolvers',
+  '@mui/icons-material',
+  '@mui/material',
+  '@next/font',
+  '@prisma/client',
+  '@radix-ui/react-dialog',
+  '@radix-ui/react-dropdown-menu',
+  '@radix-ui/react-slot',
+  '@reduxjs/toolkit',
+  '@supabase/supabase-js',
+  '@tanstack/react-query',
+  '@tanstack/react-table',
+  '@vercel/analytics',
+  'axios',
+  'bcrypt',
+  'bcryptjs',
+  'body-parser',
+  'chalk',
+  'chart.js',
+  'cheerio',
+  'class-variance-authority',
+  'classnames',
+  'clsx',
+  'color',
+  'colors',
+  'commander',
+  'cookie',
+  'cookies',
+  'cors',
+  'cross-env',
+  'crypto-js',
+  'date-fns',
+  'dayjs',
+  'debug',
+  'dotenv',
+  'drizzle-orm',
+  'echarts',
+  'embla-carousel-react',
+  'eslint',
+  'express',
+  'firebase',
+  'framer-motion',
+  'graphql',
+  'immer',
+  'jose',
+  'jsonwebtoken',
+  'lodash',
+  'lucide-react',
+  'marked',
+  'moment',
+  'mongodb',
+  'mongoose',
+  'mysql',
+  'mysql2',
+  'nanoid',
+  'next',
+  'next-auth',
+  'next-themes',
+  'node-fetch',
+  'nodemailer',
+  'openai',
+  'postcss',
+  'preact',
+  'prettier',
+  'prisma',
+  'react',
+  'react-dnd',
+  'react-dom',
+  'react-hook-form',
+  'react-icons',
+  'react-markdown',
+  'react-query',
+  'react-redux',
+  'react-router-dom',
+  'recharts',
+  'redux',
+  'request',
+  'sharp',
+  'socket.io',
+  'socket.io-client',
+  'sonner',
+  'stripe',
+  'styled-components',
+  'swr',
+  'tailwind-merge',
+  'tailwindcss',
+  'tailwindcss-animate',
+  'three',
+  'tslint',
+  'typescript',
+  'underscore',
+  'uuid',
+  'vite',
+  'webpack',
+  'ws',
+  'yup',
+  'zod',
+  'zustand'
+]
+
+/**
+ * Edit distance where swapping two neighbouring characters counts as one edit (`raect` vs `react`).
+ */
+function editDistance(a: string, b: string) {
+  const d = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array<number>(b.length).fill(0)])
+  for (let j = 1; j <= b.length; j++) d[0][j] = j
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1)
+      }
+    }
+  }
+  return d[a.length][b.length]
+}
+
+/**
+ * The well-known package `name` imitates, if it looks like one: the same name with different
+ * separators (`react_dom`, `reactdom`), or an edit away (two for long names; none under 5 letters).
+ */
+export function findTyposquatTarget(name: string, known: Iterable<string>): string | null {
+  const bare = (n: string) => n.replace(/[-_.]/g, '')
+  let best: { target: string; distance: number } | null = null
+  for (const target of known) {
+    if (target === name) return null
+    const distance = bare(target) === bare(name) ? 0 : editDistance(name, target)
+    const shorter = Math.min(name.length, target.length)
+    const limit = shorter >= 10 ? 2 : shorter >= 5 ? 1 : 0
+    if (distance <= limit && (!best || distance < best.distance)) best = { target, distance }
+  }
+  return best?.target ?? null
+}
+
+function matches(patterns: string[] | undefined, name: string) {
+  return (patterns ?? []).some((p) => (p.endsWith('/*') ? name.startsWith(p.slice(0, -1)) : p === name))
+}
+
+/**
+ * The project's own policy (`.vorbyte/dependency-policy.json`), if it has one. The file may be
+ * edited by hand, so only string lists and boolean flags are kept; anything else is dropped.
+ */
+export async function readProjectPolicy(projectDir: string): Promise<DependencyPolicy> {
+  const data = await readIndexFile(path.join(projectDir, PROJECT_POLICY_PATH))
+  if (!isObject(data)) return {}
+  const names = (v: unknown) => (Array.isArray(v) ? v.filter((n): n is string => typeof n === 'string') : undefined)
+
+  const policy: DependencyPolicy = {}
+  const allow = names(data.allow)
+  const deny = names(data.deny)
+  if (allow) policy.allow = allow
+  if (deny) policy.deny = deny
+  if (typeof data.requireApproval === 'boolean') policy.requireApproval = data.requireApproval
+  if (typeof data.ignoreScripts === 'boolean') policy.ignoreScripts = data.ignoreScripts
+  return policy
+}
+
+/**
+ * Add `names` to the project policy's allowlist, so they install without asking next time.
+ */
+export async function allowInProject(projectDir: string, names: string[]) {
+  if (names.length === 0) return
+  const policy = await readProjectPolicy(projectDir)
+  const allow = [...new Set([...(policy.allow ?? []), ...names])].sort()
+  await writeIndexFile(path.join(projectDir, PROJECT_POLICY_PATH), { ...policy, allow })
+}
+
+/**
+ * A global policy combined with the project's: lists are merged, and either one can turn on
+ * requireApproval and ignoreScripts.
+ */
+export function mergePolicies(...policies: (DependencyPolicy | undefined)[]): DependencyPolicy {
+  const merged: DependencyPolicy = { allow: [], deny: [], requireApproval: false, ignoreScripts: false }
+  for (const p of policies) {
+    if (!p) continue
+    merged.allow!.push(...(p.allow ?? []))
+    merged.deny!.push(...(p.deny ?? []))
+    merged.requireApproval ||= !!p.requireApproval
+    merged.ignoreScripts ||= !!p.ignoreScripts
+  }
+  return merged
+}
+
+/**
+ * Sort the packages about to be installed by policy. Denylisted ones (exact names or `@scope/*`)
+ * are dropped. Ones that look like a typo of a popular package or of something the project
+ * already uses need approval, as does anything not allowlisted in requireApproval mode.
+ * Allowlisted packages are never held back (unless also denied).
+ */
+export async function applyDependencyPolicy(opts: {
+  projectDir: string
+  dependencies: string[]
+  devDependencies: string[]
+  policy: DependencyPolicy
+}): Promise<{
+  dependencies: string[]
+  devDependencies: string[]
+  denied: DependencyIssue[]
+  pending: PendingDependency[]
+}> {
+  const denied: DependencyIssue[] = []
+  const pending: PendingDependency[] = []
+  const known = new Set([...POPULAR_PACKAGES, ...(await readProjectDeps(opts.projectDir))])
+
+  const sort = (specs: string[], dev: boolean) =>
+    specs.filter((spec) => {
+      const name = parseDependencySpec(spec)?.name ?? spec
+      if (matches(opts.policy.deny, name)) {
+        denied.push({ spec, kind: 'denied', message: `${name} is on the dependency denylist.` })
+        return false
+      }
+      if (matches(opts.policy.allow, name)) return true
+
+      const similarTo = findTyposquatTarget(name, known)
+      if (similarTo) {
+        const message = `${name} looks like a misspelling of ${similarTo} (a possible typosquat).`
+        pending.push({ spec, name, dev, reason: 'typosquat', similarTo, message })
+        return false
+      }
+      if (opts.policy.requireApproval) {
+        pending.push({ spec, name, dev, reason: 'not-allowlisted', message: `${name} is not on the allowlist.` })
+        return false
+      }
+      return true
+    })
+
+  return {
+    dependencies: sort(opts.dependencies, false),
+    devDependencies: sort(opts.devDependencies, true),
+    denied,
+    pending
+  }
+}
@@ -0,0 +1,218 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import type { ApplyProgressEvent, DependencyIssue, InferredDependencies, RegistryOptions } from './types'
+import { parseDependencySpec } from './deps'
+import { compareVersions, isPrerelease, isValidRange, maxSatisfying, minVersion, satisfies } from './semver'
+import { isObject, readIndexFile, strings, writeIndexFile } from './objects'
+
+const DEFAULT_REGISTRY = 'https://registry.npmjs.org'
+const FETCH_TIMEOUT_MS = 15_000
+
+/**
+ * The part of a package's registry metadata the checks read. Cached files have this shape too.
+ */
+interface PackageMetadata {
+  name: string
+  'dist-tags': Record<string, string>
+  versions: Record<string, { peerDependencies?: Record<string, string>; deprecated?: string }>
+}
+
+function slim(json: unknown): PackageMetadata | null {
+  if (!isObject(json) || !isObject(json.versions)) return null
+  const versions: PackageMetadata['versions'] = {}
+  for (const [v, meta] of Object.entries(json.versions)) {
+    const peers = isObject(meta) ? strings(meta.peerDependencies) : {}
+    versions[v] = {
+      peerDependencies: Object.keys(peers).length > 0 ? peers : undefined,
+      deprecated: isObject(meta) && typeof meta.deprecated === 'string' ? meta.deprecated : undefined
+    }
+  }
+  return { name: typeof json.name === 'string' ? json.name : '', 'dist-tags': strings(json['dist-tags']), versions }
+}
+
+/**
+ * Package metadata from the configured registry, written through to `cacheDir` so the same
+ * checks work offline later.
+ */
+export function createRegistryClient(opts: RegistryOptions = {}) {
+  const url = (opts.url?.trim() || DEFAULT_REGISTRY).replace(/\/+$/, '')
+  const cachePath = (name: string) =>
+    opts.cacheDir ? path.join(opts.cacheDir, `${encodeURIComponent(name)}.json`) : null
+
+  async function fromCache(name: string): Promise<PackageMetadata | undefined> {
+    const file = cachePath(name)
+    return (file && slim(await readIndexFile(file).catch(() => undefined))) || undefined
+  }
+
+  return {
+    url,
+    /**
+     * Where the metadata comes from, for messages ("on <url>").
+     */
+    source: opts.offline ? 'in the offline package cache' : `on ${url}`,
+
+    /**
+     * Metadata for `name`. Null when the registry (or, offline, the cache) doesn't have the
+     * package; undefined when there's no telling (registry unreachable and nothing cached).
+     */
+    async metadata(name: string): Promise<PackageMetadata | null | undefined> {
+      if (opts.offline) return (await fromCache(name)) ?? null
+
+      let res: Response
+      try {
+        res = await fetch(`${url}/${name.replace('/', '%2f')}`, {
+          // The abbreviated form ("corgi") has everything needed and is much smaller.
+          headers: { accept: 'application/vnd.npm.install-v1+json; q=1.0, application/json; q=0.8' },
+          signal: AbortSignal.timeout(opts.timeoutMs ?? FETCH_TIMEOUT_MS)
+        })
+      } catch {
+        return fromCache(name)
+      }
+      if (res.status === 404) return null
+      if (!res.ok) return fromCache(name)
+
+      const meta = slim(await res.json().catch(() => null))
+      if (!meta) return fromCache(name)
+      const file = cachePath(name)
+      if (file) await writeIndexFile(file, meta).catch(() => {})
+      return meta
+    }
+  }
+}
+
+async function readJson(file: string): Promise<unknown> {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf-8'))
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Version of `name` the project runs with: the one installed in node_modules, else the lowest
+ * its package.json range allows. Undefined if the project doesn't depend on it.
+ */
+async function projectVersion(projectDir: string, name: string, declared: Record<string, string>) {
+  const installed = await readJson(path.join(projectDir, 'node_modules', name, 'package.json'))
+  if (isObject(installed) && typeof installed.version === 'string') return installed.version
+  return declared[name] ? (minVersion(declared[name]) ?? undefined) : undefined
+}
+
+/**
+ * Check every spec against the registry before anything is installed, and work out what to
+ * install. Packages the registry doesn't have, invalid specs and ranges no version matches are
+ * skipped. A version whose peerDependencies don't fit what the project has (React 19 vs a
+ * package that wants React 18, say) is swapped for the newest one in range that fits, if any.
+ *
+ * With `registry: false` only the specs themselves are checked.
+ */
+export async function checkDependencies(opts: {
+  projectDir: string
+  dependencies: InferredDependencies
+  registry?: RegistryOptions | false
+  onProgress?: (event: ApplyProgressEvent) => void
+}): Promise<InferredDependencies & { skipped: DependencyIssue[]; warnings: DependencyIssue[] }> {
+  const skipped: DependencyIssue[] = []
+  const warnings: DependencyIssue[] = []
+  const all = [...opts.dependencies.dependencies, ...opts.dependencies.devDependencies]
+  if (all.length === 0) return { dependencies: [], devDependencies: [], skipped, warnings }
+
+  const client = opts.registry === false ? null : createRegistryClient(opts.registry)
+  if (client) opts.onProgress?.({ type: 'check-dependencies', dependencies: all })
+  const pkg = await readJson(path.join(opts.projectDir, 'package.json'))
+  const declared = isObject(pkg) ? { ...strings(pkg.devDependencies), ...strings(pkg.dependencies) } : {}
+  const versions = new Map<string, string | undefined>()
+  const have = async (peer: string) => {
+    if (!versions.has(peer)) versions.set(peer, await projectVersion(opts.projectDir, peer, declared))
+    return versions.get(peer)
+  }
+
+  const resolve = async (spec: string): Promise<string | null> => {
+    const parsed = parseDependencySpec(spec)
+    if (!parsed || (parsed.range && !isValidRange(parsed.range) && !/^[\w.-]+$/.test(parsed.range))) {
+      skipped.push({ spec, kind: 'invalid', message: `"${spec}" is not a valid npm package spec.` })
+      return null
+    }
+    const { name, range } = parsed
+    if (!client) return spec
+
+    const meta = await client.metadata(name)
+    if (meta === undefined) {
+      warnings.push({ spec, kind: 'unverified', message: `Couldn't reach ${client.url} to check ${name}.` })
+      return spec
+    }
+    if (meta === null) {
+      skipped.push({ spec, kind: 'not-found', message: `There is no package named ${name} ${client.source}.` })
+      return null
+    }
+
+    const published = Object.keys(meta.versions)
+    const tagged = range ? meta['dist-tags'][range] : meta['dist-tags'].latest
+    const wanted = tagged ?? (range && isValidRange(range) ? maxSatisfying(published, range) : null)
+    if (!wanted || !meta.versions[wanted]) {
+      const latest = meta['dist-tags'].latest ? ` (latest is ${meta['dist-tags'].latest})` : ''
+      const message = `No version of ${name} matches "${range ?? 'latest'}"${latest}.`
+      skipped.push({ spec, kind: 'no-matching-version', message })
+      return null
+    }
+
+    const conflicts = async (version: string) => {
+      const out: string[] = []
+      for (const [peer, peerRange] of Object.entries(meta.versions[version].peerDependencies ?? {})) {
+        const v = await have(peer)
+        if (v && !satisfies(v, peerRange)) out.push(`${peer} ${peerRange} (the project has ${v})`)
+      }
+      return out
+    }
+
+    let chosen = wanted
+    const clash = await conflicts(wanted)
+    if (clash.length > 0) {
+      // Newest older version that fits, staying inside the range the spec asked for.
+      const candidates = published
+        .filter((v) => !isPrerelease(v) && compareVersions(v, wanted) < 0 && !meta.versions[v].deprecated)
+        .filter((v) => !range || tagged || satisfies(v, range))
+        .sort(compareVersions)
+        .reverse()
+      let fit: string | undefined
+      for (const v of candidates) {
+        if ((await conflicts(v)).length === 0) {
+          fit = v
+          break
+        }
+      }
+      const needs = `${name}@${wanted} needs ${clash.join(', ')}`
+      if (fit) {
+        chosen = fit
+        warnings.push({ spec, kind: 'peer-conflict', message: `${needs}; installed ${name}@${fit} instead.` })
+      } else {
+        warnings.push({ spec, kind: 'peer-conflict', message: `${needs}, and no version in range fits.` })
+      }
+    }
+
+    const deprecated = meta.versions[chosen].deprecated
+    if (deprecated) {
+      warnings.push({ spec, kind: 'deprecated', message: `${name}@${chosen} is deprecated: ${deprecated}` })
+    }
+
+    // Install what was checked: the spec's own range if its newest version was fine, else that exact version.
+    if (chosen !== wanted) return `${name}@${chosen}`
+    return range && !tagged ? spec : `${name}@^${chosen}`
+  }
+
+  const resolveAll = async (specs: string[]) => {
+    const out: string[] = []
+    for (const spec of specs) {
+      const resolved = await resolve(spec)
+      if (resolved) out.push(resolved)
+    }
+    return out
+  }
+
+  return {
+    dependencies: await resolveAll(opts.dependencies.dependencies),
+    devDependencies: await resolveAll(opts.dependencies.devDependencies),
+    skipped,
+    warnings
+  }
+}
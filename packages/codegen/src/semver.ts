@@ -0,0 +1,158 @@
+/**
+ * The slice of semver that dependency checks need: comparing versions and matching them against
+ * npm ranges (`^`, `~`, `x` wildcards, comparators, hyphen ranges and `||`). Prereleases only
+ * match ranges that name them.
+ */
+
+type Version = { major: number; minor: number; patch: number; prerelease: string }
+type PartialVersion = { major?: number; minor?: number; patch?: number; prerelease: string }
+type Comparator = { op: '<' | '<=' | '>' | '>=' | '='; version: Version }
+
+const VERSION = /^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/
+const PARTIAL = /^v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/
+
+export function parseVersion(v: string): Version | null {
+  const m = v.trim().match(VERSION)
+  if (!m) return null
+  return { major: Number(m[1]), minor: Number(m[2]), patch: Number(m[3]), prerelease: m[4] ?? '' }
+}
+
+export function isPrerelease(v: string) {
+  return !!parseVersion(v)?.prerelease
+}
+
+function compareParsed(a: Version, b: Version) {
+  const d = a.major - b.major || a.minor - b.minor || a.patch - b.patch
+  if (d !== 0) return d
+  if (a.prerelease === b.prerelease) return 0
+  // 1.0.0-beta < 1.0.0
+  if (!a.prerelease) return 1
+  if (!b.prerelease) return -1
+  return a.prerelease.localeCompare(b.prerelease, 'en', { numeric: true })
+}
+
+/**
+ * Negative, zero or positive like a sort comparator. Unparseable versions sort first.
+ */
+export function compareVersions(a: string, b: string) {
+  const pa = parseVersion(a)
+  const pb = parseVersion(b)
+  if (!pa || !pb) return (pa ? 1 : 0) - (pb ? 1 : 0)
+  return compareParsed(pa, pb)
+}
+
+function parsePartial(text: string): PartialVersion | null {
+  const m = text.match(PARTIAL)
+  if (!m) return null
+  const num = (s?: string) => (s === undefined || /^[xX*]$/.test(s) ? undefined : Number(s))
+  const major = num(m[1])
+  const minor = major === undefined ? undefined : num(m[2])
+  const patch = minor === undefined ? undefined : num(m[3])
+  return { major, minor, patch, prerelease: patch === undefined ? '' : (m[4] ?? '') }
+}
+
+const at = (major: number, minor = 0, patch = 0, prerelease = ''): Version => ({ major, minor, patch, prerelease })
+const lower = (p: PartialVersion) => at(p.major ?? 0, p.minor ?? 0, p.patch ?? 0, p.prerelease)
+// The first version past everything the partial covers: 1.2 -> 1.3.0, 1 -> 2.0.0.
+const next = (p: PartialVersion) =>
+  p.minor === undefined ? at(p.major! + 1) : p.patch === undefined ? at(p.major!, p.minor + 1) : null
+
+function comparators(token: string): Comparator[] | null {
+  const m = token.match(/^(<=|>=|<|>|=|\^|~>?)?(.*)$/)!
+  const op = m[1] ?? ''
+  const p = parsePartial(m[2] || '*')
+  if (!p) return null
+  if (p.major === undefined) return op === '<' || op === '>' ? [{ op: '<', version: at(0, 0, 0, '0') }] : []
+
+  const full = p.patch !== undefined
+  switch (op) {
+    case '':
+    case '=':
+      return full ? [{ op: '=', version: lower(p) }] : [{ op: '>=', version: lower(p) }, { op: '<', version: next(p)! }]
+    case '>':
+      return full ? [{ op: '>', version: lower(p) }] : [{ op: '>=', version: next(p)! }]
+    case '>=':
+      return [{ op: '>=', version: lower(p) }]
+    case '<':
+      return [{ op: '<', version: lower(p) }]
+    case '<=':
+      return full ? [{ op: '<=', version: lower(p) }] : [{ op: '<', version: next(p)! }]
+    case '^': {
+      // Up to the next change in the leftmost non-zero part.
+      const upper =
+        p.major > 0 || p.minor === undefined
+          ? at(p.major + 1)
+          : p.minor > 0 || p.patch === undefined
+            ? at(0, p.minor + 1)
+            : at(0, 0, p.patch + 1)
+      return [{ op: '>=', version: lower(p) }, { op: '<', version: upper }]
+    }
+    default: {
+      // ~ and ~>
+      const upper = p.minor === undefined ? at(p.major + 1) : at(p.major, p.minor + 1)
+      return [{ op: '>=', version: lower(p) }, { op: '<', version: upper }]
+    }
+  }
+}
+
+function parseRange(range: string): Comparator[][] | null {
+  const sets: Comparator[][] = []
+  for (const part of range.split('||')) {
+    const text = part.trim().replace(/(<=|>=|<|>|=|\^|~>?)\s+/g, '$1')
+    const hyphen = text.match(/^(\S+)\s+-\s+(\S+)$/)
+    const tokens = hyphen ? [`>=${hyphen[1]}`, `<=${hyphen[2]}`] : text.split(/\s+/).filter(Boolean)
+    const set: Comparator[] = []
+    for (const token of tokens.length > 0 ? tokens : ['*']) {
+      const c = comparators(token)
+      if (!c) return null
+      set.push(...c)
+    }
+    sets.push(set)
+  }
+  return sets
+}
+
+function test(v: Version, c: Comparator) {
+  const d = compareParsed(v, c.version)
+  if (c.op === '<') return d < 0
+  if (c.op === '<=') return d <= 0
+  if (c.op === '>') return d > 0
+  if (c.op === '>=') return d >= 0
+  return d === 0
+}
+
+/**
+ * Whether `version` is in `range`. False for anything that doesn't parse.
+ */
+export function satisfies(version: string, range: string) {
+  const v = parseVersion(version)
+  const sets = parseRange(range)
+  if (!v || !sets) return false
+  const sameTuple = (a: Version) => a.major === v.major && a.minor === v.minor && a.patch === v.patch
+  return sets.some(
+    (set) =>
+      set.every((c) => test(v, c)) &&
+      // A prerelease only counts if the set names a prerelease of the same major.minor.patch.
+      (!v.prerelease || set.some((c) => c.version.prerelease && sameTuple(c.version)))
+  )
+}
+
+export function isValidRange(range: string) {
+  return parseRange(range) !== null
+}
+
+/**
+ * The highest of `versions` in `range`, if any.
+ */
+export function maxSatisfying(versions: string[], range: string): string | null {
+  return versions.filter((v) => satisfies(v, range)).sort(compareVersions).pop() ?? null
+}
+
+/**
+ * The lowest version a range allows, roughly: its first x.y.z (zeros filled in). Enough to tell
+ * which major a package.json range like `^18.2.0` or `19` pins.
+ */
+export function minVersion(range: string): string | null {
+  const m = range.match(/(\d+)(?:\.(\d+))?(?:\.(\d+))?/)
+  return m ? `${m[1]}.${m[2] ?? 0}.${m[3] ?? 0}` : null
+}
@@ -0,0 +1,156 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import type { RevertInfo, SnapshotInfo, SnapshotStore } from './types'
+import { createFileTransaction, type FileState } from './transaction'
+import { ApplyError } from './errors'
+import { createObjectStore, isHash, isObject, readIndexFile, writeIndexFile } from './objects'
+import { createWriteLog } from './writeLog'
+
+const SNAPSHOTS_DIR = path.join('.vorbyte', 'snapshots')
+const DEFAULT_MAX_SNAPSHOTS = 50
+
+/**
+ * File contents by relative path: an object hash, or null for "doesn't exist".
+ */
+type FileRefs = Record<string, string | null>
+
+interface SnapshotIndex {
+  version: 1
+  snapshots: (Omit<SnapshotInfo, 'files'> & { files: FileRefs })[]
+  revert?: Omit<RevertInfo, 'files'> & { files: FileRefs }
+}
+
+const isFileRefs = (v: unknown): v is FileRefs =>
+  isObject(v) && Object.values(v).every((hash) => hash === null || isHash(hash))
+
+function isSnapshot(v: unknown): v is SnapshotIndex['snapshots'][number] {
+  return isObject(v) && typeof v.id === 'string' && typeof v.createdAt === 'string' && isFileRefs(v.files)
+}
+
+function isRevert(v: unknown): v is NonNullable<SnapshotIndex['revert']> {
+  return isObject(v) && typeof v.to === 'string' && typeof v.createdAt === 'string' && isFileRefs(v.files)
+}
+
+function toInfo<T extends { files: FileRefs }>(entry: T): Omit<T, 'files'> & { files: string[] } {
+  return { ...entry, files: Object.keys(entry.files) }
+}
+
+/**
+ * Per-run snapshots under .vorbyte/snapshots: `objects/<sha256>` holds each distinct file
+ * content once, `index.json` maps every run to the objects of the files it touched.
+ */
+export function createSnapshotStore(projectDir: string, opts?: { maxSnapshots?: number }): SnapshotStore {
+  const root = path.join(projectDir, SNAPSHOTS_DIR)
+  const indexPath = path.join(root, 'index.json')
+  const objects = createObjectStore(path.join(root, 'objects'))
+  const maxSnapshots = opts?.maxSnapshots ?? DEFAULT_MAX_SNAPSHOTS
+
+  async function readIndex(): Promise<SnapshotIndex> {
+    const data = await readIndexFile(indexPath)
+    if (!isObject(data)) return { version: 1, snapshots: [] }
+    return {
+      version: 1,
+      // Entries that don't have the expected shape are dropped rather than trusted.
+      snapshots: Array.isArray(data.snapshots) ? data.snapshots.filter(isSnapshot) : [],
+      revert: isRevert(data.revert) ? data.revert : undefined
+    }
+  }
+
+  const writeIndex = (index: SnapshotIndex) => writeIndexFile(indexPath, index)
+
+  async function storeFiles(files: Map<string, Buffer | null>): Promise<FileRefs> {
+    const refs: FileRefs = {}
+    for (const [rel, content] of files) refs[rel] = content === null ? null : await objects.put(content)
+    return refs
+  }
+
+  async function loadObject(hash: string | null): Promise<FileState> {
+    return hash === null ? null : objects.get(hash)
+  }
+
+  // Drop the oldest snapshots beyond the limit, then every object nothing refers to anymore.
+  async function prune(index: SnapshotIndex) {
+    index.snapshots = index.snapshots.slice(-maxSnapshots)
+    const used = new Set<string>()
+    for (const entry of [...index.snapshots, ...(index.revert ? [index.revert] : [])]) {
+      for (const hash of Object.values(entry.files)) if (hash) used.add(hash)
+    }
+    await objects.prune(used)
+  }
+
+  /**
+   * Set files to the given contents in one transaction. Returns what they held before.
+   */
+  async function restore(target: FileRefs): Promise<Map<string, Buffer | null>> {
+    const tx = createFileTransaction(projectDir)
+    try {
+      const states = new Map<string, FileState>()
+      for (const [rel, hash] of Object.entries(target)) states.set(rel, await loadObject(hash))
+      for (const [rel, state] of states) tx.stage(rel, state)
+      await tx.commit()
+      // A restore isn't a hand edit: don't flag these files as conflicts on the next run.
+      await createWriteLog(projectDir).record(states)
+      return tx.originals()
+    } catch (err) {
+      const { restored, notRestored } = await tx.rollback()
+      throw new ApplyError(err, { rolledBack: restored, notRestored })
+    }
+  }
+
+  return {
+    async record(id, originals) {
+      if (originals.size === 0) return null
+      const index = await readIndex()
+      const entry = { id, createdAt: new Date().toISOString(), files: await storeFiles(originals) }
+      index.snapshots = [...index.snapshots.filter((s) => s.id !== id), entry]
+      index.revert = undefined
+      await prune(index)
+      await writeIndex(index)
+      return toInfo(entry)
+    },
+
+    async list() {
+      return (await readIndex()).snapshots.map(toInfo)
+    },
+
+    async revert(ids, to) {
+      const index = await readIndex()
+      const wanted = new Set(ids)
+      const runs = index.snapshots.filter((s) => wanted.has(s.id))
+      if (runs.length < wanted.size) {
+        throw new Error('Some later runs have no snapshot anymore (old ones are pruned), so this revert is impossible.')
+      }
+
+      // Each file goes back to its content before the earliest of these runs touched it.
+      const target: FileRefs = {}
+      for (const run of [...runs].reverse()) Object.assign(target, run.files)
+      if (Object.keys(target).length === 0) throw new Error('No file changes to revert.')
+
+      const replaced = await restore(target)
+      index.revert = { to, createdAt: new Date().toISOString(), files: await storeFiles(replaced) }
+      await prune(index)
+      await writeIndex(index)
+      return toInfo(index.revert)
+    },
+
+    async undoRevert() {
+      const index = await readIndex()
+      const last = index.revert
+      if (!last) throw new Error('There is no revert to undo.')
+      await restore(last.files)
+      index.revert = undefined
+      await prune(index)
+      await writeIndex(index)
+      return toInfo(last)
+    },
+
+    async lastRevert() {
+      const { revert } = await readIndex()
+      return revert ? toInfo(revert) : null
+    },
+
+    async clear() {
+      await fs.rm(root, { recursive: true, force: true })
+    }
+  }
+}
@@ -0,0 +1,228 @@
+import fs from 'node:fs/promises'
+import fssync from 'node:fs'
+import path from 'node:path'
+import { spawn } from 'node:child_process'
+import type { ProjectToolDefinition, ProjectTools } from './types'
+
+const SKIP_NAMES = new Set(['node_modules', '.next', '.git', '.vorbyte', 'dist', 'out'])
+const MAX_READ_CHARS = 60_000
+const MAX_LIST_ENTRIES = 500
+const MAX_GREP_MATCHES = 200
+const MAX_GREP_FILE_BYTES = 1024 * 1024
+const MAX_TYPECHECK_LINES = 150
+const TYPECHECK_TIMEOUT_MS = 2 * 60 * 1000
+
+const DEFINITIONS: ProjectToolDefinition[] = [
+  {
+    name: 'read_file',
+    description: 'Read a text file from the project. Lines are numbered.',
+    parameters: {
+      type: 'object',
+      properties: {
+        path: { type: 'string', description: 'Path relative to the project root, e.g. "app/page.tsx".' },
+        startLine: { type: 'integer', description: 'First line to return (1-based). Optional.' },
+        endLine: { type: 'integer', description: 'Last line to return (inclusive). Optional.' }
+      },
+      required: ['path']
+    }
+  },
+  {
+    name: 'list_dir',
+    description: 'List the files and folders in a project directory (folders end with "/").',
+    parameters: {
+      type: 'object',
+      properties: {
+        path: { type: 'string', description: 'Directory relative to the project root. Defaults to the root.' },
+        recursive: { type: 'boolean', description: 'Include subdirectories. Defaults to false.' }
+      }
+    }
+  },
+  {
+    name: 'grep',
+    description: 'Search project files for literal text (not a regex). Returns "path:line: text" matches.',
+    parameters: {
+      type: 'object',
+      properties: {
+        pattern: { type: 'string', description: 'Text to find, e.g. "useState(".' },
+        path: { type: 'string', description: 'Directory or file to search, relative to the project root.' },
+        ignoreCase: { type: 'boolean' }
+      },
+      required: ['pattern']
+    }
+  },
+  {
+    name: 'typecheck',
+    description: "Run the project's TypeScript compiler (tsc --noEmit) and return its errors.",
+    parameters: { type: 'object', properties: {} }
+  }
+]
+
+/**
+ * Resolve a model-supplied path inside the project. Absolute paths, `..`, the tool-ignored
+ * folders (node_modules, .git, ...) and symlinks that lead out of the project are rejected.
+ */
+async function resolveInProject(projectDir: string, raw: unknown): Promise<{ abs: string; rel: string }> {
+  const cleaned = String(raw ?? '')
+    .replace(/\\/g, '/')
+    .trim()
+  if (cleaned.startsWith('/') || /^[A-Za-z]:\//.test(cleaned)) throw new Error(`Use a project-relative path: ${raw}`)
+
+  const normalized = path.posix.normalize(cleaned || '.').replace(/\/$/, '')
+  const rel = normalized === '.' ? '' : normalized
+  if (rel === '..' || rel.startsWith('../')) throw new Error(`Path is outside the project: ${raw}`)
+  if (rel && SKIP_NAMES.has(rel.split('/')[0])) throw new Error(`Not available to tools: ${rel.split('/')[0]}`)
+
+  const abs = path.join(projectDir, ...rel.split('/'))
+  const [root, real] = await Promise.all([fs.realpath(projectDir), fs.realpath(abs).catch(() => null)])
+  if (real && real !== root && !real.startsWith(root + path.sep)) throw new Error(`Path is outside the project: ${raw}`)
+  return { abs, rel }
+}
+
+async function readFileTool(projectDir: string, args: Record<string, unknown>) {
+  const { abs, rel } = await resolveInProject(projectDir, args.path)
+  const text = await fs.readFile(abs, 'utf-8').catch((err) => {
+    throw new Error(err?.code === 'ENOENT' ? `File not found: ${rel}` : `Could not read ${rel}: ${err?.message}`)
+  })
+
+  const lines = text.replace(/\n$/, '').split('\n')
+  const start = Math.max(1, Number(args.startLine) || 1)
+  const end = Math.min(lines.length, Number(args.endLine) || lines.length)
+  let out = lines
+    .slice(start - 1, end)
+    .map((l, i) => `${start + i}: ${l}`)
+    .join('\n')
+  if (out.length > MAX_READ_CHARS) {
+    out = `${out.slice(0, MAX_READ_CHARS)}\n… (truncated; ${lines.length} lines total, use startLine/endLine)`
+  }
+  return out || '(empty file)'
+}
+
+async function listDirTool(projectDir: string, args: Record<string, unknown>) {
+  const { abs, rel } = await resolveInProject(projectDir, args.path)
+  const out: string[] = []
+
+  async function walk(dir: string, prefix: string) {
+    const entries = await fs.readdir(dir, { withFileTypes: true })
+    entries.sort((a, b) => a.name.localeCompare(b.name))
+    for (const e of entries) {
+      if (out.length >= MAX_LIST_ENTRIES) return
+      if (SKIP_NAMES.has(e.name)) continue
+      const name = prefix ? `${prefix}/${e.name}` : e.name
+      if (e.isDirectory()) {
+        out.push(`${name}/`)
+        if (args.recursive) await walk(path.join(dir, e.name), name)
+      } else {
+        out.push(name)
+      }
+    }
+  }
+
+  await walk(abs, '').catch((err) => {
+    throw new Error(err?.code === 'ENOENT' ? `Directory not found: ${rel || '.'}` : String(err?.message ?? err))
+  })
+  if (out.length === 0) return '(empty directory)'
+  if (out.length >= MAX_LIST_ENTRIES) out.push(`… (truncated at ${MAX_LIST_ENTRIES} entries)`)
+  return out.join('\n')
+}
+
+async function grepTool(projectDir: string, args: Record<string, unknown>) {
+  // A plain substring search: a regex from the model could backtrack for minutes on one line,
+  // and this runs on the app's main thread where nothing can interrupt it.
+  const ignoreCase = !!args.ignoreCase
+  const needle = ignoreCase ? String(args.pattern ?? '').toLowerCase() : String(args.pattern ?? '')
+  const found = (line: string) => (ignoreCase ? line.toLowerCase() : line).includes(needle)
+  const { abs } = await resolveInProject(projectDir, args.path)
+  const matches: string[] = []
+
+  async function searchFile(file: string) {
+    const stat = await fs.stat(file)
+    if (stat.size > MAX_GREP_FILE_BYTES) return
+    const text = await fs.readFile(file, 'utf-8')
+    if (text.includes('\u0000')) return // binary
+    const rel = path.relative(projectDir, file).split(path.sep).join('/')
+    text.split('\n').forEach((line, i) => {
+      if (matches.length >= MAX_GREP_MATCHES || !found(line)) return
+      matches.push(`${rel}:${i + 1}: ${line.trim().slice(0, 200)}`)
+    })
+  }
+
+  async function walk(dir: string) {
+    const entries = await fs.readdir(dir, { withFileTypes: true })
+    for (const e of entries) {
+      if (matches.length >= MAX_GREP_MATCHES) return
+      if (SKIP_NAMES.has(e.name)) continue
+      const p = path.join(dir, e.name)
+      if (e.isDirectory()) await walk(p)
+      else if (e.isFile()) await searchFile(p)
+    }
+  }
+
+  const stat = await fs.stat(abs).catch(() => null)
+  if (!stat) throw new Error(`Not found: ${String(args.path)}`)
+  if (stat.isDirectory()) await walk(abs)
+  else await searchFile(abs)
+
+  if (matches.length === 0) return 'No matches.'
+  if (matches.length >= MAX_GREP_MATCHES) matches.push(`… (stopped at ${MAX_GREP_MATCHES} matches)`)
+  return matches.join('\n')
+}
+
+function typecheckTool(projectDir: string, signal?: AbortSignal): Promise<string> {
+  const bin = path.join(projectDir, 'node_modules', '.bin', process.platform === 'win32' ? 'tsc.cmd' : 'tsc')
+  if (!fssync.existsSync(bin)) {
+    return Promise.resolve('TypeScript is not installed in this project (node_modules/.bin/tsc is missing).')
+  }
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(bin, ['--noEmit', '--pretty', 'false'], {
+      cwd: projectDir,
+      stdio: ['ignore', 'pipe', 'pipe'],
+      shell: process.platform === 'win32'
+    })
+    let output = ''
+    child.stdout?.on('data', (b: Buffer) => (output += b.toString('utf-8')))
+    child.stderr?.on('data', (b: Buffer) => (output += b.toString('utf-8')))
+
+    const stop = () => child.kill()
+    const timer = setTimeout(stop, TYPECHECK_TIMEOUT_MS)
+    signal?.addEventListener('abort', stop, { once: true })
+
+    child.on('error', reject)
+    child.on('exit', (code) => {
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', stop)
+      if (signal?.aborted) return reject(new Error('Type check cancelled'))
+      if (code === 0) return resolve('No type errors.')
+
+      const lines = output.split(/\r?\n/).filter(Boolean)
+      const shown = lines.slice(0, MAX_TYPECHECK_LINES)
+      if (lines.length > shown.length) shown.push(`… (${lines.length - shown.length} more lines)`)
+      resolve(code === null ? `tsc was stopped after ${TYPECHECK_TIMEOUT_MS / 1000}s.` : shown.join('\n'))
+    })
+  })
+}
+
+/**
+ * Read-only tools for an agent working on a project: read_file, list_dir, grep and typecheck.
+ * `run` throws on bad input (missing file, path outside the project); callers usually hand
+ * the message back to the model.
+ */
+export function createProjectTools(opts: { projectDir: string; signal?: AbortSignal }): ProjectTools {
+  return {
+    definitions: DEFINITIONS,
+    async run(name, args) {
+      switch (name) {
+        case 'read_file':
+          return readFileTool(opts.projectDir, args)
+        case 'list_dir':
+          return listDirTool(opts.projectDir, args)
+        case 'grep':
+          return grepTool(opts.projectDir, args)
+        case 'typecheck':
+          return typecheckTool(opts.projectDir, opts.signal)
+        default:
+          throw new Error(`Unknown tool: ${name}`)
+      }
+    }
+  }
+}
@@ -0,0 +1,125 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+
+/**
+ * The new content of a file, or null to delete it.
+ */
+export type FileState = string | Buffer | null
+
+/**
+ * Remove folders left empty by a delete or rename, up to (not including) the project root.
+ */
+export async function removeEmptyParents(projectDir: string, file: string) {
+  let dir = path.dirname(file)
+  while (dir !== projectDir && dir.startsWith(projectDir + path.sep)) {
+    const entries = await fs.readdir(dir).catch(() => null)
+    if (!entries || entries.length > 0) return
+    await fs.rmdir(dir).catch(() => {})
+    dir = path.dirname(dir)
+  }
+}
+
+async function readOriginal(file: string): Promise<Buffer | null> {
+  try {
+    return await fs.readFile(file)
+  } catch (err) {
+    if (err instanceof Error && 'code' in err && err.code === 'ENOENT') return null
+    throw err
+  }
+}
+
+/**
+ * Groups file changes so they land together or not at all. Staged content is written to temp
+ * files next to the targets first, then each one is moved into place (a rename, so no file is
+ * ever half-written). Every file is backed up in memory before it's touched, and rollback()
+ * puts all of them back.
+ */
+export function createFileTransaction(projectDir: string) {
+  const staged = new Map<string, FileState>()
+  // Original bytes by relative path; null = the file didn't exist.
+  const backups = new Map<string, Buffer | null>()
+  const abs = (rel: string) => path.join(projectDir, ...rel.split('/'))
+
+  async function backup(rel: string) {
+    if (!backups.has(rel)) backups.set(rel, await readOriginal(abs(rel)))
+  }
+
+  return {
+    /**
+     * Set the final state of a file. Nothing is written until commit().
+     */
+    stage(rel: string, state: FileState) {
+      staged.set(rel, state)
+    },
+
+    /**
+     * Back up a file that a later step will change (package.json, lockfiles) so that
+     * rollback() restores it too.
+     */
+    backup,
+
+    /**
+     * Original content of every file touched so far (null = it didn't exist), e.g. to keep
+     * as a snapshot after a successful commit.
+     */
+    originals(): Map<string, Buffer | null> {
+      return new Map(backups)
+    },
+
+    async commit() {
+      const temps = new Map<string, string>()
+      try {
+        for (const [rel, state] of staged) {
+          if (state === null) continue
+          const tmp = `${abs(rel)}.${process.pid}-${Date.now()}.vorbyte-tmp`
+          await fs.mkdir(path.dirname(tmp), { recursive: true })
+          temps.set(rel, tmp)
+          await fs.writeFile(tmp, state)
+        }
+
+        for (const [rel, state] of staged) {
+          await backup(rel)
+          if (state === null) {
+            await fs.rm(abs(rel), { force: true })
+            await removeEmptyParents(projectDir, abs(rel))
+          } else {
+            await fs.rename(temps.get(rel)!, abs(rel))
+            temps.delete(rel)
+          }
+        }
+      } finally {
+        for (const tmp of temps.values()) {
+          await fs.rm(tmp, { force: true }).catch(() => {})
+          await removeEmptyParents(projectDir, tmp)
+        }
+      }
+    },
+
+    /**
+     * Restore every backed-up file, newest change first. Returns what was restored and
+     * anything that couldn't be.
+     */
+    async rollback(): Promise<{ restored: string[]; notRestored: string[] }> {
+      const restored: string[] = []
+      const notRestored: string[] = []
+      for (const [rel, original] of [...backups].reverse()) {
+        try {
+          if (original === null) {
+            // Backed up but never created (e.g. a lockfile the package manager didn't write).
+            if (!(await fs.stat(abs(rel)).catch(() => null))) continue
+            await fs.rm(abs(rel), { force: true })
+            await removeEmptyParents(projectDir, abs(rel))
+          } else {
+            await fs.mkdir(path.dirname(abs(rel)), { recursive: true })
+            await fs.writeFile(abs(rel), original)
+          }
+          restored.push(rel)
+        } catch {
+          notRestored.push(rel)
+        }
+      }
+      backups.clear()
+      return { restored: restored.reverse(), notRestored }
+    }
+  }
+}
@@ -0,0 +1,135 @@
+import fssync from 'node:fs'
+import path from 'node:path'
+import { createRequire } from 'node:module'
+import type ts from 'typescript'
+import type { FileChange, TypecheckDiagnostic, TypecheckResult } from './types'
+import { simulate } from './apply'
+
+const TS_EXTENSIONS = /\.(ts|tsx|mts|cts)$/
+
+/**
+ * The project's own TypeScript, so diagnostics match what its build reports.
+ */
+function loadTypeScript(projectDir: string): typeof ts | null {
+  try {
+    return createRequire(path.join(projectDir, 'package.json'))('typescript')
+  } catch {
+    return null
+  }
+}
+
+function toDiagnostic(t: typeof ts, projectDir: string, d: ts.Diagnostic): TypecheckDiagnostic {
+  const message = t.flattenDiagnosticMessageText(d.messageText, '\n')
+  if (!d.file || d.start === undefined) return { code: d.code, message }
+  const { line, character } = d.file.getLineAndCharacterOfPosition(d.start)
+  const file = path.relative(projectDir, d.file.fileName).split(path.sep).join('/')
+  return { file, line: line + 1, column: character + 1, code: d.code, message }
+}
+
+const diagnosticKey = (d: TypecheckDiagnostic) => `${d.file}|${d.code}|${d.message}`
+
+/**
+ * What the last check parsed, so the next check of the same project (a repair round, usually)
+ * re-parses only the files whose text changed and hands TypeScript the old program to reuse.
+ * Only the most recent project is kept.
+ */
+let previous: {
+  projectDir: string
+  settings: string
+  program?: ts.Program
+  sourceFiles: Map<string, ts.SourceFile>
+} | null = null
+
+function reuseFor(t: typeof ts, projectDir: string, options: ts.CompilerOptions) {
+  const settings = `${t.version}|${JSON.stringify(options)}`
+  if (previous?.projectDir !== projectDir || previous.settings !== settings) {
+    previous = { projectDir, settings, sourceFiles: new Map() }
+  }
+  return previous
+}
+
+/**
+ * Typecheck the project as it would be after `files` are applied, without writing anything:
+ * the TypeScript compiler runs in memory against the project's tsconfig.json, with the changed
+ * files overlaid on the ones on disk. Reports errors in the changed files, plus errors elsewhere
+ * that the changes caused (ones the project on disk doesn't have already).
+ *
+ * Runs synchronously once the changes are worked out; large projects take a few seconds the
+ * first time, less on later checks of the same project since unchanged files aren't re-parsed.
+ */
+export async function typecheckChanges(opts: { projectDir: string; files: FileChange[] }): Promise<TypecheckResult> {
+  const configPath = path.join(opts.projectDir, 'tsconfig.json')
+  const skip = (reason: string): TypecheckResult => ({ checked: false, skipped: reason, diagnostics: [] })
+  if (!fssync.existsSync(configPath)) return skip('The project has no tsconfig.json.')
+  const t = loadTypeScript(opts.projectDir)
+  if (!t) return skip('TypeScript is not installed in the project.')
+
+  const { final } = await simulate(opts.projectDir, opts.files)
+  const overlay = new Map<string, string | null>()
+  for (const [rel, state] of final) {
+    overlay.set(path.join(opts.projectDir, ...rel.split('/')), state === null ? null : state.toString())
+  }
+  const inOverlay = (file: string) => overlay.has(path.resolve(file))
+
+  const { config, error } = t.readConfigFile(configPath, t.sys.readFile)
+  if (error) return skip(toDiagnostic(t, opts.projectDir, error).message)
+  const parsed = t.parseJsonConfigFileContent(config, t.sys, opts.projectDir, undefined, configPath)
+  const options: ts.CompilerOptions = { ...parsed.options, noEmit: true, incremental: false, composite: false }
+
+  const host = t.createCompilerHost(options, true)
+  const { fileExists, readFile } = host
+  host.fileExists = (file) => (inOverlay(file) ? overlay.get(path.resolve(file)) !== null : fileExists(file))
+  host.readFile = (file) => (inOverlay(file) ? (overlay.get(path.resolve(file)) ?? undefined) : readFile(file))
+
+  const reuse = reuseFor(t, opts.projectDir, options)
+  host.getSourceFile = (file, languageVersion) => {
+    const text = host.readFile(file)
+    if (text === undefined) return undefined
+    const { languageVersion: target, impliedNodeFormat } =
+      typeof languageVersion === 'object' ? languageVersion : { languageVersion, impliedNodeFormat: undefined }
+    const key = `${path.resolve(file)}|${target}|${impliedNodeFormat}`
+    const cached = reuse.sourceFiles.get(key)
+    if (cached?.text === text) return cached
+    const sourceFile = t.createSourceFile(file, text, languageVersion, true)
+    reuse.sourceFiles.set(key, sourceFile)
+    return sourceFile
+  }
+  const createProgram = (rootNames: readonly string[]) =>
+    (reuse.program = t.createProgram({ rootNames, options, host, oldProgram: reuse.program }))
+
+  // New TypeScript files join the program even if nothing imports them yet, like `include` would do.
+  const added = [...overlay].flatMap(([file, content]) =>
+    content !== null && TS_EXTENSIONS.test(file) && !file.includes(`${path.sep}node_modules${path.sep}`) ? [file] : []
+  )
+  const rootNames = [...new Set([...parsed.fileNames.map((f) => path.resolve(f)), ...added])].filter((f) =>
+    host.fileExists(f)
+  )
+
+  const errorsOf = (program: ts.Program) =>
+    t
+      .getPreEmitDiagnostics(program)
+      .filter((d) => d.category === t.DiagnosticCategory.Error)
+      .map((d) => toDiagnostic(t, opts.projectDir, d))
+
+  const errors = errorsOf(createProgram(rootNames))
+  const changed = new Set(final.keys())
+  const elsewhere = errors.filter((d) => !d.file || !changed.has(d.file))
+  if (elsewhere.length === 0) return { checked: true, diagnostics: errors }
+
+  // Errors in untouched files may predate this run; only keep the ones the project on disk doesn't have.
+  overlay.clear()
+  const before = new Set(errorsOf(createProgram(parsed.fileNames)).map(diagnosticKey))
+  const caused = errors.filter((d) => (d.file && changed.has(d.file)) || !before.has(diagnosticKey(d)))
+  return { checked: true, diagnostics: caused }
+}
+
+/**
+ * Diagnostics in tsc's `file(line,col): error TSxxxx: message` form, at most `max` of them.
+ */
+export function formatDiagnostics(diagnostics: TypecheckDiagnostic[], max = 50) {
+  const lines = diagnostics
+    .slice(0, max)
+    .map((d) => `${d.file ? `${d.file}(${d.line},${d.column}): ` : ''}error TS${d.code}: ${d.message}`)
+  if (diagnostics.length > max) lines.push(`… (${diagnostics.length - max} more errors)`)
+  return lines.join('\n')
+}
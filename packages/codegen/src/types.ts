@@ -1,8 +1,79 @@
-export interface FileChange {
+/**
+ * Replace (or create) a file with the given content.
+ */
+export interface FileWrite {
+  kind?: 'write'
   path: string
   content: string
 }
 
+/**
+ * Change an existing file with a unified diff (`@@ -l,n +l,n @@` hunks).
+ */
+export interface FilePatch {
+  kind: 'patch'
+  path: string
+  patch: string
+}
+
+export interface SearchReplaceEdit {
+  search: string
+  replace: string
+}
+
+/**
+ * Change an existing file with SEARCH/REPLACE blocks, applied in order.
+ */
+export interface FileEdit {
+  kind: 'edit'
+  path: string
+  edits: SearchReplaceEdit[]
+}
+
+/**
+ * Remove a file ("Delete: path").
+ */
+export interface FileDelete {
+  kind: 'delete'
+  path: string
+}
+
+/**
+ * Move a file ("Rename: from -> to"). `path` is where it is now.
+ */
+export interface FileRename {
+  kind: 'rename'
+  path: string
+  to: string
+  /**
+   * New content for the moved file. Set in plans where the batch also changed the file.
+   */
+  content?: string
+}
+
+export type FileChange = FileWrite | FilePatch | FileEdit | FileDelete | FileRename
+
+/**
+ * A diff hunk or SEARCH/REPLACE block that couldn't be matched against the current file.
+ */
+export interface EditFailure {
+  /**
+   * 1-based position of the hunk / block in the change.
+   */
+  index: number
+  /**
+   * The hunk's `@@` line, or the first line of the SEARCH text.
+   */
+  header: string
+  reason: string
+}
+
+/**
+ * - markdown: "File:" blocks parsed from free text (parseAiResponse)
+ * - json: a reply matching AI_RESPONSE_SCHEMA (parseStructuredAiResponse)
+ */
+export type AiResponseFormat = 'markdown' | 'json'
+
 export interface ParsedAiResponse {
   /**
    * The human-readable assistant message (everything before the first File: block),
@@ -10,11 +81,365 @@ export interface ParsedAiResponse {
    */
   summary: string
   files: FileChange[]
+  /**
+   * npm specs: bare names or `name@range` (`zod@^3`, `next-auth@beta`).
+   */
   dependencies: string[]
   raw: string
+  /**
+   * How the reply was read. parseStructuredAiResponse reports 'markdown' when it fell back.
+   */
+  format: AiResponseFormat
 }
 
 export interface ApplyResult {
   writtenFiles: string[]
+  deletedFiles: string[]
+  renamedFiles: { from: string; to: string }[]
   installedDependencies: string[]
+  /**
+   * Installed as devDependencies (`-D`).
+   */
+  installedDevDependencies: string[]
+  /**
+   * Wanted but not installed: invalid specs, packages the registry doesn't have, ranges no
+   * version matches.
+   */
+  skippedDependencies: DependencyIssue[]
+  /**
+   * Installed, but worth a look (peer conflicts, deprecations, or the registry was unreachable).
+   */
+  dependencyWarnings: DependencyIssue[]
+  /**
+   * Patches and edits with hunks that didn't match. Those files are left untouched.
+   */
+  failedEdits: { path: string; failures: EditFailure[] }[]
+  /**
+   * Files edited by hand since the AI last wrote them, where the hand edits were merged into the
+   * new version. Also listed in writtenFiles.
+   */
+  mergedFiles: string[]
+  /**
+   * Files where hand edits and the AI's new version overlapped, and how each was settled.
+   */
+  conflicts: { path: string; resolution: ConflictResolution }[]
+  /**
+   * Set when applyChanges was given a snapshotId and the run changed files.
+   */
+  snapshot?: SnapshotInfo
+}
+
+/**
+ * What applying a change would do to its file. 'failed' means a patch or edit didn't match.
+ * 'merged' and 'conflict' are full rewrites of a file that was edited by hand since the AI last
+ * wrote it: the hand edits were merged in cleanly, or they overlap with the AI's changes.
+ */
+export type PlannedChangeStatus =
+  | 'created'
+  | 'modified'
+  | 'unchanged'
+  | 'deleted'
+  | 'renamed'
+  | 'failed'
+  | 'merged'
+  | 'conflict'
+
+/**
+ * A full rewrite that clashes with hand edits. Each side is compared to `base`, the content the
+ * AI last wrote to the file.
+ */
+export interface FileConflict {
+  base: string
+  /**
+   * The file on disk, with the hand edits.
+   */
+  ours: string
+  /**
+   * The AI's new version.
+   */
+  theirs: string
+  /**
+   * Both sides merged, with git-style conflict markers around the `regions` they both changed.
+   */
+  merged: string
+  regions: number
+}
+
+/**
+ * How to settle a conflict: keep the file on disk, take the AI's version, or write the merge
+ * with conflict markers to sort out by hand.
+ */
+export type ConflictResolution = 'ours' | 'theirs' | 'markers'
+
+export interface PlannedChange {
+  /**
+   * Where the file ends up (the new path for renames).
+   */
+  path: string
+  /**
+   * Renames: where the file is now.
+   */
+  from?: string
+  status: PlannedChangeStatus
+  /**
+   * Unified diff from the current file to the formatted result (to the marked-up merge for
+   * conflicts). Empty for unchanged and failed, and for renames that don't change the content.
+   */
+  diff: string
+  failures?: EditFailure[]
+  conflict?: FileConflict
+  /**
+   * Pass to applyChanges to apply this entry. Writes, patches and edits become a write of the
+   * previewed content, so what gets written is exactly what was reviewed.
+   */
+  change: FileChange
+}
+
+export interface ApplyPlan {
+  files: PlannedChange[]
+  /**
+   * Dependencies that would be installed (listed or inferred, and not in package.json yet).
+   */
+  dependencies: string[]
+  /**
+   * Same, for the ones that would go to devDependencies.
+   */
+  devDependencies: string[]
+  skippedDependencies: DependencyIssue[]
+  dependencyWarnings: DependencyIssue[]
+}
+
+export interface TypecheckDiagnostic {
+  /**
+   * Relative path; unset for errors not tied to a file (e.g. a bad compiler option).
+   */
+  file?: string
+  /**
+   * 1-based.
+   */
+  line?: number
+  column?: number
+  code: number
+  message: string
+}
+
+export interface TypecheckResult {
+  /**
+   * False when the project can't be typechecked (no tsconfig.json, TypeScript not installed);
+   * `skipped` says why.
+   */
+  checked: boolean
+  skipped?: string
+  diagnostics: TypecheckDiagnostic[]
+}
+
+/**
+ * A problem reported by a project script (build, lint), parsed from its output.
+ */
+export interface VerifyProblem {
+  script: string
+  /**
+   * Relative path, when the output names one.
+   */
+  file?: string
+  line?: number
+  column?: number
+  severity: 'error' | 'warning'
+  message: string
+  /**
+   * The ESLint rule, for lint problems.
+   */
+  rule?: string
+}
+
+export interface VerifyStep {
+  script: string
+  status: 'passed' | 'failed' | 'skipped'
+  /**
+   * Why the script was skipped, or timed out.
+   */
+  reason?: string
+  durationMs: number
+  problems: VerifyProblem[]
+  /**
+   * The last lines of output, for failures the parser can't make sense of.
+   */
+  output: string
+}
+
+export interface VerifyResult {
+  /**
+   * No script failed (skipped ones don't count).
+   */
+  ok: boolean
+  steps: VerifyStep[]
+}
+
+export type VerifyProgressEvent =
+  | { type: 'script'; script: string; index: number; total: number }
+  | { type: 'output'; script: string; line: string }
+
+export type PackageManager = 'pnpm' | 'yarn' | 'npm'
+
+/**
+ * Where applyChanges checks packages before installing them. `url` can point at a local
+ * verdaccio-style registry. Metadata fetched from it is kept in `cacheDir` (one
+ * `<encoded name>.json` per package), which is all that's consulted when `offline` is set.
+ */
+export interface RegistryOptions {
+  /**
+   * Defaults to https://registry.npmjs.org.
+   */
+  url?: string
+  cacheDir?: string
+  offline?: boolean
+  timeoutMs?: number
+}
+
+export type DependencyIssueKind =
+  | 'invalid'
+  | 'not-found'
+  | 'no-matching-version'
+  | 'peer-conflict'
+  | 'deprecated'
+  | 'unverified'
+  | 'denied'
+  | 'needs-approval'
+  | 'not-approved'
+
+export interface DependencyIssue {
+  /**
+   * The spec as listed or inferred.
+   */
+  spec: string
+  kind: DependencyIssueKind
+  message: string
+}
+
+/**
+ * Which packages may be installed. The global policy and the project's own
+ * (`.vorbyte/dependency-policy.json`) are combined; see applyDependencyPolicy.
+ */
+export interface DependencyPolicy {
+  /**
+   * Installed without asking. Exact names or `@scope/*`.
+   */
+  allow?: string[]
+  /**
+   * Never installed, even if allowlisted. Exact names or `@scope/*`.
+   */
+  deny?: string[]
+  /**
+   * Ask before installing anything that isn't allowlisted. Without it, only suspected
+   * typosquats are held back for approval.
+   */
+  requireApproval?: boolean
+  /**
+   * Install without running any package's install scripts: `--ignore-scripts`, or YARN_ENABLE_SCRIPTS=0 on Yarn 2+.
+   */
+  ignoreScripts?: boolean
+}
+
+/**
+ * A package held back until someone approves it.
+ */
+export interface PendingDependency {
+  /**
+   * What would be installed, e.g. `react-icon@^1.0.0`.
+   */
+  spec: string
+  name: string
+  dev: boolean
+  reason: 'typosquat' | 'not-allowlisted'
+  /**
+   * For suspected typosquats: the package the name resembles.
+   */
+  similarTo?: string
+  message: string
+}
+
+/**
+ * Packages a set of files imports, split the way package.json splits them.
+ */
+export interface InferredDependencies {
+  /**
+   * Loaded at runtime by app code.
+   */
+  dependencies: string[]
+  /**
+   * Only needed to build, test or typecheck: type-only imports, imports from tests and tool
+   * configs, and @types/* packages.
+   */
+  devDependencies: string[]
+}
+
+/**
+ * Emitted by applyChanges while it works, so callers can show what's happening
+ * (a slow run is often the dependency install, not the model).
+ */
+export type ApplyProgressEvent =
+  | { type: 'write'; path: string; index: number; total: number }
+  | { type: 'check-dependencies'; dependencies: string[] }
+  | { type: 'install'; packageManager: PackageManager; dependencies: string[]; dev?: boolean }
+  | { type: 'install-output'; line: string }
+
+/**
+ * Same shape as the engine's ToolDefinition; `parameters` is a JSON Schema object.
+ */
+export interface ProjectToolDefinition {
+  name: string
+  description: string
+  parameters: Record<string, unknown>
+}
+
+export interface ProjectTools {
+  definitions: ProjectToolDefinition[]
+  /**
+   * Run a tool by name. Resolves with the text to show the model.
+   */
+  run(name: string, args: Record<string, unknown>): Promise<string>
+}
+
+/**
+ * Pre-run contents of the files one AI run touched, keyed by the run's assistant message id.
+ */
+export interface SnapshotInfo {
+  id: string
+  createdAt: string
+  files: string[]
+}
+
+/**
+ * The last revert, kept so it can be undone until the next run is recorded.
+ */
+export interface RevertInfo {
+  /**
+   * Message id the project was reverted to.
+   */
+  to: string
+  createdAt: string
+  files: string[]
+}
+
+export interface SnapshotStore {
+  /**
+   * Save the pre-run contents (null = the file didn't exist) under `id`, then prune old
+   * snapshots. Recording a run makes the last revert final.
+   */
+  record(id: string, originals: Map<string, Buffer | null>): Promise<SnapshotInfo | null>
+  list(): Promise<SnapshotInfo[]>
+  /**
+   * Undo the runs with these snapshot ids (everything after the message being reverted to),
+   * as one transaction. `to` is remembered for the revert banner. Returns the files restored.
+   */
+  revert(ids: string[], to: string): Promise<RevertInfo>
+  /**
+   * Put back what the last revert replaced.
+   */
+  undoRevert(): Promise<RevertInfo>
+  lastRevert(): Promise<RevertInfo | null>
+  /**
+   * Forget all snapshots (e.g. when the chat is cleared).
+   */
+  clear(): Promise<void>
 }
@@ -0,0 +1,200 @@
+import fs from 'node:fs/promises'
+import fssync from 'node:fs'
+import path from 'node:path'
+import { spawn, type ChildProcess } from 'node:child_process'
+import type { PackageManager, VerifyProblem, VerifyProgressEvent, VerifyResult, VerifyStep } from './types'
+import { resolvePackageManager } from './deps'
+
+const DEFAULT_SCRIPTS = ['lint', 'build']
+const SCRIPT_TIMEOUT_MS = 5 * 60 * 1000
+const MAX_OUTPUT_CHARS = 2_000_000
+const OUTPUT_TAIL_LINES = 40
+
+const ANSI = /\x1b\[[0-9;]*[A-Za-z]/g
+const SOURCE = String.raw`\.?\/?[^\s:()'"\[\]]+\.(?:tsx?|jsx?|mjs|cjs|css|scss)`
+// "./app/page.tsx" alone on a line: ESLint and webpack put the problems below it.
+const FILE_HEADER = new RegExp(`^(${SOURCE})$`)
+// "./app/page.tsx:5:10" alone on a line: next build's type errors, message on the next line.
+const LOCATION = new RegExp(`^(${SOURCE}):(\\d+):(\\d+)$`)
+// "app/page.tsx(5,10): error TS2322: …" (tsc) or "app/page.tsx:5:10: …".
+const INLINE = new RegExp(
+  `^(${SOURCE})(?:\\((\\d+),(\\d+)\\)|:(\\d+):(\\d+)):?\\s+(?:(error|warning)\\b:?\\s*)?(.+)$`,
+  'i'
+)
+// "12:7  Error: 'x' is never used.  @typescript-eslint/no-unused-vars" (stylish / next lint).
+const ESLINT = /^\s*(\d+):(\d+)\s+(error|warning):?\s+(.+?)(?:\s{2,}(@?[\w-]+(?:\/[\w-]+)*))?$/i
+
+/**
+ * The first text after line `from`, without the box drawing next/swc put around messages.
+ */
+function textAfter(lines: string[], from: number) {
+  for (let i = from; i < Math.min(lines.length, from + 4); i++) {
+    const text = lines[i].replace(/^[\s×x│|]+(?=\S)/, '').trim()
+    if (text) return text
+  }
+  return ''
+}
+
+/**
+ * Pull file/line/message problems out of build and lint output (next build, next lint /
+ * ESLint, tsc). Lines it doesn't recognize are ignored; the raw output tail covers those.
+ */
+export function parseScriptOutput(script: string, output: string, projectDir?: string): VerifyProblem[] {
+  const problems: VerifyProblem[] = []
+  const seen = new Set<string>()
+  const toRel = (file: string) => {
+    const abs = projectDir && path.isAbsolute(file) ? path.relative(projectDir, file) : file
+    return abs.split(path.sep).join('/').replace(/^\.\//, '')
+  }
+  const add = (p: Omit<VerifyProblem, 'script'>) => {
+    const key = `${p.file}|${p.line}|${p.column}|${p.message}`
+    if (!p.message || seen.has(key)) return
+    seen.add(key)
+    problems.push({ script, ...p })
+  }
+
+  const lines = output.replace(ANSI, '').split(/\r?\n/)
+  let file: string | undefined
+  for (const [i, raw] of lines.entries()) {
+    const line = raw.trim()
+    let m: RegExpMatchArray | null
+    if ((m = line.match(LOCATION))) {
+      const message = textAfter(lines, i + 1).replace(/^Type error:\s*/, '')
+      add({ file: toRel(m[1]), line: Number(m[2]), column: Number(m[3]), severity: 'error', message })
+    } else if ((m = line.match(INLINE))) {
+      const severity = m[6]?.toLowerCase() === 'warning' ? 'warning' : 'error'
+      add({ file: toRel(m[1]), line: Number(m[2] ?? m[4]), column: Number(m[3] ?? m[5]), severity, message: m[7] })
+    } else if ((m = line.match(FILE_HEADER))) {
+      file = toRel(m[1])
+    } else if (file && (m = raw.match(ESLINT))) {
+      const severity = m[3].toLowerCase() === 'warning' ? 'warning' : 'error'
+      add({ file, line: Number(m[1]), column: Number(m[2]), severity, message: m[4], rule: m[5] })
+    } else if (/^(Error|Module not found):/.test(line)) {
+      // next build: "Error:" under a file header, with the message on the same or the next line.
+      const message = line.replace(/^Error:\s*/, '') || textAfter(lines, i + 1)
+      add({ file, severity: 'error', message })
+    } else if (/^Error occurred prerendering page/.test(line)) {
+      add({ severity: 'error', message: line })
+    }
+  }
+  return problems
+}
+
+function killTree(child: ChildProcess) {
+  if (child.pid == null || child.exitCode !== null) return
+  if (process.platform === 'win32') {
+    spawn('taskkill', ['/pid', String(child.pid), '/T', '/F'], { stdio: 'ignore' })
+    return
+  }
+  // Spawned detached (own process group) so build workers die with it.
+  try {
+    process.kill(-child.pid, 'SIGTERM')
+  } catch {
+    child.kill('SIGTERM')
+  }
+}
+
+function runScript(
+  pm: PackageManager,
+  script: string,
+  opts: { cwd: string; signal?: AbortSignal; timeoutMs: number; onOutput?: (line: string) => void }
+): Promise<{ code: number | null; output: string; timedOut: boolean }> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(pm, ['run', script], {
+      cwd: opts.cwd,
+      stdio: ['ignore', 'pipe', 'pipe'],
+      detached: process.platform !== 'win32',
+      shell: process.platform === 'win32',
+      // CI keeps next lint from prompting for a config; no colors keeps the output parseable.
+      env: { ...process.env, CI: '1', FORCE_COLOR: '0', NEXT_TELEMETRY_DISABLED: '1' }
+    })
+
+    let output = ''
+    const onData = (buf: Buffer) => {
+      const text = buf.toString('utf-8')
+      if (output.length < MAX_OUTPUT_CHARS) output += text
+      for (const line of text.split(/\r?\n/)) if (line.trim()) opts.onOutput?.(line.trimEnd())
+    }
+    child.stdout?.on('data', onData)
+    child.stderr?.on('data', onData)
+
+    let timedOut = false
+    const stop = () => killTree(child)
+    const timer = setTimeout(() => {
+      timedOut = true
+      stop()
+    }, opts.timeoutMs)
+    opts.signal?.addEventListener('abort', stop, { once: true })
+
+    child.on('error', reject)
+    child.on('exit', (code) => {
+      clearTimeout(timer)
+      opts.signal?.removeEventListener('abort', stop)
+      if (opts.signal?.aborted) return reject(new Error('Verification cancelled'))
+      resolve({ code, output, timedOut })
+    })
+  })
+}
+
+async function readScripts(projectDir: string): Promise<Record<string, string>> {
+  try {
+    const json = JSON.parse(await fs.readFile(path.join(projectDir, 'package.json'), 'utf-8'))
+    return json?.scripts && typeof json.scripts === 'object' ? json.scripts : {}
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * Run the project's own scripts (by default `lint`, then `build`) and collect what they report.
+ * Every script runs even if an earlier one failed, so one pass finds all the problems. Scripts
+ * the project doesn't define are skipped, and so is everything when dependencies aren't installed.
+ */
+export async function verifyProject(opts: {
+  projectDir: string
+  scripts?: string[]
+  timeoutMs?: number
+  signal?: AbortSignal
+  onProgress?: (event: VerifyProgressEvent) => void
+}): Promise<VerifyResult> {
+  const names = opts.scripts ?? DEFAULT_SCRIPTS
+  const defined = await readScripts(opts.projectDir)
+  const installed = fssync.existsSync(path.join(opts.projectDir, 'node_modules'))
+  const pm = await resolvePackageManager(opts.projectDir)
+  const steps: VerifyStep[] = []
+
+  for (const [index, script] of names.entries()) {
+    const skip = (reason: string) =>
+      steps.push({ script, status: 'skipped', reason, durationMs: 0, problems: [], output: '' })
+    if (!defined[script]) {
+      skip(`package.json has no "${script}" script.`)
+      continue
+    }
+    if (!installed) {
+      skip('Dependencies are not installed (no node_modules).')
+      continue
+    }
+
+    opts.onProgress?.({ type: 'script', script, index, total: names.length })
+    const startedAt = Date.now()
+    const timeoutMs = opts.timeoutMs ?? SCRIPT_TIMEOUT_MS
+    const res = await runScript(pm, script, {
+      cwd: opts.projectDir,
+      signal: opts.signal,
+      timeoutMs,
+      onOutput: (line) => opts.onProgress?.({ type: 'output', script, line })
+    })
+
+    const lines = res.output.replace(ANSI, '').split(/\r?\n/).filter((l) => l.trim())
+    steps.push({
+      script,
+      status: res.code === 0 ? 'passed' : 'failed',
+      reason: res.timedOut ? `Stopped after ${Math.round(timeoutMs / 1000)}s.` : undefined,
+      durationMs: Date.now() - startedAt,
+      problems: parseScriptOutput(script, res.output, opts.projectDir),
+      output: lines.slice(-OUTPUT_TAIL_LINES).join('\n')
+    })
+  }
+
+  return { ok: steps.every((s) => s.status !== 'failed'), steps }
+}
@@ -0,0 +1,48 @@
+import path from 'node:path'
+import type { FileState } from './transaction'
+import { createObjectStore, hashContent, isHash, isObject, readIndexFile, strings, writeIndexFile } from './objects'
+
+const WRITE_LOG_DIR = path.join('.vorbyte', 'ai-writes')
+
+/**
+ * What the AI last wrote to each file: `index.json` maps relative paths to content hashes and
+ * `objects/` keeps the content. A file that no longer hashes the same was edited by hand since,
+ * and the logged content is the common base for merging those edits with the AI's next version.
+ */
+export function createWriteLog(projectDir: string) {
+  const root = path.join(projectDir, WRITE_LOG_DIR)
+  const indexPath = path.join(root, 'index.json')
+  const objects = createObjectStore(path.join(root, 'objects'))
+
+  async function readIndex(): Promise<Record<string, string>> {
+    const data = await readIndexFile(indexPath)
+    const files = isObject(data) ? strings(data.files) : {}
+    return Object.fromEntries(Object.entries(files).filter(([, hash]) => isHash(hash)))
+  }
+
+  return {
+    /**
+     * The content the AI last wrote to `rel`, if the file has changed since (`current` is what's
+     * on disk now). Null when it hasn't, or when the AI never wrote it.
+     */
+    async divergedBase(rel: string, current: string | Buffer): Promise<string | null> {
+      const hash = (await readIndex())[rel]
+      if (!hash || hash === hashContent(current)) return null
+      return (await objects.get(hash).catch(() => null))?.toString('utf-8') ?? null
+    },
+
+    /**
+     * Log the content just written to each file; null forgets a deleted file.
+     */
+    async record(states: Map<string, FileState>) {
+      if (states.size === 0) return
+      const files = await readIndex()
+      for (const [rel, state] of states) {
+        if (state === null) delete files[rel]
+        else files[rel] = await objects.put(state)
+      }
+      await objects.prune(new Set(Object.values(files)))
+      await writeIndexFile(indexPath, { version: 1, files })
+    }
+  }
+}
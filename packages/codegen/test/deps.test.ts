@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest'
+import { inferDependenciesFromFiles, parseDependencySpec } from '../src/deps'
+import { tempProject } from './helpers'
+
+const infer = (files: Record<string, string>, projectDir?: string) => {
+  const res = inferDependenciesFromFiles(
+    Object.entries(files).map(([path, content]) => ({ path, content })),
+    { projectDir }
+  )
+  return { dependencies: res.dependencies.sort(), devDependencies: res.devDependencies.sort() }
+}
+
+describe('inferDependenciesFromFiles', () => {
+  it('finds static, side-effect, re-export, require and dynamic imports', () => {
+    const page = [
+      "import React from 'react'",
+      "import 'nprogress/nprogress.css'",
+      "export * from 'zod'",
+      "export { motion } from 'framer-motion'",
+      "import sharp = require('sharp')",
+      "const dayjs = require('dayjs')",
+      "const Chart = dynamic(() => import('recharts'))",
+      'export default function Page() { return null }'
+    ].join('\n')
+
+    expect(infer({ 'app/page.tsx': page })).toEqual({
+      dependencies: ['dayjs', 'framer-motion', 'nprogress', 'react', 'recharts', 'sharp', 'zod'],
+      devDependencies: []
+    })
+  })
+
+  it('reduces subpath and scoped specifiers to their package', () => {
+    const file = [
+      "import { cn } from 'lodash/fp'",
+      "import { Button } from '@radix-ui/react-slot/dist/index'",
+      "import { useQuery } from '@tanstack/react-query'",
+      "import '@fontsource/inter/400.css'"
+    ].join('\n')
+
+    expect(infer({ 'lib/a.js': file }).dependencies).toEqual([
+      '@fontsource/inter',
+      '@radix-ui/react-slot',
+      '@tanstack/react-query',
+      'lodash'
+    ])
+  })
+
+  it('skips Node built-ins, relative paths and aliases', () => {
+    const file = [
+      "import fs from 'node:fs/promises'",
+      "import path from 'path'",
+      "import { readFile } from 'fs/promises'",
+      "import { Button } from '@/components/button'",
+      "import x from '~/lib/x'",
+      "import y from '#internal/y'",
+      "import z from './z'",
+      "import w from '../w'"
+    ].join('\n')
+
+    expect(infer({ 'lib/a.ts': file })).toEqual({ dependencies: [], devDependencies: [] })
+  })
+
+  it('classifies type-only imports as devDependencies', () => {
+    const file = [
+      '/// <reference types="node" />',
+      "import type { Session } from 'next-auth'",
+      "import { type Stripe } from 'stripe'",
+      "export type { Config } from 'tailwindcss'",
+      "type Db = import('drizzle-orm').Table",
+      "import { z, type ZodType } from 'zod'"
+    ].join('\n')
+
+    expect(infer({ 'lib/types.ts': file })).toEqual({
+      dependencies: ['zod'],
+      devDependencies: ['@types/node', 'drizzle-orm', 'next-auth', 'stripe', 'tailwindcss']
+    })
+  })
+
+  it('classifies imports from tests, stories, declarations and tool configs as devDependencies', () => {
+    expect(
+      infer({
+        'components/Button.test.tsx': "import { render } from '@testing-library/react'",
+        '__tests__/home.tsx': "import { vi } from 'vitest'",
+        'components/Button.stories.tsx': "import type { Meta } from '@storybook/react'",
+        'types/env.d.ts': "import 'vite/client'",
+        'tailwind.config.ts': "import forms from '@tailwindcss/forms'",
+        'next.config.mjs': "import withMdx from '@next/mdx'"
+      })
+    ).toEqual({
+      dependencies: ['@next/mdx'],
+      devDependencies: ['@storybook/react', '@tailwindcss/forms', '@testing-library/react', 'vite', 'vitest']
+    })
+  })
+
+  it('keeps a package used at runtime anywhere out of devDependencies', () => {
+    expect(
+      infer({
+        'lib/date.ts': "import dayjs from 'dayjs'",
+        'lib/date.test.ts': "import dayjs from 'dayjs'\nimport { it } from 'vitest'"
+      })
+    ).toEqual({ dependencies: ['dayjs'], devDependencies: ['vitest'] })
+  })
+
+  it('adds @types companions for untyped packages imported from TypeScript only', () => {
+    expect(infer({ 'server/a.ts': "import express from 'express'" })).toEqual({
+      dependencies: ['express'],
+      devDependencies: ['@types/express']
+    })
+    expect(infer({ 'server/a.js': "const express = require('express')" }).devDependencies).toEqual([])
+  })
+
+  it('ignores strings and comments that look like imports', () => {
+    const file = [
+      "// import x from 'commented-out'",
+      'const code = "import y from \'in-a-string\'"',
+      "const tpl = `require('in-a-template')`",
+      "import ok from 'real-package'"
+    ].join('\n')
+
+    expect(infer({ 'lib/a.ts': file }).dependencies).toEqual(['real-package'])
+  })
+
+  it('ignores files that are not scripts', () => {
+    expect(infer({ 'README.md': "import x from 'docs-only'", 'styles.css': "@import 'tailwindcss';" })).toEqual({
+      dependencies: [],
+      devDependencies: []
+    })
+  })
+
+  it("treats the project's tsconfig paths and baseUrl entries as local", async () => {
+    const projectDir = await tempProject({
+      'tsconfig.json': JSON.stringify({ compilerOptions: { baseUrl: '.', paths: { 'ui/*': ['src/ui/*'] } } }),
+      'components/Button.tsx': 'export const Button = () => null\n'
+    })
+    const file = [
+      "import { Card } from 'ui/card'",
+      "import { Button } from 'components/Button'",
+      "import { db } from 'lib/db'",
+      "import { clsx } from 'clsx'"
+    ].join('\n')
+
+    expect(infer({ 'app/page.tsx': file, 'lib/db.ts': 'export const db = 1\n' }, projectDir).dependencies).toEqual([
+      'clsx'
+    ])
+  })
+})
+
+describe('parseDependencySpec', () => {
+  it('splits names and ranges, and rejects specs not from the registry', () => {
+    expect(parseDependencySpec('zod')).toEqual({ name: 'zod', range: undefined })
+    expect(parseDependencySpec('@tanstack/react-query@5.x')).toEqual({ name: '@tanstack/react-query', range: '5.x' })
+    expect(parseDependencySpec('next-auth@beta')).toEqual({ name: 'next-auth', range: 'beta' })
+    expect(parseDependencySpec('github:user/repo')).toBeNull()
+    expect(parseDependencySpec('foo@file:../foo')).toBeNull()
+    expect(parseDependencySpec('Bad Name')).toBeNull()
+  })
+})
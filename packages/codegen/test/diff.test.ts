@@ -0,0 +1,183 @@
+import { describe, expect, it } from 'vitest'
+import { applyChanges } from '../src/apply'
+import { applySearchReplace, applyUnifiedDiff, parseUnifiedDiff } from '../src/diff'
+import { readFile, tempProject } from './helpers'
+
+const source = [
+  'export function greet(name: string) {',
+  '  const greeting = `Hello, ${name}`',
+  '  console.log(greeting)',
+  '  return greeting',
+  '}',
+  '',
+  'export function add(a: number, b: number) {',
+  '  return a + b',
+  '}',
+  ''
+].join('\n')
+
+describe('applySearchReplace', () => {
+  it('replaces an exact match', () => {
+    const res = applySearchReplace(source, [{ search: '  return a + b', replace: '  return a + b + 0' }])
+
+    expect(res.failures).toEqual([])
+    expect(res.content).toContain('  return a + b + 0\n')
+  })
+
+  it('matches lines with different indentation and trailing spaces', () => {
+    const res = applySearchReplace(source, [
+      {
+        search: 'const greeting = `Hello, ${name}`  \nconsole.log(greeting)',
+        replace: '  const greeting = `Hi, ${name}`'
+      }
+    ])
+
+    expect(res.failures).toEqual([])
+    expect(res.content).toContain('  const greeting = `Hi, ${name}`\n  return greeting')
+    expect(res.content).not.toContain('console.log')
+  })
+
+  it('applies the blocks that match and reports the others', () => {
+    const res = applySearchReplace(source, [
+      { search: 'export function subtract(a: number, b: number) {', replace: '' },
+      { search: '  return a + b', replace: '  return b + a' }
+    ])
+
+    expect(res.content).toContain('  return b + a')
+    expect(res.failures).toEqual([
+      {
+        index: 1,
+        header: 'export function subtract(a: number, b: number) {',
+        reason: 'SEARCH text not found in the file'
+      }
+    ])
+  })
+
+  it('only creates files from an empty SEARCH when they are empty', () => {
+    expect(applySearchReplace('', [{ search: '', replace: 'export {}' }])).toEqual({
+      content: 'export {}\n',
+      failures: []
+    })
+    expect(applySearchReplace(source, [{ search: '', replace: 'export {}' }]).failures[0].reason).toBe(
+      'empty SEARCH only works for a new or empty file'
+    )
+  })
+})
+
+describe('applyUnifiedDiff', () => {
+  it('applies a hunk at its stated line', () => {
+    const res = applyUnifiedDiff(
+      source,
+      [
+        '--- a/lib/greet.ts',
+        '+++ b/lib/greet.ts',
+        '@@ -7,3 +7,3 @@',
+        ' export function add(a: number, b: number) {',
+        '-  return a + b',
+        '+  return a + b + 1',
+        ' }'
+      ].join('\n')
+    )
+
+    expect(res.failures).toEqual([])
+    expect(res.content).toBe(source.replace('return a + b', 'return a + b + 1'))
+  })
+
+  it('finds hunks whose line numbers are off and whose whitespace differs', () => {
+    const res = applyUnifiedDiff(
+      source,
+      [
+        '@@ -40,3 +40,2 @@',
+        '   const greeting = `Hello, ${name}`',
+        '-console.log(greeting)',
+        '   return greeting'
+      ].join('\n')
+    )
+
+    expect(res.failures).toEqual([])
+    // Context lines keep the file's own indentation.
+    expect(res.content).toContain('  const greeting = `Hello, ${name}`\n  return greeting\n')
+    expect(res.content).not.toContain('console.log')
+  })
+
+  it('locates bare @@ hunks by content', () => {
+    const res = applyUnifiedDiff(
+      source,
+      ['@@', ' export function add(a: number, b: number) {', '+  // sum', '   return a + b'].join('\n')
+    )
+
+    expect(res.failures).toEqual([])
+    expect(res.content).toContain('export function add(a: number, b: number) {\n  // sum\n  return a + b')
+  })
+
+  it('reports the hunks that do not match and applies the rest', () => {
+    const res = applyUnifiedDiff(
+      source,
+      [
+        '@@ -1,2 +1,2 @@',
+        '-export function greet(name: string) {',
+        '+export function greet(name: string): string {',
+        '   const greeting = `Hello, ${name}`',
+        '@@ -20,2 +20,2 @@',
+        '-export function multiply(a: number, b: number) {',
+        '+export function times(a: number, b: number) {'
+      ].join('\n')
+    )
+
+    expect(res.content.startsWith('export function greet(name: string): string {\n')).toBe(true)
+    expect(res.failures).toEqual([
+      { index: 2, header: '@@ -20,2 +20,2 @@', reason: 'context and removed lines not found in the file' }
+    ])
+  })
+
+  it('fails a patch without hunks', () => {
+    expect(applyUnifiedDiff(source, '--- a/x\n+++ b/x\n').failures).toEqual([
+      { index: 1, header: '', reason: 'Patch has no @@ hunks' }
+    ])
+  })
+
+  it('skips file headers and no-newline markers when parsing', () => {
+    const hunks = parseUnifiedDiff(
+      [
+        'diff --git a/x b/x',
+        'index 1..2',
+        '--- a/x',
+        '+++ b/x',
+        '@@ -1,1 +1,1 @@',
+        '-a',
+        '\\ No newline at end of file',
+        '+b',
+        ''
+      ].join('\n')
+    )
+
+    expect(hunks).toEqual([{ oldStart: 1, header: '@@ -1,1 +1,1 @@', lines: ['-a', '+b'] }])
+  })
+})
+
+describe('applyChanges with edits', () => {
+  it('writes edited and patched files and leaves files with failed hunks untouched', async () => {
+    const dir = await tempProject({ 'lib/greet.ts': source, 'lib/add.ts': source, 'lib/keep.ts': source })
+    const res = await applyChanges({
+      projectDir: dir,
+      registry: false,
+      inferDependencies: false,
+      files: [
+        { kind: 'edit', path: 'lib/greet.ts', edits: [{ search: '  return a + b', replace: '  return a - b' }] },
+        { kind: 'patch', path: 'lib/add.ts', patch: '@@ -8 +8 @@\n-  return a + b\n+  return b + a\n' },
+        { kind: 'patch', path: 'lib/keep.ts', patch: '@@ -8 +8 @@\n-  return a * b\n+  return b * a\n' }
+      ]
+    })
+
+    expect(res.writtenFiles.sort()).toEqual(['lib/add.ts', 'lib/greet.ts'])
+    expect(res.failedEdits).toEqual([
+      {
+        path: 'lib/keep.ts',
+        failures: [{ index: 1, header: '@@ -8 +8 @@', reason: 'context and removed lines not found in the file' }]
+      }
+    ])
+    expect(await readFile(dir, 'lib/greet.ts')).toContain('return a - b')
+    expect(await readFile(dir, 'lib/add.ts')).toContain('return b + a')
+    expect(await readFile(dir, 'lib/keep.ts')).toBe(source)
+  })
+})
@@ -0,0 +1,29 @@
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { afterEach } from 'vitest'
+
+const dirs: string[] = []
+
+afterEach(async () => {
+  await Promise.all(dirs.splice(0).map((d) => fs.rm(d, { recursive: true, force: true })))
+})
+
+/**
+ * A throwaway project directory with `files` (relative path -> content) in it, removed after the test.
+ */
+export async function tempProject(files: Record<string, string> = {}) {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'vorbyte-codegen-'))
+  dirs.push(dir)
+  for (const [rel, content] of Object.entries(files)) await writeFile(dir, rel, content)
+  return dir
+}
+
+export async function writeFile(dir: string, rel: string, content: string) {
+  await fs.mkdir(path.dirname(path.join(dir, rel)), { recursive: true })
+  await fs.writeFile(path.join(dir, rel), content)
+}
+
+export async function readFile(dir: string, rel: string) {
+  return fs.readFile(path.join(dir, rel), 'utf-8').catch(() => null)
+}
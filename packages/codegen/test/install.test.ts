@@ -0,0 +1,51 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import { afterEach, describe, expect, it } from 'vitest'
+import { applyChanges } from '../src/apply'
+import { readFile, tempProject, writeFile } from './helpers'
+
+const PATH = process.env.PATH
+
+afterEach(() => {
+  process.env.PATH = PATH
+})
+
+/**
+ * Put a `yarn` on PATH that logs its arguments and YARN_ENABLE_SCRIPTS instead of installing.
+ */
+async function stubYarn() {
+  const bin = await tempProject()
+  const script = '#!/bin/sh\n[ "$1" = "--version" ] && exit 0\necho "$* scripts=$YARN_ENABLE_SCRIPTS" >> yarn.log\n'
+  await writeFile(bin, 'yarn', script)
+  await fs.chmod(path.join(bin, 'yarn'), 0o755)
+  process.env.PATH = `${bin}${path.delimiter}${PATH}`
+}
+
+async function install(files: Record<string, string>) {
+  const projectDir = await tempProject({ 'yarn.lock': '', ...files })
+  await applyChanges({
+    projectDir,
+    files: [],
+    dependencies: ['left-pad'],
+    registry: false,
+    policy: { ignoreScripts: true }
+  })
+  return readFile(projectDir, 'yarn.log')
+}
+
+describe.skipIf(process.platform === 'win32')('installing with ignoreScripts', () => {
+  it('passes --ignore-scripts to Yarn 1', async () => {
+    await stubYarn()
+    expect(await install({ 'package.json': '{"packageManager":"yarn@1.22.22"}' })).toBe(
+      'add --ignore-scripts left-pad scripts=\n'
+    )
+  })
+
+  it('turns scripts off through the environment for Yarn 2+', async () => {
+    await stubYarn()
+    expect(await install({ 'package.json': '{"packageManager":"yarn@4.5.0"}' })).toBe('add left-pad scripts=0\n')
+    expect(await install({ 'package.json': '{}', '.yarnrc.yml': 'nodeLinker: node-modules\n' })).toBe(
+      'add left-pad scripts=0\n'
+    )
+  })
+})
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest'
+import { parseAiResponse } from '../src/parse'
+
+const fence = '```'
+
+describe('parseAiResponse edit blocks', () => {
+  it('reads SEARCH/REPLACE blocks as edits', () => {
+    const res = parseAiResponse(
+      [
+        'File: app/page.tsx',
+        `${fence}tsx`,
+        '<<<<<<< SEARCH',
+        '  return <h1>Hello</h1>',
+        '=======',
+        '  return <h1>Hi there</h1>',
+        '>>>>>>> REPLACE',
+        fence
+      ].join('\n')
+    )
+
+    expect(res.files).toEqual([
+      {
+        kind: 'edit',
+        path: 'app/page.tsx',
+        edits: [{ search: '  return <h1>Hello</h1>', replace: '  return <h1>Hi there</h1>' }]
+      }
+    ])
+  })
+
+  it('reads diff fences and untagged bodies with diff headers as patches', () => {
+    const patch = ['--- a/app/page.tsx', '+++ b/app/page.tsx', '@@ -1,1 +1,1 @@', '-old', '+new'].join('\n')
+    const res = parseAiResponse(
+      [
+        'File: app/page.tsx',
+        `${fence}diff`,
+        '@@ -1 +1 @@',
+        '-old',
+        '+new',
+        fence,
+        'File: app/layout.tsx',
+        `${fence}tsx`,
+        patch,
+        fence,
+        'File: lib/util.ts',
+        fence,
+        '@@ -3,2 +3,2 @@',
+        ' a',
+        '-b',
+        '+c',
+        fence
+      ].join('\n')
+    )
+
+    expect(res.files.map((f) => ('kind' in f ? f.kind : 'write'))).toEqual(['patch', 'patch', 'patch'])
+  })
+
+  it('keeps files that start with YAML frontmatter as full content', () => {
+    const post = ['---', 'title: Hello', 'date: 2024-12-02', '---', '', '# Hello'].join('\n')
+    const config = ['--- # CI settings', 'on: push', ''].join('\n')
+    const res = parseAiResponse(
+      [
+        'File: content/hello.mdx',
+        `${fence}mdx`,
+        post,
+        fence,
+        'File: .github/ci.yml',
+        `${fence}yaml`,
+        config,
+        fence
+      ].join('\n')
+    )
+
+    expect(res.files).toEqual([
+      { path: 'content/hello.mdx', content: post },
+      { path: '.github/ci.yml', content: config }
+    ])
+  })
+})
@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest'
+import { applyChanges, planChanges } from '../src/apply'
+import type { FileChange } from '../src/types'
+import { readFile, tempProject } from './helpers'
+
+const page = 'export default function Page() {\n  return null;\n}\n'
+const newPage = 'export default function Page() {\n  return <main />;\n}\n'
+
+async function plan(files: Record<string, string>, changes: FileChange[]) {
+  const projectDir = await tempProject(files)
+  const res = await planChanges({ projectDir, files: changes, registry: false })
+  return { projectDir, files: res.files.map(({ path, from, status, change }) => ({ path, from, status, change })) }
+}
+
+describe('planChanges with deletes', () => {
+  it('turns a delete followed by a write into one modified entry', async () => {
+    const { files } = await plan({ 'app/page.tsx': page }, [
+      { kind: 'delete', path: 'app/page.tsx' },
+      { path: 'app/page.tsx', content: newPage }
+    ])
+
+    expect(files).toEqual([
+      { path: 'app/page.tsx', status: 'modified', change: { path: 'app/page.tsx', content: newPage } }
+    ])
+  })
+
+  it('turns a write followed by a delete into one deleted entry', async () => {
+    const { files } = await plan({ 'app/page.tsx': page }, [
+      { path: 'app/page.tsx', content: newPage },
+      { kind: 'delete', path: 'app/page.tsx' }
+    ])
+
+    expect(files).toEqual([
+      { path: 'app/page.tsx', status: 'deleted', change: { kind: 'delete', path: 'app/page.tsx' } }
+    ])
+  })
+
+  it('drops files created and deleted in the same batch', async () => {
+    const { files } = await plan({}, [
+      { path: 'lib/tmp.ts', content: 'export {}\n' },
+      { kind: 'delete', path: 'lib/tmp.ts' }
+    ])
+
+    expect(files).toEqual([])
+  })
+
+  it('writes what the single entry says', async () => {
+    const projectDir = await tempProject({ 'app/page.tsx': page })
+    const res = await applyChanges({
+      projectDir,
+      registry: false,
+      files: [
+        { kind: 'delete', path: 'app/page.tsx' },
+        { path: 'app/page.tsx', content: newPage }
+      ]
+    })
+
+    expect(res.writtenFiles).toEqual(['app/page.tsx'])
+    expect(res.deletedFiles).toEqual([])
+    expect(await readFile(projectDir, 'app/page.tsx')).toBe(newPage)
+  })
+})
+
+describe('planChanges with renames', () => {
+  it('folds a write into the rename that follows it', async () => {
+    const { projectDir, files } = await plan({ 'app/old/page.tsx': page }, [
+      { path: 'app/old/page.tsx', content: newPage },
+      { kind: 'rename', path: 'app/old/page.tsx', to: 'app/new/page.tsx' }
+    ])
+
+    const change = { kind: 'rename', path: 'app/old/page.tsx', to: 'app/new/page.tsx', content: newPage }
+    expect(files).toEqual([{ path: 'app/new/page.tsx', from: 'app/old/page.tsx', status: 'renamed', change }])
+
+    // Applying that entry alone moves the file with its new content.
+    const res = await applyChanges({ projectDir, files: [files[0].change], registry: false })
+    expect(res.renamedFiles).toEqual([{ from: 'app/old/page.tsx', to: 'app/new/page.tsx' }])
+    expect(await readFile(projectDir, 'app/old/page.tsx')).toBeNull()
+    expect(await readFile(projectDir, 'app/new/page.tsx')).toBe(newPage)
+  })
+
+  it('folds a write to the new path into the rename before it', async () => {
+    const { files } = await plan({ 'app/old/page.tsx': page }, [
+      { kind: 'rename', path: 'app/old/page.tsx', to: 'app/new/page.tsx' },
+      { path: 'app/new/page.tsx', content: newPage }
+    ])
+
+    const change = { kind: 'rename', path: 'app/old/page.tsx', to: 'app/new/page.tsx', content: newPage }
+    expect(files).toEqual([{ path: 'app/new/page.tsx', from: 'app/old/page.tsx', status: 'renamed', change }])
+  })
+
+  it('keeps plain renames without a diff', async () => {
+    const projectDir = await tempProject({ 'a.ts': page })
+    const res = await planChanges({
+      projectDir,
+      files: [{ kind: 'rename', path: 'a.ts', to: 'b.ts' }],
+      registry: false
+    })
+
+    expect(res.files).toEqual([
+      { path: 'b.ts', from: 'a.ts', status: 'renamed', diff: '', change: { kind: 'rename', path: 'a.ts', to: 'b.ts' } }
+    ])
+  })
+
+  it('follows chained renames back to the file on disk', async () => {
+    const { files } = await plan({ 'a.ts': page }, [
+      { kind: 'rename', path: 'a.ts', to: 'b.ts' },
+      { kind: 'rename', path: 'b.ts', to: 'c.ts' }
+    ])
+
+    expect(files).toEqual([
+      { path: 'c.ts', from: 'a.ts', status: 'renamed', change: { kind: 'rename', path: 'a.ts', to: 'c.ts' } }
+    ])
+  })
+
+  it('plans a file created and renamed in the same batch as created at the new path', async () => {
+    const { files } = await plan({}, [
+      { path: 'lib/draft.ts', content: 'export const x = 1;\n' },
+      { kind: 'rename', path: 'lib/draft.ts', to: 'lib/x.ts' }
+    ])
+
+    expect(files).toEqual([
+      { path: 'lib/x.ts', status: 'created', change: { path: 'lib/x.ts', content: 'export const x = 1;\n' } }
+    ])
+  })
+})
@@ -0,0 +1,181 @@
+import { describe, expect, it } from 'vitest'
+import {
+  allowInProject,
+  applyDependencyPolicy,
+  findTyposquatTarget,
+  mergePolicies,
+  readProjectPolicy
+} from '../src/policy'
+import type { DependencyPolicy } from '../src/types'
+import { readFile, tempProject } from './helpers'
+
+const POLICY_FILE = '.vorbyte/dependency-policy.json'
+
+async function sort(policy: DependencyPolicy, dependencies: string[], devDependencies: string[] = []) {
+  const projectDir = await tempProject({ 'package.json': '{"dependencies":{"acme-internal-ui":"1.0.0"}}' })
+  const res = await applyDependencyPolicy({ projectDir, dependencies, devDependencies, policy })
+  return {
+    dependencies: res.dependencies,
+    devDependencies: res.devDependencies,
+    denied: res.denied.map((d) => d.spec),
+    pending: res.pending.map((p) => [p.spec, p.reason, p.similarTo])
+  }
+}
+
+describe('findTyposquatTarget', () => {
+  const known = [
+    'react',
+    'react-dom',
+    'axios',
+    'express',
+    'next-auth',
+    'styled-components',
+    'zod',
+    '@tanstack/react-query'
+  ]
+
+  it('catches swapped, missing and extra letters', () => {
+    expect(findTyposquatTarget('raect', known)).toBe('react')
+    expect(findTyposquatTarget('axois', known)).toBe('axios')
+    expect(findTyposquatTarget('expres', known)).toBe('express')
+    expect(findTyposquatTarget('expresss', known)).toBe('express')
+    expect(findTyposquatTarget('next-auht', known)).toBe('next-auth')
+    expect(findTyposquatTarget('@tanstack/react-qeury', known)).toBe('@tanstack/react-query')
+  })
+
+  it('catches the same name with other separators', () => {
+    expect(findTyposquatTarget('react_dom', known)).toBe('react-dom')
+    expect(findTyposquatTarget('reactdom', known)).toBe('react-dom')
+    expect(findTyposquatTarget('react.dom', known)).toBe('react-dom')
+  })
+
+  it('allows two edits only for long names', () => {
+    expect(findTyposquatTarget('styled-compnent', known)).toBe('styled-components')
+    expect(findTyposquatTarget('exprs', known)).toBeNull()
+  })
+
+  it('leaves exact names, short names and unrelated names alone', () => {
+    expect(findTyposquatTarget('react', known)).toBeNull()
+    expect(findTyposquatTarget('preact', [...known, 'preact'])).toBeNull()
+    expect(findTyposquatTarget('zoe', known)).toBeNull()
+    expect(findTyposquatTarget('axe', known)).toBeNull()
+    expect(findTyposquatTarget('reactflow', known)).toBeNull()
+    expect(findTyposquatTarget('@other/react-query', known)).toBeNull()
+  })
+})
+
+describe('applyDependencyPolicy', () => {
+  it("holds back near-misses of popular packages and of the project's own", async () => {
+    expect(await sort({}, ['lodahs@^4', 'acme-internal-iu', 'zod'])).toEqual({
+      dependencies: ['zod'],
+      devDependencies: [],
+      denied: [],
+      pending: [
+        ['lodahs@^4', 'typosquat', 'lodash'],
+        ['acme-internal-iu', 'typosquat', 'acme-internal-ui']
+      ]
+    })
+  })
+
+  it('lets popular packages through that are an edit away from other popular ones', async () => {
+    const legit = ['preact', 'echarts', 'cookies', 'react-dnd', 'tslint', 'color', 'mysql2']
+    expect(await sort({}, legit)).toEqual({ dependencies: legit, devDependencies: [], denied: [], pending: [] })
+    expect(await sort({}, ['preactt', 'echart'])).toMatchObject({
+      pending: [
+        ['preactt', 'typosquat', 'preact'],
+        ['echart', 'typosquat', 'echarts']
+      ]
+    })
+  })
+
+  it('matches scoped wildcards against the whole scope only', async () => {
+    const res = await sort(
+      { deny: ['@evil/*', 'left-pad'] },
+      ['@evil/utils', '@evilcorp/utils', 'left-pad@1.3.0'],
+      ['@evil/types']
+    )
+
+    expect(res.denied).toEqual(['@evil/utils', 'left-pad@1.3.0', '@evil/types'])
+    expect(res.dependencies).toEqual(['@evilcorp/utils'])
+    expect(res.devDependencies).toEqual([])
+  })
+
+  it('never holds back allowlisted packages, but denying wins', async () => {
+    const policy = { allow: ['raect', '@acme/*', 'moment'], deny: ['moment'], requireApproval: true }
+    const res = await sort(policy, ['raect', '@acme/widgets', 'moment', 'dayjs'])
+
+    expect(res.dependencies).toEqual(['raect', '@acme/widgets'])
+    expect(res.denied).toEqual(['moment'])
+    expect(res.pending).toEqual([['dayjs', 'not-allowlisted', undefined]])
+  })
+
+  it('marks dev packages held back for approval as dev', async () => {
+    const projectDir = await tempProject()
+    const res = await applyDependencyPolicy({
+      projectDir,
+      dependencies: [],
+      devDependencies: ['vitest'],
+      policy: { requireApproval: true }
+    })
+
+    expect(res.pending).toMatchObject([{ spec: 'vitest', name: 'vitest', dev: true, reason: 'not-allowlisted' }])
+  })
+})
+
+describe('project policies', () => {
+  it('merges lists and lets either policy turn on approval and ignoreScripts', () => {
+    expect(
+      mergePolicies({ allow: ['zod'], requireApproval: true }, undefined, {
+        allow: ['dayjs'],
+        deny: ['moment'],
+        ignoreScripts: true
+      })
+    ).toEqual({ allow: ['zod', 'dayjs'], deny: ['moment'], requireApproval: true, ignoreScripts: true })
+    expect(mergePolicies()).toEqual({ allow: [], deny: [], requireApproval: false, ignoreScripts: false })
+  })
+
+  it("applies the app's and the project's policies together", async () => {
+    const projectDir = await tempProject({ [POLICY_FILE]: JSON.stringify({ allow: ['dayjs'], deny: ['moment'] }) })
+    const policy = mergePolicies({ allow: ['zod'], requireApproval: true }, await readProjectPolicy(projectDir))
+    const res = await applyDependencyPolicy({
+      projectDir,
+      dependencies: ['zod', 'dayjs', 'moment', 'luxon'],
+      devDependencies: [],
+      policy
+    })
+
+    expect(res.dependencies).toEqual(['zod', 'dayjs'])
+    expect(res.denied.map((d) => d.spec)).toEqual(['moment'])
+    expect(res.pending.map((p) => p.spec)).toEqual(['luxon'])
+  })
+
+  it('reads a missing or malformed project policy as empty', async () => {
+    expect(await readProjectPolicy(await tempProject())).toEqual({})
+    expect(await readProjectPolicy(await tempProject({ [POLICY_FILE]: '{not json' }))).toEqual({})
+    expect(await readProjectPolicy(await tempProject({ [POLICY_FILE]: '["zod"]' }))).toEqual({})
+  })
+
+  it('keeps only string lists and boolean flags from a hand-written project policy', async () => {
+    const file = { allow: 'zod', deny: ['moment', 3, null], requireApproval: 'yes', ignoreScripts: true, extra: 1 }
+    const projectDir = await tempProject({ [POLICY_FILE]: JSON.stringify(file) })
+    const policy = await readProjectPolicy(projectDir)
+
+    expect(policy).toEqual({ deny: ['moment'], ignoreScripts: true })
+    expect(mergePolicies({ allow: ['dayjs'] }, policy)).toEqual({
+      allow: ['dayjs'],
+      deny: ['moment'],
+      requireApproval: false,
+      ignoreScripts: true
+    })
+  })
+
+  it('remembers approved packages in the project allowlist, keeping the rest of the policy', async () => {
+    const projectDir = await tempProject({ [POLICY_FILE]: JSON.stringify({ allow: ['zod'], deny: ['moment'] }) })
+    await allowInProject(projectDir, ['dayjs', 'zod', 'axios'])
+
+    expect(JSON.parse((await readFile(projectDir, POLICY_FILE))!)).toEqual({
+      allow: ['axios', 'dayjs', 'zod'],
+      deny: ['moment']
+    })
+  })
+})
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest'
+import { checkDependencies, createRegistryClient } from '../src/registry'
+import { tempProject, writeFile } from './helpers'
+
+describe('createRegistryClient', () => {
+  it('keeps only well-formed fields of cached metadata', async () => {
+    const cacheDir = await tempProject()
+    const cached = {
+      name: 'left-pad',
+      'dist-tags': { latest: '1.3.0', broken: 7 },
+      versions: {
+        '1.3.0': { peerDependencies: { react: '^18', bad: null }, deprecated: 'use String#padStart' },
+        '1.2.0': { deprecated: true },
+        '1.1.0': null
+      }
+    }
+    await writeFile(cacheDir, 'left-pad.json', JSON.stringify(cached))
+
+    expect(await createRegistryClient({ cacheDir, offline: true }).metadata('left-pad')).toEqual({
+      name: 'left-pad',
+      'dist-tags': { latest: '1.3.0' },
+      versions: {
+        '1.3.0': { peerDependencies: { react: '^18' }, deprecated: 'use String#padStart' },
+        '1.2.0': { peerDependencies: undefined, deprecated: undefined },
+        '1.1.0': { peerDependencies: undefined, deprecated: undefined }
+      }
+    })
+  })
+
+  it('treats cache files without versions as missing', async () => {
+    const cacheDir = await tempProject({ 'a.json': '{"name":"a","versions":"1.0.0"}', 'b.json': '[]' })
+    const client = createRegistryClient({ cacheDir, offline: true })
+
+    expect(await client.metadata('a')).toBeNull()
+    expect(await client.metadata('b')).toBeNull()
+  })
+})
+
+describe('checkDependencies', () => {
+  it('checks peers against the installed version, ignoring malformed package.json fields', async () => {
+    const cacheDir = await tempProject()
+    const versions = {
+      '2.0.0': { peerDependencies: { react: '^18' } },
+      '1.5.0': { peerDependencies: { react: '^18 || ^19' } }
+    }
+    await writeFile(
+      cacheDir,
+      'ui-kit.json',
+      JSON.stringify({ name: 'ui-kit', 'dist-tags': { latest: '2.0.0' }, versions })
+    )
+    const projectDir = await tempProject({
+      'package.json': JSON.stringify({ dependencies: { react: '^18.2.0', broken: 5 }, devDependencies: ['x'] }),
+      'node_modules/react/package.json': '{"version":"19.0.0"}'
+    })
+
+    const res = await checkDependencies({
+      projectDir,
+      dependencies: { dependencies: ['ui-kit'], devDependencies: [] },
+      registry: { cacheDir, offline: true }
+    })
+    expect(res.dependencies).toEqual(['ui-kit@1.5.0'])
+    expect(res.warnings.map((w) => w.kind)).toEqual(['peer-conflict'])
+
+    await writeFile(projectDir, 'node_modules/react/package.json', '{"version":19}')
+    const fallback = await checkDependencies({
+      projectDir,
+      dependencies: { dependencies: ['ui-kit'], devDependencies: [] },
+      registry: { cacheDir, offline: true }
+    })
+    expect(fallback.dependencies).toEqual(['ui-kit@^2.0.0'])
+    expect(fallback.warnings).toEqual([])
+  })
+})
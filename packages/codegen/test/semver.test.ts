@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest'
+import {
+  compareVersions,
+  isPrerelease,
+  isValidRange,
+  maxSatisfying,
+  minVersion,
+  parseVersion,
+  satisfies
+} from '../src/semver'
+
+// [range, versions in it, versions not in it]
+const cases: [string, string[], string[]][] = [
+  // Caret: up to the next change in the leftmost non-zero part.
+  ['^1.2.3', ['1.2.3', '1.2.10', '1.9.0'], ['1.2.2', '2.0.0', '2.0.0-rc.1']],
+  ['^0.2.3', ['0.2.3', '0.2.9'], ['0.2.2', '0.3.0']],
+  ['^0.0.3', ['0.0.3'], ['0.0.4', '0.1.0']],
+  ['^0.0', ['0.0.0', '0.0.9'], ['0.1.0']],
+  ['^0', ['0.0.1', '0.9.9'], ['1.0.0']],
+  ['^1.x', ['1.0.0', '1.9.9'], ['2.0.0', '0.9.0']],
+  // Tilde: patch updates, or minor updates when only the major is given.
+  ['~1.2.3', ['1.2.3', '1.2.99'], ['1.3.0', '1.2.2']],
+  ['~1.2', ['1.2.0', '1.2.5'], ['1.3.0']],
+  ['~1', ['1.0.0', '1.9.0'], ['2.0.0']],
+  ['~0.2.3', ['0.2.3', '0.2.4'], ['0.3.0']],
+  ['~>1.2.3', ['1.2.4'], ['1.3.0']],
+  // X-ranges and partial versions.
+  ['1.x', ['1.0.0', '1.99.0'], ['2.0.0', '0.9.9']],
+  ['1.2.*', ['1.2.0', '1.2.7'], ['1.3.0']],
+  ['1.2', ['1.2.0', '1.2.7'], ['1.3.0']],
+  ['*', ['0.0.1', '99.0.0'], ['1.0.0-alpha']],
+  ['', ['1.0.0'], []],
+  ['x', ['3.4.5'], []],
+  // Comparators, with and without spaces after the operator.
+  ['>=1.2.0 <2.0.0', ['1.2.0', '1.9.9'], ['1.1.9', '2.0.0']],
+  ['> 1.2.3', ['1.2.4'], ['1.2.3']],
+  ['>1.2', ['1.3.0'], ['1.2.9']],
+  ['<=1.2', ['1.2.9'], ['1.3.0']],
+  ['<1.2.3', ['1.2.2'], ['1.2.3']],
+  ['=1.2.3', ['1.2.3', 'v1.2.3'], ['1.2.4']],
+  ['1.2.3', ['1.2.3', '1.2.3+build.5'], ['1.2.4']],
+  // Hyphen ranges: inclusive, a partial upper bound covers everything it names.
+  ['1.2.3 - 2.3.4', ['1.2.3', '2.3.4'], ['1.2.2', '2.3.5']],
+  ['1.2 - 2.3', ['1.2.0', '2.3.9'], ['1.1.9', '2.4.0']],
+  ['1 - 2', ['1.0.0', '2.9.9'], ['3.0.0']],
+  // Unions.
+  ['^1.0.0 || ^3.0.0', ['1.5.0', '3.1.0'], ['2.0.0', '4.0.0']],
+  ['<1.0.0 || >=2.0.0 <2.1.0', ['0.9.0', '2.0.5'], ['1.5.0', '2.1.0']],
+  ['1.2.7 || >=1.2.9 <2.0.0', ['1.2.7', '1.2.9', '1.4.6'], ['1.2.8', '2.0.0']],
+  // Prereleases only match ranges naming a prerelease of the same version.
+  ['^1.2.3-beta.2', ['1.2.3-beta.2', '1.2.3-beta.10', '1.2.3', '1.5.0'], ['1.2.3-beta.1', '1.2.4-beta.3']],
+  ['>=1.0.0-rc.1 <2.0.0', ['1.0.0-rc.1', '1.0.0-rc.2', '1.0.0'], ['1.0.1-rc.1', '2.0.0-rc.1']],
+  ['>=1.0.0', ['1.0.0'], ['1.0.1-alpha', '2.0.0-beta']],
+  ['1.0.0-alpha', ['1.0.0-alpha'], ['1.0.0-beta', '1.0.0']]
+]
+
+describe('satisfies', () => {
+  for (const [range, inside, outside] of cases) {
+    it(`matches ${JSON.stringify(range)}`, () => {
+      for (const v of inside) expect(satisfies(v, range), `${v} in ${range}`).toBe(true)
+      for (const v of outside) expect(satisfies(v, range), `${v} not in ${range}`).toBe(false)
+    })
+  }
+
+  it('is false for unparseable versions and ranges', () => {
+    expect(satisfies('latest', '*')).toBe(false)
+    expect(satisfies('1.2', '^1.0.0')).toBe(false)
+    expect(satisfies('1.2.3', 'not a range')).toBe(false)
+  })
+})
+
+describe('isValidRange', () => {
+  it('accepts npm ranges and rejects tags and garbage', () => {
+    for (const r of ['^1.2.3', '~1', '1.x || 2', '>= 1.0.0 < 2', '1 - 2', '*', '']) {
+      expect(isValidRange(r), r).toBe(true)
+    }
+    for (const r of ['latest', 'next', '^one', '1.2.3.4', 'github:user/repo']) {
+      expect(isValidRange(r), r).toBe(false)
+    }
+  })
+})
+
+describe('compareVersions', () => {
+  it('orders releases, prereleases and numeric prerelease parts', () => {
+    const sorted = ['1.0.0', '0.9.0', '1.0.0-beta.11', '1.0.0-alpha', '1.0.0-beta.2', '1.10.0', '1.2.0'].sort(
+      compareVersions
+    )
+    expect(sorted).toEqual(['0.9.0', '1.0.0-alpha', '1.0.0-beta.2', '1.0.0-beta.11', '1.0.0', '1.2.0', '1.10.0'])
+  })
+
+  it('sorts unparseable versions first and ignores build metadata', () => {
+    expect(compareVersions('junk', '0.0.1')).toBeLessThan(0)
+    expect(compareVersions('1.0.0+a', '1.0.0+b')).toBe(0)
+  })
+})
+
+describe('version helpers', () => {
+  it('parses full versions only', () => {
+    expect(parseVersion('v1.2.3-rc.1+sha.5')).toEqual({ major: 1, minor: 2, patch: 3, prerelease: 'rc.1' })
+    expect(parseVersion('1.2')).toBeNull()
+    expect(isPrerelease('2.0.0-next.4')).toBe(true)
+    expect(isPrerelease('2.0.0')).toBe(false)
+  })
+
+  it('picks the highest satisfying version, skipping prereleases the range does not name', () => {
+    const versions = ['17.0.2', '18.2.0', '18.3.1', '19.0.0-rc.1', '19.0.0']
+    expect(maxSatisfying(versions, '^18.0.0')).toBe('18.3.1')
+    expect(maxSatisfying(versions, '>=18')).toBe('19.0.0')
+    expect(maxSatisfying(versions, '^20')).toBeNull()
+  })
+
+  it('finds the lowest version a range allows', () => {
+    expect(minVersion('^18.2.0')).toBe('18.2.0')
+    expect(minVersion('19')).toBe('19.0.0')
+    expect(minVersion('~1.4')).toBe('1.4.0')
+    expect(minVersion('latest')).toBeNull()
+  })
+})
@@ -0,0 +1,214 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import { describe, expect, it } from 'vitest'
+import { applyChanges } from '../src/apply'
+import { createSnapshotStore } from '../src/snapshots'
+import { createWriteLog } from '../src/writeLog'
+import type { FileChange } from '../src/types'
+import { readFile, tempProject, writeFile } from './helpers'
+
+const run = (projectDir: string, snapshotId: string, files: FileChange[]) =>
+  applyChanges({ projectDir, files, snapshotId, registry: false })
+
+const objectsIn = (projectDir: string, dir: string) =>
+  fs.readdir(path.join(projectDir, '.vorbyte', dir, 'objects')).catch(() => [] as string[])
+
+/**
+ * Three AI runs on a project that starts with notes.txt: m1 rewrites it, m2 adds todo.txt and
+ * deletes notes.txt, m3 renames todo.txt to done.txt.
+ */
+async function threeRuns() {
+  const projectDir = await tempProject({ 'notes.txt': 'v0\n' })
+  await run(projectDir, 'm1', [{ path: 'notes.txt', content: 'v1\n' }])
+  await run(projectDir, 'm2', [
+    { path: 'todo.txt', content: 'ship it\n' },
+    { kind: 'delete', path: 'notes.txt' }
+  ])
+  await run(projectDir, 'm3', [{ kind: 'rename', path: 'todo.txt', to: 'done.txt' }])
+  return projectDir
+}
+
+describe('createSnapshotStore', () => {
+  it('records the files each run touched, by run id', async () => {
+    const projectDir = await threeRuns()
+    const list = await createSnapshotStore(projectDir).list()
+
+    expect(list.map((s) => [s.id, s.files])).toEqual([
+      ['m1', ['notes.txt']],
+      ['m2', ['todo.txt', 'notes.txt']],
+      ['m3', ['todo.txt', 'done.txt']]
+    ])
+  })
+
+  it('reverts to a message, bringing back deleted and renamed files', async () => {
+    const projectDir = await threeRuns()
+    const store = createSnapshotStore(projectDir)
+
+    const info = await store.revert(['m2', 'm3'], 'm1')
+    expect(info.to).toBe('m1')
+    expect(info.files.sort()).toEqual(['done.txt', 'notes.txt', 'todo.txt'])
+    expect(await readFile(projectDir, 'notes.txt')).toBe('v1\n')
+    expect(await readFile(projectDir, 'todo.txt')).toBeNull()
+    expect(await readFile(projectDir, 'done.txt')).toBeNull()
+    expect((await store.lastRevert())?.to).toBe('m1')
+  })
+
+  it('restores each file to its content before the earliest reverted run', async () => {
+    const projectDir = await threeRuns()
+    await createSnapshotStore(projectDir).revert(['m1', 'm2', 'm3'], 'start')
+
+    expect(await readFile(projectDir, 'notes.txt')).toBe('v0\n')
+    expect(await readFile(projectDir, 'todo.txt')).toBeNull()
+  })
+
+  it('undoes a revert', async () => {
+    const projectDir = await threeRuns()
+    const store = createSnapshotStore(projectDir)
+    await store.revert(['m2', 'm3'], 'm1')
+
+    const undone = await store.undoRevert()
+    expect(undone.to).toBe('m1')
+    expect(await readFile(projectDir, 'notes.txt')).toBeNull()
+    expect(await readFile(projectDir, 'todo.txt')).toBeNull()
+    expect(await readFile(projectDir, 'done.txt')).toBe('ship it\n')
+    expect(await store.lastRevert()).toBeNull()
+    await expect(store.undoRevert()).rejects.toThrow('There is no revert to undo.')
+  })
+
+  it('makes a revert final once the next run is recorded', async () => {
+    const projectDir = await threeRuns()
+    const store = createSnapshotStore(projectDir)
+    await store.revert(['m3'], 'm2')
+    await run(projectDir, 'm4', [{ path: 'todo.txt', content: 'ship it today\n' }])
+
+    expect(await store.lastRevert()).toBeNull()
+    await expect(store.undoRevert()).rejects.toThrow('There is no revert to undo.')
+  })
+
+  it('refuses to revert past a pruned snapshot', async () => {
+    const projectDir = await tempProject({ 'a.txt': 'a0\n' })
+    const store = createSnapshotStore(projectDir, { maxSnapshots: 1 })
+    await store.record('m1', new Map([['a.txt', Buffer.from('a0\n')]]))
+    await store.record('m2', new Map([['a.txt', Buffer.from('a1\n')]]))
+
+    expect((await store.list()).map((s) => s.id)).toEqual(['m2'])
+    await expect(store.revert(['m1', 'm2'], 'start')).rejects.toThrow('no snapshot anymore')
+  })
+
+  it('stores each distinct content once and prunes objects nothing refers to', async () => {
+    const projectDir = await tempProject()
+    const store = createSnapshotStore(projectDir, { maxSnapshots: 2 })
+    const same = Buffer.from('same\n')
+    await store.record(
+      'm1',
+      new Map([
+        ['a.txt', same],
+        ['b.txt', same]
+      ])
+    )
+    await store.record(
+      'm2',
+      new Map([
+        ['a.txt', same],
+        ['c.txt', null]
+      ])
+    )
+    expect(await objectsIn(projectDir, 'snapshots')).toHaveLength(1)
+
+    await store.record('m3', new Map([['a.txt', Buffer.from('other\n')]]))
+    await store.record('m4', new Map([['a.txt', Buffer.from('third\n')]]))
+    expect((await store.list()).map((s) => s.id)).toEqual(['m3', 'm4'])
+    expect(await objectsIn(projectDir, 'snapshots')).toHaveLength(2)
+  })
+
+  it('starts over from a corrupt index and drops malformed entries', async () => {
+    const projectDir = await threeRuns()
+    const indexPath = '.vorbyte/snapshots/index.json'
+    const index = JSON.parse((await readFile(projectDir, indexPath))!)
+    index.snapshots[0].files['notes.txt'] = '../../../outside'
+    index.snapshots[1].id = 7
+    index.revert = { to: 'm0', files: [] }
+    await writeFile(projectDir, indexPath, JSON.stringify(index))
+    const store = createSnapshotStore(projectDir)
+
+    expect((await store.list()).map((s) => s.id)).toEqual(['m3'])
+    expect(await store.lastRevert()).toBeNull()
+
+    await writeFile(projectDir, indexPath, '{"version":1,"snapshots":[{"id":"m1",')
+    expect(await store.list()).toEqual([])
+    await run(projectDir, 'm4', [{ path: 'done.txt', content: 'shipped\n' }])
+    expect((await store.list()).map((s) => s.id)).toEqual(['m4'])
+    await store.revert(['m4'], 'm3')
+    expect(await readFile(projectDir, 'done.txt')).toBe('ship it\n')
+  })
+
+  it('returns null for a run that changed nothing', async () => {
+    const projectDir = await tempProject()
+    expect(await createSnapshotStore(projectDir).record('m1', new Map())).toBeNull()
+  })
+})
+
+describe('createWriteLog', () => {
+  it('gives the last AI-written content as the base once the file is edited by hand', async () => {
+    const projectDir = await tempProject()
+    const log = createWriteLog(projectDir)
+    await log.record(new Map([['a.txt', 'ai\n']]))
+
+    expect(await log.divergedBase('a.txt', 'ai\n')).toBeNull()
+    expect(await log.divergedBase('a.txt', 'hand edit\n')).toBe('ai\n')
+    expect(await log.divergedBase('never-written.txt', 'x\n')).toBeNull()
+  })
+
+  it('forgets deleted files and keeps one object per logged content', async () => {
+    const projectDir = await tempProject()
+    const log = createWriteLog(projectDir)
+    await log.record(
+      new Map([
+        ['a.txt', 'one\n'],
+        ['b.txt', 'one\n'],
+        ['c.txt', 'two\n']
+      ])
+    )
+    expect(await objectsIn(projectDir, 'ai-writes')).toHaveLength(2)
+
+    await log.record(new Map([['c.txt', null]]))
+    expect(await log.divergedBase('c.txt', 'edited\n')).toBeNull()
+    expect(await objectsIn(projectDir, 'ai-writes')).toHaveLength(1)
+  })
+
+  it('keeps applying changes when its index is corrupt', async () => {
+    const projectDir = await tempProject()
+    await run(projectDir, 'm1', [{ path: 'a.txt', content: 'v1\n' }])
+    await writeFile(projectDir, '.vorbyte/ai-writes/index.json', '{"version":1,"files":{"a.txt":')
+
+    const res = await run(projectDir, 'm2', [{ path: 'a.txt', content: 'v2\n' }])
+    expect(res.writtenFiles).toEqual(['a.txt'])
+    expect(await createWriteLog(projectDir).divergedBase('a.txt', 'edited\n')).toBe('v2\n')
+
+    await writeFile(projectDir, '.vorbyte/ai-writes/index.json', '{"files":{"a.txt":"../../a.txt","b.txt":3}}')
+    expect(await createWriteLog(projectDir).divergedBase('a.txt', 'edited\n')).toBeNull()
+  })
+
+  it('treats restored files as AI-written, so the next run has no conflict', async () => {
+    const projectDir = await tempProject()
+    await run(projectDir, 'm1', [{ path: 'a.txt', content: 'v1\n' }])
+    await run(projectDir, 'm2', [{ path: 'a.txt', content: 'v2\n' }])
+    await createSnapshotStore(projectDir).revert(['m2'], 'm1')
+    expect(await createWriteLog(projectDir).divergedBase('a.txt', 'v1\n')).toBeNull()
+
+    const res = await run(projectDir, 'm3', [{ path: 'a.txt', content: 'v3\n' }])
+    expect(res.conflicts).toEqual([])
+    expect(res.mergedFiles).toEqual([])
+    expect(await readFile(projectDir, 'a.txt')).toBe('v3\n')
+  })
+
+  it('merges a hand edit made after the last run into the next rewrite', async () => {
+    const projectDir = await tempProject()
+    await run(projectDir, 'm1', [{ path: 'list.txt', content: 'a\nb\nc\nd\ne\n' }])
+    await writeFile(projectDir, 'list.txt', 'A\nb\nc\nd\ne\n')
+
+    const res = await run(projectDir, 'm2', [{ path: 'list.txt', content: 'a\nb\nc\nd\nE\n' }])
+    expect(res.mergedFiles).toEqual(['list.txt'])
+    expect(await readFile(projectDir, 'list.txt')).toBe('A\nb\nc\nd\nE\n')
+  })
+})
@@ -0,0 +1,43 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import { describe, expect, it } from 'vitest'
+import { createProjectTools } from '../src/tools'
+import { tempProject } from './helpers'
+
+describe('createProjectTools', () => {
+  it('greps for literal text, so regex syntax and pathological patterns are just text', async () => {
+    const projectDir = await tempProject({
+      'app/page.tsx': 'const [a, setA] = useState(0)\nconst b = useState\n',
+      'lib/long.ts': `export const s = '${'a'.repeat(5000)}!'\n`
+    })
+    const tools = createProjectTools({ projectDir })
+
+    expect(await tools.run('grep', { pattern: 'useState(' })).toBe('app/page.tsx:1: const [a, setA] = useState(0)')
+    expect(await tools.run('grep', { pattern: 'USESTATE', ignoreCase: true })).toContain('app/page.tsx:2:')
+    expect(await tools.run('grep', { pattern: '(a+)+$' })).toBe('No matches.')
+  })
+
+  it('refuses paths that lead out of the project through a symlink', async () => {
+    const outside = await tempProject({ 'secret.txt': 'token\n', 'docs/a.md': '# a\n' })
+    const projectDir = await tempProject({ 'app/page.tsx': 'export {}\n' })
+    await fs.symlink(path.join(outside, 'secret.txt'), path.join(projectDir, 'secret.txt'))
+    await fs.symlink(path.join(outside, 'docs'), path.join(projectDir, 'docs'))
+    const tools = createProjectTools({ projectDir })
+
+    await expect(tools.run('read_file', { path: 'secret.txt' })).rejects.toThrow('outside the project')
+    await expect(tools.run('list_dir', { path: 'docs' })).rejects.toThrow('outside the project')
+    await expect(tools.run('read_file', { path: 'docs/a.md' })).rejects.toThrow('outside the project')
+    await expect(tools.run('grep', { pattern: 'token', path: 'secret.txt' })).rejects.toThrow('outside the project')
+    expect(await tools.run('grep', { pattern: 'token' })).toBe('No matches.')
+    expect(await tools.run('read_file', { path: 'app/page.tsx' })).toBe('1: export {}')
+  })
+
+  it('follows symlinks that stay inside the project', async () => {
+    const projectDir = await tempProject({ 'lib/real.ts': 'export const x = 1\n' })
+    await fs.symlink(path.join(projectDir, 'lib', 'real.ts'), path.join(projectDir, 'lib', 'link.ts'))
+
+    expect(await createProjectTools({ projectDir }).run('read_file', { path: 'lib/link.ts' })).toBe(
+      '1: export const x = 1'
+    )
+  })
+})
@@ -1,50 +1,138 @@
-import type { AIEngine, ChatRequest, ChatStreamChunk, CreateEngineOptions } from './types'
-import { ollamaChat, ollamaChatStream } from './providers/ollama'
-import { openaiChat, openaiChatStream } from './providers/openai'
+import type {
+  AIEngine,
+  ChatRequest,
+  ChatStreamChunk,
+  CreateEngineOptions,
+  ListModelsOptions,
+  ProviderChatResult,
+  ProviderFinish,
+  ToolCall
+} from './types'
+import { getProvider, listProviders } from './registry'
+import { createProviderContext, resolveRetryPolicy } from './shared/retry'
+import { UnsupportedInputError, toEngineError } from './errors'
+import { hasImages, resolveImages } from './shared/content'
 
 export function createAIEngine(opts: CreateEngineOptions): AIEngine {
-  if (opts.provider === 'ollama') {
-    if (!opts.ollama) throw new Error('Missing ollama config')
-    return {
-      async chat(req: ChatRequest) {
-        const text = await ollamaChat(opts.ollama!, req.messages, req.signal)
-        return { text }
-      },
-      async *chatStream(req: ChatRequest): AsyncIterable<ChatStreamChunk> {
-        if (req.stream === false) {
-          const text = await ollamaChat(opts.ollama!, req.messages, req.signal)
-          yield { delta: text }
-          return
-        }
-        for await (const delta of ollamaChatStream(opts.ollama!, req.messages, req.signal)) {
-          yield { delta }
-        }
-      }
+  const factory = getProvider(opts.provider)
+  if (!factory) {
+    throw new Error(`Unknown provider: ${String(opts.provider)} (registered: ${listProviders().join(', ')})`)
+  }
+
+  const config = opts.config ?? (opts as unknown as Record<string, unknown>)[opts.provider]
+  if (!config) throw new Error(`Missing ${opts.provider} config`)
+
+  const adapter = factory(config, createProviderContext(resolveRetryPolicy(opts.retry), opts.onRetry))
+  const model =
+    typeof config === 'object' && 'model' in config && typeof config.model === 'string' ? config.model : undefined
+
+  // Fail before sending anything if the model can't take the input, and read image files up front.
+  async function prepare(req: ChatRequest): Promise<ChatRequest> {
+    const errOpts = { provider: opts.provider, model }
+    if (req.tools?.length && !adapter.capabilities.tools) {
+      throw new UnsupportedInputError(`${model ?? opts.provider} does not support tool calling.`, {
+        ...errOpts,
+        hint: 'Pick a model with tool calling, or send the request without tools.'
+      })
+    }
+
+    if (req.responseFormat && !adapter.capabilities.structuredOutput) {
+      throw new UnsupportedInputError(`${model ?? opts.provider} does not support structured (JSON schema) output.`, {
+        ...errOpts,
+        hint: 'Pick a model with structured output, or send the request without responseFormat.'
+      })
+    }
+
+    if (!hasImages(req.messages)) return req
+    if (!adapter.capabilities.vision) {
+      throw new UnsupportedInputError(`${model ?? opts.provider} does not accept image input.`, errOpts)
+    }
+    try {
+      return { ...req, messages: await resolveImages(req.messages) }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err)
+      throw new UnsupportedInputError(`Could not read image: ${message}`, {
+        ...errOpts,
+        cause: err,
+        hint: 'Attach a png, jpeg, gif or webp file that still exists on disk.'
+      })
     }
   }
 
-  if (opts.provider === 'openai') {
-    if (!opts.openai) throw new Error('Missing openai config')
-    return {
-      async chat(req: ChatRequest) {
-        const text = await openaiChat(opts.openai!, req.messages, req.signal)
-        return { text }
-      },
-      async *chatStream(req: ChatRequest): AsyncIterable<ChatStreamChunk> {
-        if (req.stream === false) {
-          const text = await openaiChat(opts.openai!, req.messages, req.signal)
-          yield { delta: text }
-          return
+  return {
+    provider: opts.provider,
+    capabilities: adapter.capabilities,
+
+    async chat(req: ChatRequest) {
+      const startedAt = Date.now()
+      req = await prepare(req)
+      let res: ProviderChatResult
+      try {
+        res = await adapter.chat(req)
+      } catch (err) {
+        throw toEngineError(err, { provider: opts.provider, model, signal: req.signal })
+      }
+      return {
+        text: res.text,
+        finishReason: res.finishReason ?? 'stop',
+        rawFinishReason: res.rawFinishReason,
+        usage: res.usage,
+        toolCalls: res.toolCalls,
+        totalDurationMs: Date.now() - startedAt
+      }
+    },
+
+    async *chatStream(req: ChatRequest): AsyncIterable<ChatStreamChunk> {
+      const startedAt = Date.now()
+      let timeToFirstTokenMs: number | undefined
+      let finish: ProviderFinish = {}
+      const toolCalls: ToolCall[] = []
+      req = await prepare(req)
+
+      try {
+        if (req.stream === false || !adapter.capabilities.streaming || !adapter.chatStream) {
+          const res = await adapter.chat(req)
+          timeToFirstTokenMs = Date.now() - startedAt
+          if (res.text) yield { delta: res.text }
+          toolCalls.push(...(res.toolCalls ?? []))
+          finish = res
+        } else {
+          for await (const event of adapter.chatStream(req)) {
+            if (event.type === 'delta') {
+              if (timeToFirstTokenMs === undefined) timeToFirstTokenMs = Date.now() - startedAt
+              yield { delta: event.text }
+            } else if (event.type === 'tool-call') {
+              toolCalls.push(event.call)
+            } else {
+              finish = event
+            }
+          }
         }
-        for await (const delta of openaiChatStream(opts.openai!, req.messages, req.signal)) {
-          yield { delta }
+      } catch (err) {
+        if (!req.signal?.aborted) throw toEngineError(err, { provider: opts.provider, model })
+        finish = { ...finish, finishReason: 'cancelled' }
+      }
+
+      yield {
+        delta: '',
+        final: {
+          finishReason: finish.finishReason ?? 'stop',
+          rawFinishReason: finish.rawFinishReason,
+          usage: finish.usage,
+          toolCalls: toolCalls.length ? toolCalls : undefined,
+          timeToFirstTokenMs,
+          totalDurationMs: Date.now() - startedAt
         }
       }
+    },
+
+    async listModels(listOpts?: ListModelsOptions) {
+      if (!adapter.listModels) throw new Error(`Provider ${opts.provider} cannot list models`)
+      try {
+        return await adapter.listModels(listOpts)
+      } catch (err) {
+        throw toEngineError(err, { provider: opts.provider, model, signal: listOpts?.signal })
+      }
     }
   }
-
-  // Exhaustive guard
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const neverProvider: any = opts.provider
-  throw new Error(`Unknown provider: ${String(neverProvider)}`)
 }
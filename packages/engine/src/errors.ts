@@ -0,0 +1,233 @@
+import { connectErrorCode } from './shared/retry'
+
+export type EngineErrorCode =
+  | 'auth'
+  | 'model-not-found'
+  | 'connection'
+  | 'rate-limit'
+  | 'context-too-long'
+  | 'cancelled'
+  | 'bad-response'
+  | 'unsupported-input'
+
+export interface EngineErrorOptions {
+  provider: string
+  model?: string
+  /**
+   * HTTP status of the failed response, if there was one.
+   */
+  status?: number
+  /**
+   * Short, user-facing suggestion for fixing the problem. Backticks mark commands.
+   */
+  hint?: string
+  cause?: unknown
+}
+
+/**
+ * Base class for everything the engine throws. `code` is stable and meant for UI decisions;
+ * `message` is for humans and may change.
+ */
+export class EngineError extends Error {
+  readonly code: EngineErrorCode
+  readonly provider: string
+  readonly model?: string
+  readonly status?: number
+  readonly hint?: string
+
+  constructor(code: EngineErrorCode, message: string, opts: EngineErrorOptions) {
+    super(message, { cause: opts.cause })
+    this.name = 'EngineError'
+    this.code = code
+    this.provider = opts.provider
+    this.model = opts.model
+    this.status = opts.status
+    this.hint = opts.hint ?? defaultHint(code, opts)
+  }
+}
+
+export class AuthError extends EngineError {
+  constructor(message: string, opts: EngineErrorOptions) {
+    super('auth', message, opts)
+    this.name = 'AuthError'
+  }
+}
+
+export class ModelNotFoundError extends EngineError {
+  constructor(message: string, opts: EngineErrorOptions) {
+    super('model-not-found', message, opts)
+    this.name = 'ModelNotFoundError'
+  }
+}
+
+export class ConnectionError extends EngineError {
+  constructor(message: string, opts: EngineErrorOptions) {
+    super('connection', message, opts)
+    this.name = 'ConnectionError'
+  }
+}
+
+export class RateLimitError extends EngineError {
+  constructor(message: string, opts: EngineErrorOptions) {
+    super('rate-limit', message, opts)
+    this.name = 'RateLimitError'
+  }
+}
+
+export class ContextTooLongError extends EngineError {
+  constructor(message: string, opts: EngineErrorOptions) {
+    super('context-too-long', message, opts)
+    this.name = 'ContextTooLongError'
+  }
+}
+
+export class CancelledError extends EngineError {
+  constructor(message: string, opts: EngineErrorOptions) {
+    super('cancelled', message, opts)
+    this.name = 'CancelledError'
+  }
+}
+
+export class BadResponseError extends EngineError {
+  constructor(message: string, opts: EngineErrorOptions) {
+    super('bad-response', message, opts)
+    this.name = 'BadResponseError'
+  }
+}
+
+/**
+ * The request uses something the model can't take (e.g. images for a text-only model).
+ * Thrown before anything is sent.
+ */
+export class UnsupportedInputError extends EngineError {
+  constructor(message: string, opts: EngineErrorOptions) {
+    super('unsupported-input', message, opts)
+    this.name = 'UnsupportedInputError'
+  }
+}
+
+const ERROR_CLASSES: Record<EngineErrorCode, new (message: string, opts: EngineErrorOptions) => EngineError> = {
+  auth: AuthError,
+  'model-not-found': ModelNotFoundError,
+  connection: ConnectionError,
+  'rate-limit': RateLimitError,
+  'context-too-long': ContextTooLongError,
+  cancelled: CancelledError,
+  'bad-response': BadResponseError,
+  'unsupported-input': UnsupportedInputError
+}
+
+export function createEngineError(code: EngineErrorCode, message: string, opts: EngineErrorOptions): EngineError {
+  return new ERROR_CLASSES[code](message, opts)
+}
+
+export function isEngineError(err: unknown): err is EngineError {
+  return err instanceof EngineError
+}
+
+const PROVIDER_LABELS: Record<string, string> = {
+  ollama: 'Ollama',
+  openai: 'OpenAI',
+  anthropic: 'Anthropic'
+}
+
+export function providerLabel(provider: string) {
+  return PROVIDER_LABELS[provider] ?? provider
+}
+
+function defaultHint(code: EngineErrorCode, opts: EngineErrorOptions): string | undefined {
+  const label = providerLabel(opts.provider)
+  switch (code) {
+    case 'auth':
+      return `Check the ${label} API key in Settings.`
+    case 'model-not-found':
+      if (opts.provider === 'ollama') return `Run \`ollama pull ${opts.model ?? '<model>'}\`, then try again.`
+      return `Pick another model in Settings; ${opts.model ? `"${opts.model}"` : 'this model'} isn't available to this key.`
+    case 'connection':
+      if (opts.provider === 'ollama') return 'Make sure Ollama is running (open the Ollama app, or run `ollama serve`).'
+      return `Check your network connection and the ${label} base URL.`
+    case 'rate-limit':
+      return `${label} is rate limiting requests. Wait a minute and try again.`
+    case 'context-too-long':
+      return 'The prompt is too large for this model. Clear the chat or ask about fewer files.'
+    case 'bad-response':
+      return opts.status !== undefined && opts.status >= 500 ? `${label} had a server problem; try again shortly.` : undefined
+    case 'unsupported-input':
+      return 'Pick a vision-capable model (e.g. gpt-4o, Claude, or llava on Ollama), or remove the images.'
+    case 'cancelled':
+      return undefined
+  }
+}
+
+const CONTEXT_TOO_LONG = /context[_ ]length|maximum context|prompt is too long|too many tokens|context window/i
+// Ollama: "<model> does not support tools"
+const UNSUPPORTED_TOOLS = /does not support tools/i
+
+/**
+ * Map an HTTP status + provider error body to an error code. Bodies are matched loosely:
+ * OpenAI and Anthropic send `{ error: { type, code, message } }`, Ollama `{ error: "..." }`.
+ */
+function classify(status: number, detail: string, errorCode: string): EngineErrorCode {
+  if (status === 401 || status === 403 || /authentication|invalid_api_key|permission/i.test(errorCode)) return 'auth'
+  if (status === 429 || status === 529 || /rate_limit|overloaded/i.test(errorCode)) return 'rate-limit'
+  if (CONTEXT_TOO_LONG.test(detail) || /context_length/i.test(errorCode)) return 'context-too-long'
+  if (UNSUPPORTED_TOOLS.test(detail)) return 'unsupported-input'
+  if (status === 404 && (/model/i.test(detail) || /model_not_found|not_found/i.test(errorCode))) {
+    return 'model-not-found'
+  }
+  return 'bad-response'
+}
+
+/**
+ * Build the EngineError for a non-OK provider response. Reads (and consumes) the body.
+ */
+export async function errorFromResponse(res: Response, opts: { provider: string; model?: string }) {
+  const text = await res.text().catch(() => '')
+  let detail = text || res.statusText
+  let errorCode = ''
+  try {
+    const json = JSON.parse(text)
+    const err = json?.error
+    if (typeof err === 'string') {
+      detail = err
+    } else if (err) {
+      detail = String(err.message ?? detail)
+      errorCode = [err.type, err.code].filter(Boolean).join(' ')
+    }
+  } catch {
+    // not JSON; keep the raw text
+  }
+
+  const code = classify(res.status, detail, errorCode)
+  let hint: string | undefined
+  if (code === 'rate-limit' && /insufficient_quota/i.test(errorCode)) {
+    hint = `Your ${providerLabel(opts.provider)} account is out of credits. Check your plan and billing details.`
+  } else if (code === 'unsupported-input' && UNSUPPORTED_TOOLS.test(detail)) {
+    hint = 'Pick a model with tool calling (e.g. llama3.1, qwen2.5 or mistral-nemo on Ollama).'
+  }
+
+  return createEngineError(code, `${providerLabel(opts.provider)} error ${res.status}: ${detail}`, {
+    ...opts,
+    status: res.status,
+    hint
+  })
+}
+
+/**
+ * Normalize anything thrown while talking to a provider into an EngineError.
+ */
+export function toEngineError(err: unknown, opts: { provider: string; model?: string; signal?: AbortSignal }) {
+  if (isEngineError(err)) return err
+
+  const base = { provider: opts.provider, model: opts.model, cause: err }
+  const message = err instanceof Error ? err.message : String(err)
+
+  if (opts.signal?.aborted || (err instanceof Error && err.name === 'AbortError')) {
+    return new CancelledError('The request was cancelled.', base)
+  }
+  const code = connectErrorCode(err)
+  if (code) {
+    return new ConnectionError(`Could not connect to ${providerLabel(opts.provider)} (${code}): ${message}`, base)
+  }
+  return new BadResponseError(message, base)
+}
@@ -1,2 +1,8 @@
 export * from './types'
+export * from './errors'
 export { createAIEngine } from './createAIEngine'
+export { DEFAULT_RETRY_POLICY } from './shared/retry'
+export { registerProvider, unregisterProvider, getProvider, listProviders } from './registry'
+export { ollamaProvider, createOllamaModelManager } from './providers/ollama'
+export { openaiProvider } from './providers/openai'
+export { anthropicProvider } from './providers/anthropic'
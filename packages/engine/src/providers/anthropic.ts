@@ -0,0 +1,248 @@
+import { readSseData } from '../shared/sse'
+import { normalizeFinishReason, toUsage } from '../shared/finish'
+import { BadResponseError, RateLimitError, errorFromResponse } from '../errors'
+import { contentText, parseDataUrl, toParts } from '../shared/content'
+import { createToolCallAssembler, parseToolArguments } from '../shared/tools'
+import type {
+  AnthropicConfig,
+  ChatMessage,
+  ChatRequest,
+  ContentPart,
+  ListModelsOptions,
+  ModelInfo,
+  ProviderChatResult,
+  ProviderContext,
+  ProviderFactory,
+  ProviderFinish,
+  ProviderStreamEvent,
+  ToolCall,
+  ToolChoice
+} from '../types'
+
+const DEFAULT_BASE_URL = 'https://api.anthropic.com'
+const DEFAULT_API_VERSION = '2023-06-01'
+const DEFAULT_MAX_TOKENS = 8192
+const CONTEXT_LENGTH = 200_000
+
+type AnthropicRole = 'user' | 'assistant'
+type AnthropicBlock = { type: string; text?: string; [key: string]: unknown }
+
+function toAnthropicBlock(part: ContentPart): AnthropicBlock {
+  if (part.type === 'text') return { type: 'text', text: part.text }
+  const data = parseDataUrl(part.url ?? '')
+  return data
+    ? { type: 'image', source: { type: 'base64', media_type: part.mimeType ?? data.mimeType, data: data.base64 } }
+    : { type: 'image', source: { type: 'url', url: part.url } }
+}
+
+function toAnthropicBlocks(m: ChatMessage): AnthropicBlock[] {
+  if (m.role === 'tool') return [{ type: 'tool_result', tool_use_id: m.toolCallId, content: contentText(m.content) }]
+  const blocks = toParts(m.content).map(toAnthropicBlock)
+  for (const c of m.toolCalls ?? []) blocks.push({ type: 'tool_use', id: c.id, name: c.name, input: c.arguments })
+  return blocks
+}
+
+function toAnthropicRequest(messages: ChatMessage[]) {
+  // The Messages API takes the system prompt as a top-level field, and the remaining
+  // turns must alternate user/assistant, so consecutive same-role messages are merged.
+  const system = messages
+    .filter((m) => m.role === 'system')
+    .map((m) => contentText(m.content))
+    .join('\n\n')
+
+  const turns: { role: AnthropicRole; blocks: AnthropicBlock[] }[] = []
+  for (const m of messages) {
+    if (m.role === 'system') continue
+    // Tool results go back to the model in a user turn.
+    const role: AnthropicRole = m.role === 'assistant' ? 'assistant' : 'user'
+    const last = turns[turns.length - 1]
+    if (last && last.role === role) {
+      last.blocks.push(...toAnthropicBlocks(m))
+    } else {
+      turns.push({ role, blocks: toAnthropicBlocks(m) })
+    }
+  }
+
+  return {
+    system: system || undefined,
+    // Text-only turns stay plain strings; content blocks are only needed for images and tools.
+    messages: turns.map((t) =>
+      t.blocks.every((b) => b.type === 'text')
+        ? { role: t.role, content: t.blocks.map((b) => b.text).join('\n\n') }
+        : { role: t.role, content: t.blocks.filter((b) => b.type !== 'text' || b.text) }
+    )
+  }
+}
+
+const TOOL_CHOICE: Record<ToolChoice, string> = { auto: 'auto', none: 'none', required: 'any' }
+
+function toolParams(req: ChatRequest) {
+  if (!req.tools?.length) return {}
+  return {
+    tools: req.tools.map((t) => ({ name: t.name, description: t.description, input_schema: t.parameters })),
+    tool_choice: req.toolChoice ? { type: TOOL_CHOICE[req.toolChoice] } : undefined
+  }
+}
+
+function buildRequest(config: AnthropicConfig, req: ChatRequest, stream: boolean) {
+  const baseUrl = (config.baseUrl ?? DEFAULT_BASE_URL).replace(/\/$/, '')
+  const { system, messages: turns } = toAnthropicRequest(req.messages)
+
+  const url = `${baseUrl}/v1/messages`
+  const init: RequestInit = {
+    method: 'POST',
+    headers: {
+      'x-api-key': config.apiKey,
+      'anthropic-version': config.apiVersion ?? DEFAULT_API_VERSION,
+      'content-type': 'application/json'
+    },
+    signal: req.signal,
+    body: JSON.stringify({
+      model: config.model,
+      system,
+      messages: turns,
+      max_tokens: config.maxTokens ?? DEFAULT_MAX_TOKENS,
+      temperature: config.temperature ?? 0.2,
+      stream,
+      ...toolParams(req)
+    })
+  }
+  return { url, init }
+}
+
+export async function anthropicChat(
+  config: AnthropicConfig,
+  req: ChatRequest,
+  ctx: ProviderContext
+): Promise<ProviderChatResult> {
+  const { url, init } = buildRequest(config, req, false)
+  const res = await ctx.fetch(url, init, req.onRetry)
+
+  if (!res.ok) throw await errorFromResponse(res, { provider: 'anthropic', model: config.model })
+
+  const json = (await res.json()) as any
+  const blocks: any[] = Array.isArray(json?.content) ? json.content : []
+  const text = blocks
+    .filter((b) => b?.type === 'text')
+    .map((b) => String(b.text ?? ''))
+    .join('')
+  const toolCalls: ToolCall[] = blocks
+    .filter((b) => b?.type === 'tool_use')
+    .map((b) => ({
+      id: String(b.id),
+      name: String(b.name ?? ''),
+      arguments: parseToolArguments(b.input, { provider: 'anthropic', model: config.model, name: String(b.name) })
+    }))
+  return {
+    text,
+    toolCalls: toolCalls.length ? toolCalls : undefined,
+    finishReason: normalizeFinishReason(json?.stop_reason),
+    rawFinishReason: json?.stop_reason ?? undefined,
+    usage: toUsage(json?.usage?.input_tokens, json?.usage?.output_tokens)
+  }
+}
+
+export async function* anthropicChatStream(
+  config: AnthropicConfig,
+  req: ChatRequest,
+  ctx: ProviderContext
+): AsyncGenerator<ProviderStreamEvent> {
+  const { url, init } = buildRequest(config, req, true)
+  const res = await ctx.fetch(url, init, req.onRetry)
+
+  if (!res.ok || !res.body) throw await errorFromResponse(res, { provider: 'anthropic', model: config.model })
+
+  // Input tokens arrive with message_start, output tokens and stop_reason with message_delta.
+  let inputTokens: number | undefined
+  let outputTokens: number | undefined
+  const finish: ProviderFinish = {}
+  // tool_use blocks stream their input as partial JSON until content_block_stop.
+  const toolCalls = createToolCallAssembler({ provider: 'anthropic', model: config.model })
+
+  for await (const data of readSseData(res.body)) {
+    let json: any
+    try {
+      json = JSON.parse(data)
+    } catch {
+      continue
+    }
+
+    if (json?.type === 'content_block_delta' && json?.delta?.type === 'text_delta') {
+      const delta = json.delta.text
+      if (typeof delta === 'string' && delta.length > 0) yield { type: 'delta', text: delta }
+    } else if (json?.type === 'content_block_start' && json?.content_block?.type === 'tool_use') {
+      toolCalls.push(json.index, { id: json.content_block.id, name: json.content_block.name })
+    } else if (json?.type === 'content_block_delta' && json?.delta?.type === 'input_json_delta') {
+      toolCalls.push(json.index, { arguments: json.delta.partial_json })
+    } else if (json?.type === 'content_block_stop' && toolCalls.has(json.index)) {
+      yield { type: 'tool-call', call: toolCalls.take(json.index)! }
+    } else if (json?.type === 'message_start') {
+      inputTokens = json?.message?.usage?.input_tokens
+    } else if (json?.type === 'message_delta') {
+      if (json?.usage?.output_tokens !== undefined) outputTokens = json.usage.output_tokens
+      if (json?.delta?.stop_reason) {
+        finish.finishReason = normalizeFinishReason(json.delta.stop_reason)
+        finish.rawFinishReason = json.delta.stop_reason
+      }
+    } else if (json?.type === 'message_stop') {
+      break
+    } else if (json?.type === 'error') {
+      const err = json?.error
+      const message = `Anthropic stream error: ${err?.type ?? 'error'}: ${err?.message ?? data}`
+      const opts = { provider: 'anthropic', model: config.model }
+      if (err?.type === 'overloaded_error' || err?.type === 'rate_limit_error') throw new RateLimitError(message, opts)
+      throw new BadResponseError(message, opts)
+    }
+  }
+
+  for (const call of toolCalls.takeAll()) yield { type: 'tool-call', call }
+  yield { type: 'finish', ...finish, usage: toUsage(inputTokens, outputTokens) }
+}
+
+export async function anthropicListModels(
+  config: AnthropicConfig,
+  ctx: ProviderContext,
+  opts: ListModelsOptions = {}
+): Promise<ModelInfo[]> {
+  const baseUrl = (config.baseUrl ?? DEFAULT_BASE_URL).replace(/\/$/, '')
+  const models: ModelInfo[] = []
+  let afterId: string | undefined
+
+  // Paginated; a handful of pages at most.
+  for (let page = 0; page < 10; page++) {
+    const url = `${baseUrl}/v1/models?limit=100${afterId ? `&after_id=${encodeURIComponent(afterId)}` : ''}`
+    const res = await ctx.fetch(url, {
+      headers: {
+        'x-api-key': config.apiKey,
+        'anthropic-version': config.apiVersion ?? DEFAULT_API_VERSION
+      },
+      signal: opts.signal
+    })
+    if (!res.ok) throw await errorFromResponse(res, { provider: 'anthropic', model: config.model })
+
+    const json = (await res.json()) as any
+    const data: any[] = Array.isArray(json?.data) ? json.data : []
+    for (const m of data) {
+      if (typeof m?.id !== 'string') continue
+      models.push({
+        id: m.id,
+        displayName: m.display_name || undefined,
+        contextLength: CONTEXT_LENGTH,
+        modifiedAt: m.created_at || undefined
+      })
+    }
+
+    if (!json?.has_more || !json?.last_id) break
+    afterId = json.last_id
+  }
+
+  return models
+}
+
+export const anthropicProvider: ProviderFactory<AnthropicConfig> = (config, ctx) => ({
+  // No JSON-schema response format in the Messages API; callers fall back to prompting.
+  capabilities: { streaming: true, vision: true, tools: true, structuredOutput: false, contextLength: CONTEXT_LENGTH },
+  chat: (req) => anthropicChat(config, req, ctx),
+  chatStream: (req) => anthropicChatStream(config, req, ctx),
+  listModels: (opts) => anthropicListModels(config, ctx, opts)
+})
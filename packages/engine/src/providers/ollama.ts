@@ -1,11 +1,95 @@
 import { readNdjson } from '../shared/ndjson'
-import type { ChatMessage, OllamaConfig } from '../types'
+import { normalizeFinishReason, toUsage } from '../shared/finish'
+import { createProviderContext, isNetworkConnectError, resolveRetryPolicy } from '../shared/retry'
+import {
+  BadResponseError,
+  ConnectionError,
+  ModelNotFoundError,
+  UnsupportedInputError,
+  errorFromResponse,
+  toEngineError
+} from '../errors'
+import { contentImages, contentText, parseDataUrl } from '../shared/content'
+import { generateToolCallId, parseToolArguments, toFunctionTools } from '../shared/tools'
+import type {
+  ChatMessage,
+  ChatRequest,
+  ListModelsOptions,
+  ModelInfo,
+  OllamaConfig,
+  OllamaModelDetails,
+  OllamaModelManager,
+  OllamaModelManagerOptions,
+  OllamaPullProgress,
+  ProviderChatResult,
+  ProviderContext,
+  ProviderFactory,
+  ProviderFinish,
+  ProviderStreamEvent,
+  RetryInfo,
+  ToolCall
+} from '../types'
 
 const DEFAULT_BASE_URL = 'http://127.0.0.1:11434'
 
-function toOllamaMessages(messages: ChatMessage[]) {
-  // Ollama chat expects { role, content }
-  return messages.map((m) => ({ role: m.role, content: m.content }))
+// Name patterns of multimodal models in the Ollama library.
+const VISION_MODEL = /llava|bakllava|vision|gemma3|qwen2\.5vl|qwen2-vl|minicpm-v|moondream|llama4|granite3\.2-vision/i
+
+function toOllamaMessages(config: OllamaConfig, messages: ChatMessage[]) {
+  // Ollama chat expects { role, content, images?: base64[], tool_calls?, tool_name? }
+  return messages.map((m) => {
+    const images = contentImages(m.content).map((img) => {
+      const data = img.url ? parseDataUrl(img.url) : null
+      if (!data) {
+        throw new UnsupportedInputError('Ollama only accepts inline images (data: URLs or local files).', {
+          provider: 'ollama',
+          model: config.model,
+          hint: 'Download the image and attach the file instead.'
+        })
+      }
+      return data.base64
+    })
+    const out: Record<string, unknown> = { role: m.role, content: contentText(m.content) }
+    if (images.length) out.images = images
+    if (m.toolCalls?.length) {
+      out.tool_calls = m.toolCalls.map((c) => ({ function: { name: c.name, arguments: c.arguments } }))
+    }
+    if (m.role === 'tool' && m.toolName) out.tool_name = m.toolName
+    return out
+  })
+}
+
+function toToolCalls(config: OllamaConfig, message: any): ToolCall[] {
+  // Ollama sends complete calls (arguments as an object); older versions send no ids.
+  const calls: any[] = Array.isArray(message?.tool_calls) ? message.tool_calls : []
+  return calls.map((c) => {
+    const name = String(c?.function?.name ?? '')
+    return {
+      id: typeof c?.id === 'string' && c.id ? c.id : generateToolCallId(),
+      name,
+      arguments: parseToolArguments(c?.function?.arguments, { provider: 'ollama', model: config.model, name })
+    }
+  })
+}
+
+function toolParams(req: ChatRequest) {
+  // No tool_choice equivalent; 'none' is honored by not offering tools at all.
+  if (!req.tools?.length || req.toolChoice === 'none') return {}
+  return { tools: toFunctionTools(req.tools) }
+}
+
+function formatParams(req: ChatRequest) {
+  // `format` takes the JSON schema itself (Ollama 0.5+).
+  return req.responseFormat ? { format: req.responseFormat.schema } : {}
+}
+
+function toFinish(obj: any): ProviderFinish {
+  // The final object (done: true) carries done_reason and the token counts.
+  return {
+    finishReason: normalizeFinishReason(obj?.done_reason),
+    rawFinishReason: obj?.done_reason,
+    usage: toUsage(obj?.prompt_eval_count, obj?.eval_count)
+  }
 }
 
 function normalizeBaseUrl(raw?: string) {
@@ -41,136 +125,291 @@ function buildCandidateBaseUrls(raw?: string): string[] {
   return Array.from(candidates)
 }
 
-function isNetworkConnectError(err: unknown) {
-  // Node's fetch throws TypeError with a nested `cause` for network issues.
-  const anyErr = err as any
-  const cause = anyErr?.cause
-  const code = cause?.code ?? anyErr?.code
-  return (
-    code === 'ECONNREFUSED' ||
-    code === 'ENOTFOUND' ||
-    code === 'EHOSTUNREACH' ||
-    code === 'ECONNRESET' ||
-    code === 'ETIMEDOUT'
-  )
-}
-
-function formatConnectHelp(candidates: string[], err: unknown) {
+function connectError(candidates: string[], err: unknown, model: string) {
   const anyErr = err as any
   const cause = anyErr?.cause
   const code = cause?.code ?? anyErr?.code
   const detail = cause?.message ?? anyErr?.message ?? String(err)
 
-  return [
-    `Could not connect to Ollama.`,
-    ``,
-    `Tried:`,
-    ...candidates.map((c) => `- ${c}`),
-    ``,
-    `Fix:`,
-    `- Make sure Ollama is running (open the Ollama app, or run \`ollama serve\`).`,
-    `- Make sure it's listening on port 11434.`,
-    `- If you use a different host/port, set VORBYTE_OLLAMA_BASE_URL (or configure it in Settings if your build has that UI).`,
-    `- Ensure the model is available: \`ollama pull <model>\``,
-    ``,
-    `Details: ${code ? `${code} ` : ''}${detail}`
-  ].join('\n')
-}
-
-export async function ollamaChat(config: OllamaConfig, messages: ChatMessage[], signal?: AbortSignal) {
+  const message = `Could not connect to Ollama (tried ${candidates.join(', ')}): ${code ? `${code} ` : ''}${detail}`
+  return new ConnectionError(message, {
+    provider: 'ollama',
+    model,
+    cause: err,
+    hint: [
+      'Make sure Ollama is running (open the Ollama app, or run `ollama serve`) and listening on port 11434.',
+      'If you use a different host/port, set the Ollama URL in Settings (or VORBYTE_OLLAMA_BASE_URL).'
+    ].join('\n')
+  })
+}
+
+/**
+ * Request `path` from Ollama, trying each candidate base URL in turn. The whole sweep runs
+ * under the retry policy, so a server that is still starting up gets a few more chances.
+ */
+function ollamaFetch(
+  config: OllamaConfig,
+  ctx: ProviderContext,
+  path: string,
+  init: RequestInit,
+  onRetry?: (info: RetryInfo) => void
+) {
   const candidates = buildCandidateBaseUrls(config.baseUrl)
-  let lastErr: unknown = null
 
-  for (const baseUrl of candidates) {
-    const url = `${baseUrl}/api/chat`
+  return ctx.retry(
+    async () => {
+      let lastErr: unknown = null
 
-    try {
-      const res = await fetch(url, {
-        method: 'POST',
-        headers: { 'content-type': 'application/json' },
-        signal,
-        body: JSON.stringify({
-          model: config.model,
-          messages: toOllamaMessages(messages),
-          stream: false,
-          options: {
-            temperature: config.temperature
+      for (const baseUrl of candidates) {
+        try {
+          return await fetch(`${baseUrl}${path}`, init)
+        } catch (err) {
+          lastErr = err
+          if (isNetworkConnectError(err) && candidates.length > 1) {
+            // Try next candidate (e.g., localhost -> 127.0.0.1)
+            continue
           }
-        })
-      })
-
-      if (!res.ok) {
-        const text = await res.text().catch(() => '')
-        throw new Error(`Ollama error ${res.status}: ${text || res.statusText}`)
+          // Non-network error, or only one candidate: rethrow.
+          throw err
+        }
       }
 
-      const data = (await res.json()) as any
-      const content = data?.message?.content ?? ''
-      return String(content)
-    } catch (err) {
-      lastErr = err
-      if (isNetworkConnectError(err) && candidates.length > 1) {
-        // Try next candidate (e.g., localhost -> 127.0.0.1)
-        continue
-      }
-      // Non-network error, or only one candidate: rethrow.
-      throw err
+      // All candidates failed with a network error. The original stays as `cause`, so it is still retried.
+      throw connectError(candidates, lastErr, config.model)
+    },
+    { signal: init.signal ?? undefined, onRetry }
+  )
+}
+
+function postChat(config: OllamaConfig, req: ChatRequest, ctx: ProviderContext, body: unknown) {
+  return ollamaFetch(
+    config,
+    ctx,
+    '/api/chat',
+    {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      signal: req.signal,
+      body: JSON.stringify(body)
+    },
+    req.onRetry
+  )
+}
+
+export async function ollamaChat(
+  config: OllamaConfig,
+  req: ChatRequest,
+  ctx: ProviderContext
+): Promise<ProviderChatResult> {
+  const res = await postChat(config, req, ctx, {
+    model: config.model,
+    messages: toOllamaMessages(config, req.messages),
+    stream: false,
+    options: {
+      temperature: config.temperature,
+      num_predict: config.numPredict
+    },
+    ...toolParams(req),
+    ...formatParams(req)
+  })
+
+  if (!res.ok) throw await errorFromResponse(res, { provider: 'ollama', model: config.model })
+
+  const data = (await res.json()) as any
+  const content = data?.message?.content ?? ''
+  const toolCalls = toToolCalls(config, data?.message)
+  const finish = toFinish(data)
+  if (toolCalls.length === 0) return { text: String(content), ...finish }
+  // done_reason stays "stop" when the model called tools.
+  return { text: String(content), toolCalls, ...finish, finishReason: 'tool-calls' }
+}
+
+export async function* ollamaChatStream(
+  config: OllamaConfig,
+  req: ChatRequest,
+  ctx: ProviderContext
+): AsyncGenerator<ProviderStreamEvent> {
+  const res = await postChat(config, req, ctx, {
+    model: config.model,
+    messages: toOllamaMessages(config, req.messages),
+    stream: true,
+    options: {
+      temperature: config.temperature,
+      num_predict: config.numPredict
+    },
+    ...toolParams(req),
+    ...formatParams(req)
+  })
+
+  if (!res.ok || !res.body) throw await errorFromResponse(res, { provider: 'ollama', model: config.model })
+
+  let sawToolCalls = false
+  for await (const obj of readNdjson(res.body)) {
+    const delta = obj?.message?.content
+    if (typeof delta === 'string' && delta.length > 0) {
+      yield { type: 'delta', text: delta }
+    }
+    // Each call arrives whole, in whichever chunk the model finished it.
+    for (const call of toToolCalls(config, obj?.message)) {
+      sawToolCalls = true
+      yield { type: 'tool-call', call }
+    }
+    if (obj?.done) {
+      const finish = toFinish(obj)
+      yield { type: 'finish', ...finish, ...(sawToolCalls ? { finishReason: 'tool-calls' as const } : {}) }
+      break
     }
   }
+}
 
-  // All candidates failed with a network error
-  throw new Error(formatConnectHelp(candidates, lastErr))
+export async function ollamaListModels(
+  config: OllamaConfig,
+  ctx: ProviderContext,
+  opts: ListModelsOptions = {}
+): Promise<ModelInfo[]> {
+  const res = await ollamaFetch(config, ctx, '/api/tags', { signal: opts.signal })
+  if (!res.ok) throw await errorFromResponse(res, { provider: 'ollama', model: config.model })
+
+  const json = (await res.json()) as any
+  const models: any[] = Array.isArray(json?.models) ? json.models : []
+  return models.map((m) => ({
+    id: String(m.name ?? m.model),
+    family: m.details?.family || undefined,
+    parameterSize: m.details?.parameter_size || undefined,
+    quantization: m.details?.quantization_level || undefined,
+    sizeBytes: typeof m.size === 'number' ? m.size : undefined,
+    modifiedAt: m.modified_at || undefined
+  }))
 }
 
-export async function* ollamaChatStream(
+/**
+ * Pull one model, reporting aggregated progress. Ollama reports failures (e.g. an unknown
+ * model name) as an `error` line inside a 200 stream, so those are checked as well.
+ */
+export async function ollamaPullModel(
   config: OllamaConfig,
-  messages: ChatMessage[],
-  signal?: AbortSignal
-): AsyncGenerator<string> {
-  const candidates = buildCandidateBaseUrls(config.baseUrl)
-  let lastErr: unknown = null
+  ctx: ProviderContext,
+  opts: { signal?: AbortSignal; onProgress?: (progress: OllamaPullProgress) => void } = {}
+): Promise<void> {
+  const model = config.model
+  const res = await ollamaFetch(config, ctx, '/api/pull', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    signal: opts.signal,
+    body: JSON.stringify({ model, stream: true })
+  })
+  if (!res.ok || !res.body) throw await errorFromResponse(res, { provider: 'ollama', model })
 
-  for (const baseUrl of candidates) {
-    const url = `${baseUrl}/api/chat`
+  // Layers download one after another; keep per-digest sizes to report overall progress.
+  const layers = new Map<string, { total: number; completed: number }>()
 
-    try {
-      const res = await fetch(url, {
-        method: 'POST',
-        headers: { 'content-type': 'application/json' },
-        signal,
-        body: JSON.stringify({
-          model: config.model,
-          messages: toOllamaMessages(messages),
-          stream: true,
-          options: {
-            temperature: config.temperature,
-            num_predict: config.numPredict
-          }
+  for await (const obj of readNdjson(res.body)) {
+    if (obj?.error) {
+      const message = `Ollama pull failed: ${obj.error}`
+      if (/not found|does not exist/i.test(String(obj.error))) {
+        throw new ModelNotFoundError(message, {
+          provider: 'ollama',
+          model,
+          hint: 'Check the model name. Available models are listed at https://ollama.com/library.'
         })
-      })
-
-      if (!res.ok || !res.body) {
-        const text = await res.text().catch(() => '')
-        throw new Error(`Ollama stream error ${res.status}: ${text || res.statusText}`)
       }
+      throw new BadResponseError(message, { provider: 'ollama', model })
+    }
 
-      for await (const obj of readNdjson(res.body)) {
-        const delta = obj?.message?.content
-        if (typeof delta === 'string' && delta.length > 0) {
-          yield delta
-        }
-        if (obj?.done) break
-      }
+    if (obj?.digest && typeof obj.total === 'number') {
+      layers.set(obj.digest, { total: obj.total, completed: obj.completed ?? 0 })
+    }
+    const sizes = Array.from(layers.values())
+    opts.onProgress?.({
+      model,
+      status: String(obj?.status ?? ''),
+      completed: sizes.length > 0 ? sizes.reduce((n, l) => n + l.completed, 0) : undefined,
+      total: sizes.length > 0 ? sizes.reduce((n, l) => n + l.total, 0) : undefined
+    })
+
+    if (obj?.status === 'success') return
+  }
+
+  throw new BadResponseError('Ollama pull ended before reporting success.', { provider: 'ollama', model })
+}
 
-      return
+export async function ollamaDeleteModel(
+  config: OllamaConfig,
+  ctx: ProviderContext,
+  opts: { signal?: AbortSignal } = {}
+): Promise<void> {
+  const res = await ollamaFetch(config, ctx, '/api/delete', {
+    method: 'DELETE',
+    headers: { 'content-type': 'application/json' },
+    signal: opts.signal,
+    body: JSON.stringify({ model: config.model })
+  })
+  if (!res.ok) throw await errorFromResponse(res, { provider: 'ollama', model: config.model })
+}
+
+export async function ollamaShowModel(
+  config: OllamaConfig,
+  ctx: ProviderContext,
+  opts: { signal?: AbortSignal } = {}
+): Promise<OllamaModelDetails> {
+  const res = await ollamaFetch(config, ctx, '/api/show', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    signal: opts.signal,
+    body: JSON.stringify({ model: config.model })
+  })
+  if (!res.ok) throw await errorFromResponse(res, { provider: 'ollama', model: config.model })
+
+  const json = (await res.json()) as any
+  const info: Record<string, unknown> = json?.model_info ?? {}
+  // The trained context length is stored as "<architecture>.context_length".
+  const contextKey = Object.keys(info).find((k) => k.endsWith('.context_length'))
+  return {
+    id: config.model,
+    family: json?.details?.family || undefined,
+    parameterSize: json?.details?.parameter_size || undefined,
+    quantization: json?.details?.quantization_level || undefined,
+    contextLength: contextKey && typeof info[contextKey] === 'number' ? (info[contextKey] as number) : undefined,
+    modifiedAt: json?.modified_at || undefined,
+    parameters: json?.parameters || undefined,
+    template: json?.template || undefined,
+    license: json?.license || undefined,
+    capabilities: Array.isArray(json?.capabilities) ? json.capabilities : undefined
+  }
+}
+
+export function createOllamaModelManager(opts: OllamaModelManagerOptions = {}): OllamaModelManager {
+  const ctx = createProviderContext(resolveRetryPolicy(opts.retry))
+  const configFor = (model: string): OllamaConfig => ({ baseUrl: opts.baseUrl, model })
+
+  // Same normalization as the engine: everything thrown is an EngineError.
+  async function run<T>(model: string, signal: AbortSignal | undefined, fn: () => Promise<T>): Promise<T> {
+    try {
+      return await fn()
     } catch (err) {
-      lastErr = err
-      if (isNetworkConnectError(err) && candidates.length > 1) {
-        continue
-      }
-      throw err
+      throw toEngineError(err, { provider: 'ollama', model, signal })
     }
   }
 
-  throw new Error(formatConnectHelp(candidates, lastErr))
+  return {
+    list: (listOpts = {}) => run('', listOpts.signal, () => ollamaListModels(configFor(''), ctx, listOpts)),
+    pull: (model, pullOpts = {}) => run(model, pullOpts.signal, () => ollamaPullModel(configFor(model), ctx, pullOpts)),
+    delete: (model, deleteOpts = {}) =>
+      run(model, deleteOpts.signal, () => ollamaDeleteModel(configFor(model), ctx, deleteOpts)),
+    show: (model, showOpts = {}) => run(model, showOpts.signal, () => ollamaShowModel(configFor(model), ctx, showOpts))
+  }
 }
+
+export const ollamaProvider: ProviderFactory<OllamaConfig> = (config, ctx) => ({
+  // Context length depends on the server's num_ctx, so it isn't reported here.
+  // Tool support depends on the model; Ollama rejects tools for models without it (see errors.ts).
+  capabilities: {
+    streaming: true,
+    vision: config.vision ?? VISION_MODEL.test(config.model),
+    tools: true,
+    structuredOutput: config.structuredOutput ?? false
+  },
+  chat: (req) => ollamaChat(config, req, ctx),
+  chatStream: (req) => ollamaChatStream(config, req, ctx),
+  listModels: (opts) => ollamaListModels(config, ctx, opts)
+})
@@ -1,75 +1,258 @@
 import { readSseData } from '../shared/sse'
-import type { ChatMessage, OpenAIConfig } from '../types'
+import { normalizeFinishReason, toUsage } from '../shared/finish'
+import { errorFromResponse } from '../errors'
+import { contentText, toParts } from '../shared/content'
+import { createToolCallAssembler, parseToolArguments, toFunctionTools } from '../shared/tools'
+import type {
+  ChatMessage,
+  ChatRequest,
+  ListModelsOptions,
+  ModelInfo,
+  OpenAIConfig,
+  ProviderChatResult,
+  ProviderContext,
+  ProviderFactory,
+  ProviderFinish,
+  ProviderStreamEvent
+} from '../types'
+
+// Longest prefix wins. OpenAI-compatible servers with other models report no context length.
+const CONTEXT_LENGTHS: [prefix: string, tokens: number][] = [
+  ['gpt-4o', 128_000],
+  ['gpt-4.1', 1_047_576],
+  ['gpt-4-turbo', 128_000],
+  ['gpt-4', 8_192],
+  ['gpt-3.5-turbo', 16_385],
+  ['o1', 200_000],
+  ['o3', 200_000],
+  ['o4', 200_000]
+]
+
+function contextLengthFor(model: string): number | undefined {
+  const matches = CONTEXT_LENGTHS.filter(([prefix]) => model.startsWith(prefix))
+  matches.sort((a, b) => b[0].length - a[0].length)
+  return matches[0]?.[1]
+}
+
+/**
+ * `stream_options` is rejected by some OpenAI-compatible servers, so only send it to
+ * api.openai.com unless the config opts in explicitly.
+ */
+function includeStreamUsage(config: OpenAIConfig) {
+  return config.streamUsage ?? !config.baseUrl
+}
+
+// Models that take image input. o1-mini is the exception among the o-series.
+const VISION_PREFIXES = ['gpt-4o', 'gpt-4.1', 'gpt-4-turbo', 'gpt-5', 'o1', 'o3', 'o4']
+
+function supportsVision(config: OpenAIConfig) {
+  if (config.vision !== undefined) return config.vision
+  return !config.model.startsWith('o1-mini') && VISION_PREFIXES.some((p) => config.model.startsWith(p))
+}
+
+// response_format json_schema: gpt-4o (2024-08-06 and later), gpt-4.1, gpt-5 and the o-series after o1-mini.
+const STRUCTURED_OUTPUT_PREFIXES = ['gpt-4o', 'gpt-4.1', 'gpt-5', 'o1', 'o3', 'o4']
+
+function supportsStructuredOutput(config: OpenAIConfig) {
+  if (config.structuredOutput !== undefined) return config.structuredOutput
+  if (config.baseUrl) return false
+  const m = config.model
+  return !/^o1-(mini|preview)/.test(m) && STRUCTURED_OUTPUT_PREFIXES.some((p) => m.startsWith(p))
+}
 
 function toOpenAIMessages(messages: ChatMessage[]) {
-  return messages.map((m) => ({ role: m.role, content: m.content }))
+  return messages.map((m) => {
+    if (m.role === 'tool') return { role: 'tool', tool_call_id: m.toolCallId, content: contentText(m.content) }
+    if (m.toolCalls?.length) {
+      return {
+        role: m.role,
+        content: contentText(m.content) || null,
+        tool_calls: m.toolCalls.map((c) => ({
+          id: c.id,
+          type: 'function',
+          function: { name: c.name, arguments: JSON.stringify(c.arguments) }
+        }))
+      }
+    }
+    if (typeof m.content === 'string') return { role: m.role, content: m.content }
+    const content = toParts(m.content).map((p) =>
+      p.type === 'text' ? { type: 'text', text: p.text } : { type: 'image_url', image_url: { url: p.url } }
+    )
+    return { role: m.role, content }
+  })
+}
+
+function toolParams(req: ChatRequest) {
+  if (!req.tools?.length) return {}
+  return { tools: toFunctionTools(req.tools), tool_choice: req.toolChoice }
+}
+
+function responseFormatParams(req: ChatRequest) {
+  if (!req.responseFormat) return {}
+  const { name, schema } = req.responseFormat
+  return { response_format: { type: 'json_schema', json_schema: { name, schema, strict: true } } }
 }
 
-export async function openaiChat(config: OpenAIConfig, messages: ChatMessage[], signal?: AbortSignal) {
+export async function openaiChat(
+  config: OpenAIConfig,
+  req: ChatRequest,
+  ctx: ProviderContext
+): Promise<ProviderChatResult> {
   const baseUrl = (config.baseUrl ?? 'https://api.openai.com').replace(/\/$/, '')
   const url = `${baseUrl}/v1/chat/completions`
 
-  const res = await fetch(url, {
-    method: 'POST',
-    headers: {
-      authorization: `Bearer ${config.apiKey}`,
-      'content-type': 'application/json'
+  const res = await ctx.fetch(
+    url,
+    {
+      method: 'POST',
+      headers: {
+        authorization: `Bearer ${config.apiKey}`,
+        'content-type': 'application/json'
+      },
+      signal: req.signal,
+      body: JSON.stringify({
+        model: config.model,
+        messages: toOpenAIMessages(req.messages),
+        temperature: config.temperature ?? 0.2,
+        max_tokens: config.maxTokens,
+        ...toolParams(req),
+        ...responseFormatParams(req)
+      })
     },
-    signal,
-    body: JSON.stringify({
-      model: config.model,
-      messages: toOpenAIMessages(messages),
-      temperature: config.temperature ?? 0.2,
-      max_tokens: config.maxTokens
-    })
-  })
+    req.onRetry
+  )
 
-  if (!res.ok) {
-    const text = await res.text().catch(() => '')
-    throw new Error(`OpenAI error ${res.status}: ${text || res.statusText}`)
-  }
+  if (!res.ok) throw await errorFromResponse(res, { provider: 'openai', model: config.model })
 
   const json = (await res.json()) as any
-  const content = json?.choices?.[0]?.message?.content ?? ''
-  return String(content)
+  const choice = json?.choices?.[0]
+  const content = choice?.message?.content ?? ''
+  const rawCalls: any[] = Array.isArray(choice?.message?.tool_calls) ? choice.message.tool_calls : []
+  const toolCalls = rawCalls.map((c) => ({
+    id: String(c.id),
+    name: String(c.function?.name ?? ''),
+    arguments: parseToolArguments(c.function?.arguments, {
+      provider: 'openai',
+      model: config.model,
+      name: String(c.function?.name ?? '')
+    })
+  }))
+  return {
+    text: String(content),
+    toolCalls: toolCalls.length ? toolCalls : undefined,
+    finishReason: normalizeFinishReason(choice?.finish_reason),
+    rawFinishReason: choice?.finish_reason ?? undefined,
+    usage: toUsage(json?.usage?.prompt_tokens, json?.usage?.completion_tokens)
+  }
 }
 
 export async function* openaiChatStream(
   config: OpenAIConfig,
-  messages: ChatMessage[],
-  signal?: AbortSignal
-): AsyncGenerator<string> {
+  req: ChatRequest,
+  ctx: ProviderContext
+): AsyncGenerator<ProviderStreamEvent> {
   const baseUrl = (config.baseUrl ?? 'https://api.openai.com').replace(/\/$/, '')
   const url = `${baseUrl}/v1/chat/completions`
 
-  const res = await fetch(url, {
-    method: 'POST',
-    headers: {
-      authorization: `Bearer ${config.apiKey}`,
-      'content-type': 'application/json'
+  const res = await ctx.fetch(
+    url,
+    {
+      method: 'POST',
+      headers: {
+        authorization: `Bearer ${config.apiKey}`,
+        'content-type': 'application/json'
+      },
+      signal: req.signal,
+      body: JSON.stringify({
+        model: config.model,
+        messages: toOpenAIMessages(req.messages),
+        temperature: config.temperature ?? 0.2,
+        max_tokens: config.maxTokens,
+        stream: true,
+        stream_options: includeStreamUsage(config) ? { include_usage: true } : undefined,
+        ...toolParams(req),
+        ...responseFormatParams(req)
+      })
     },
-    signal,
-    body: JSON.stringify({
-      model: config.model,
-      messages: toOpenAIMessages(messages),
-      temperature: config.temperature ?? 0.2,
-      stream: true
-    })
-  })
+    req.onRetry
+  )
 
-  if (!res.ok || !res.body) {
-    const text = await res.text().catch(() => '')
-    throw new Error(`OpenAI stream error ${res.status}: ${text || res.statusText}`)
-  }
+  if (!res.ok || !res.body) throw await errorFromResponse(res, { provider: 'openai', model: config.model })
 
+  const finish: ProviderFinish = {}
+  // Tool calls stream as fragments: id + name first, then the arguments JSON in pieces.
+  const toolCalls = createToolCallAssembler({ provider: 'openai', model: config.model })
   for await (const data of readSseData(res.body)) {
     if (data === '[DONE]') break
+    let json: any
     try {
-      const json = JSON.parse(data)
-      const delta = json?.choices?.[0]?.delta?.content
-      if (typeof delta === 'string' && delta.length > 0) yield delta
+      json = JSON.parse(data)
     } catch {
-      // ignore
+      continue
+    }
+    const choice = json?.choices?.[0]
+    const delta = choice?.delta?.content
+    if (typeof delta === 'string' && delta.length > 0) yield { type: 'delta', text: delta }
+    for (const c of Array.isArray(choice?.delta?.tool_calls) ? choice.delta.tool_calls : []) {
+      toolCalls.push(typeof c.index === 'number' ? c.index : 0, {
+        id: c.id,
+        name: c.function?.name,
+        arguments: c.function?.arguments
+      })
+    }
+    if (choice?.finish_reason) {
+      finish.finishReason = normalizeFinishReason(choice.finish_reason)
+      finish.rawFinishReason = choice.finish_reason
     }
+    // With include_usage, usage arrives in a last chunk whose choices array is empty.
+    if (json?.usage) finish.usage = toUsage(json.usage.prompt_tokens, json.usage.completion_tokens)
   }
+
+  for (const call of toolCalls.takeAll()) yield { type: 'tool-call', call }
+  yield { type: 'finish', ...finish }
 }
+
+// api.openai.com also lists embedding, audio and image models; only chat models are useful here.
+const NON_CHAT_MODEL = /embedding|whisper|tts|dall-e|moderation|realtime|audio|transcribe|image|search|davinci|babbage/
+
+function isChatModel(id: string) {
+  return /^(gpt-|chatgpt-|o\d)/.test(id) && !NON_CHAT_MODEL.test(id)
+}
+
+export async function openaiListModels(
+  config: OpenAIConfig,
+  ctx: ProviderContext,
+  opts: ListModelsOptions = {}
+): Promise<ModelInfo[]> {
+  const baseUrl = (config.baseUrl ?? 'https://api.openai.com').replace(/\/$/, '')
+  const res = await ctx.fetch(`${baseUrl}/v1/models`, {
+    headers: { authorization: `Bearer ${config.apiKey}` },
+    signal: opts.signal
+  })
+  if (!res.ok) throw await errorFromResponse(res, { provider: 'openai', model: config.model })
+
+  const json = (await res.json()) as any
+  const data: any[] = Array.isArray(json?.data) ? json.data : []
+  return data
+    .filter((m) => typeof m?.id === 'string' && (config.baseUrl ? true : isChatModel(m.id)))
+    .map((m) => ({
+      id: String(m.id),
+      contextLength: contextLengthFor(m.id),
+      // `created` is a unix timestamp in seconds.
+      modifiedAt: typeof m.created === 'number' ? new Date(m.created * 1000).toISOString() : undefined
+    }))
+    .sort((a, b) => a.id.localeCompare(b.id))
+}
+
+export const openaiProvider: ProviderFactory<OpenAIConfig> = (config, ctx) => ({
+  capabilities: {
+    streaming: true,
+    vision: supportsVision(config),
+    tools: true,
+    structuredOutput: supportsStructuredOutput(config),
+    contextLength: contextLengthFor(config.model)
+  },
+  chat: (req) => openaiChat(config, req, ctx),
+  chatStream: (req) => openaiChatStream(config, req, ctx),
+  listModels: (opts) => openaiListModels(config, ctx, opts)
+})
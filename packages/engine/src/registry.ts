@@ -0,0 +1,40 @@
+import type { ProviderFactory } from './types'
+import { ollamaProvider } from './providers/ollama'
+import { openaiProvider } from './providers/openai'
+import { anthropicProvider } from './providers/anthropic'
+
+const providers = new Map<string, ProviderFactory>()
+
+/**
+ * Make a backend available to createAIEngine({ provider: id }).
+ * Pass { replace: true } to override an existing id (e.g. a test double for 'openai').
+ */
+export function registerProvider<TConfig>(
+  id: string,
+  factory: ProviderFactory<TConfig>,
+  opts?: { replace?: boolean }
+): void {
+  const key = id.trim()
+  if (!key) throw new Error('Provider id must not be empty')
+  if (providers.has(key) && !opts?.replace) {
+    throw new Error(`Provider already registered: ${key}`)
+  }
+  // createAIEngine hands each factory the config given for its id; the map can't track that pairing.
+  providers.set(key, factory as ProviderFactory)
+}
+
+registerProvider('ollama', ollamaProvider)
+registerProvider('openai', openaiProvider)
+registerProvider('anthropic', anthropicProvider)
+
+export function unregisterProvider(id: string): boolean {
+  return providers.delete(id)
+}
+
+export function getProvider(id: string): ProviderFactory | undefined {
+  return providers.get(id)
+}
+
+export function listProviders(): string[] {
+  return Array.from(providers.keys())
+}
@@ -0,0 +1,69 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import type { ChatMessage, ContentPart, ImagePart, TextPart } from '../types'
+
+const MIME_BY_EXT: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp'
+}
+
+export function toParts(content: ChatMessage['content']): ContentPart[] {
+  return typeof content === 'string' ? [{ type: 'text', text: content }] : content
+}
+
+/**
+ * Text of a message with image parts dropped.
+ */
+export function contentText(content: ChatMessage['content']): string {
+  if (typeof content === 'string') return content
+  return content
+    .filter((p): p is TextPart => p.type === 'text')
+    .map((p) => p.text)
+    .join('\n\n')
+}
+
+export function contentImages(content: ChatMessage['content']): ImagePart[] {
+  return typeof content === 'string' ? [] : content.filter((p): p is ImagePart => p.type === 'image')
+}
+
+export function hasImages(messages: ChatMessage[]) {
+  return messages.some((m) => contentImages(m.content).length > 0)
+}
+
+/**
+ * Split a data: URL into mime type + base64 payload. Returns null for other URLs.
+ */
+export function parseDataUrl(url: string): { mimeType: string; base64: string } | null {
+  const m = url.match(/^data:([^;,]+)?(;base64)?,(.*)$/s)
+  if (!m) return null
+  const mimeType = m[1] || 'application/octet-stream'
+  const base64 = m[2] ? m[3] : Buffer.from(decodeURIComponent(m[3]), 'utf-8').toString('base64')
+  return { mimeType, base64 }
+}
+
+async function resolveImage(part: ImagePart): Promise<ImagePart> {
+  if (part.url) return part
+  if (!part.path) throw new Error('Image part needs either a url or a path')
+
+  const mimeType = part.mimeType ?? MIME_BY_EXT[path.extname(part.path).toLowerCase()]
+  if (!mimeType) throw new Error(`Unsupported image type: ${path.basename(part.path)}`)
+  const data = await fs.readFile(part.path)
+  return { type: 'image', mimeType, url: `data:${mimeType};base64,${data.toString('base64')}` }
+}
+
+/**
+ * Replace path-based image parts with data URLs so providers only need to handle `url`.
+ */
+export async function resolveImages(messages: ChatMessage[]): Promise<ChatMessage[]> {
+  if (!hasImages(messages)) return messages
+  return Promise.all(
+    messages.map(async (m) =>
+      typeof m.content === 'string'
+        ? m
+        : { ...m, content: await Promise.all(m.content.map((p) => (p.type === 'image' ? resolveImage(p) : p))) }
+    )
+  )
+}
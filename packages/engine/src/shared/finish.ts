@@ -0,0 +1,30 @@
+import type { FinishReason, TokenUsage } from '../types'
+
+/**
+ * Map provider-specific stop/finish/done reasons onto FinishReason.
+ * Unknown values count as a normal stop.
+ */
+export function normalizeFinishReason(raw: unknown): FinishReason {
+  switch (raw) {
+    case 'length':
+    case 'max_tokens':
+      return 'length'
+    case 'tool_calls':
+    case 'tool_use':
+    case 'function_call':
+      return 'tool-calls'
+    case 'content_filter':
+    case 'refusal':
+    case 'error':
+      return 'error'
+    default:
+      return 'stop'
+  }
+}
+
+export function toUsage(promptTokens: unknown, completionTokens: unknown): TokenUsage | undefined {
+  const p = typeof promptTokens === 'number' ? promptTokens : undefined
+  const c = typeof completionTokens === 'number' ? completionTokens : undefined
+  if (p === undefined && c === undefined) return undefined
+  return { promptTokens: p, completionTokens: c, totalTokens: (p ?? 0) + (c ?? 0) }
+}
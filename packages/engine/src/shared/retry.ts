@@ -0,0 +1,174 @@
+import type { ProviderContext, RetryInfo, RetryPolicy } from '../types'
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30_000,
+  jitter: 0.5
+}
+
+/**
+ * Fill in a partial policy from CreateEngineOptions.retry; `false` disables retrying.
+ */
+export function resolveRetryPolicy(retry: Partial<RetryPolicy> | false | undefined): RetryPolicy {
+  return retry === false ? { ...DEFAULT_RETRY_POLICY, maxRetries: 0 } : { ...DEFAULT_RETRY_POLICY, ...retry }
+}
+
+const RETRYABLE_STATUS = new Set([408, 425, 429, 500, 502, 503, 504, 529])
+
+const CONNECT_ERROR_CODES = new Set([
+  'ECONNREFUSED',
+  'ENOTFOUND',
+  'EHOSTUNREACH',
+  'ECONNRESET',
+  'ETIMEDOUT',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_SOCKET'
+])
+
+/**
+ * The network error code (ECONNREFUSED, ...) behind `err`, if it's a connection failure.
+ * Node's fetch throws TypeError with a nested `cause` for network issues;
+ * wrapped errors keep the original as `cause`, so walk the chain.
+ */
+export function connectErrorCode(err: unknown): string | undefined {
+  let cur = err
+  for (let depth = 0; typeof cur === 'object' && cur !== null && depth < 4; depth++) {
+    if ('code' in cur && typeof cur.code === 'string' && CONNECT_ERROR_CODES.has(cur.code)) return cur.code
+    cur = 'cause' in cur ? cur.cause : undefined
+  }
+  return undefined
+}
+
+export function isNetworkConnectError(err: unknown) {
+  return connectErrorCode(err) !== undefined
+}
+
+export function isRetryableStatus(status: number) {
+  return RETRYABLE_STATUS.has(status)
+}
+
+/**
+ * Parse "1.5", "20ms", "6m0s", "1h2m3.5s" into milliseconds.
+ */
+function parseDurationMs(raw: string): number | null {
+  const v = raw.trim()
+  if (/^\d+(\.\d+)?$/.test(v)) return Number(v) * 1000
+  const m = v.match(/^(?:(\d+)h)?(?:(\d+)m(?!s))?(?:(\d+(?:\.\d+)?)s)?(?:(\d+)ms)?$/)
+  if (!m || v === '') return null
+  const [, h, min, s, ms] = m
+  return (Number(h ?? 0) * 3600 + Number(min ?? 0) * 60 + Number(s ?? 0)) * 1000 + Number(ms ?? 0)
+}
+
+/**
+ * How long the server asked us to wait, from Retry-After or x-ratelimit-reset* headers.
+ */
+export function serverRetryDelayMs(headers: Headers, now = Date.now()): number | null {
+  const retryAfter = headers.get('retry-after')
+  if (retryAfter) {
+    const secs = Number(retryAfter)
+    if (Number.isFinite(secs)) return Math.max(0, secs * 1000)
+    const date = Date.parse(retryAfter)
+    if (!Number.isNaN(date)) return Math.max(0, date - now)
+  }
+
+  const resets = ['x-ratelimit-reset', 'x-ratelimit-reset-requests', 'x-ratelimit-reset-tokens']
+    .map((h) => headers.get(h))
+    .filter((v): v is string => !!v)
+    .map((v) => {
+      // Some servers send an epoch timestamp (seconds) instead of a duration.
+      const n = Number(v)
+      if (Number.isFinite(n) && n > 1e9) return Math.max(0, n * 1000 - now)
+      return parseDurationMs(v)
+    })
+    .filter((v): v is number => v !== null)
+
+  return resets.length > 0 ? Math.max(...resets) : null
+}
+
+export function backoffDelayMs(attempt: number, policy: RetryPolicy) {
+  const exp = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt)
+  return Math.round(exp * (1 - policy.jitter * Math.random()))
+}
+
+function abortError(signal: AbortSignal) {
+  return signal.reason instanceof Error ? signal.reason : new DOMException('This operation was aborted', 'AbortError')
+}
+
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError(signal))
+    const t = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    const onAbort = () => {
+      clearTimeout(t)
+      reject(abortError(signal!))
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+/**
+ * Run `attempt` until it yields a non-retryable result or the policy is exhausted.
+ * Retries connect errors and 408/425/429/5xx responses (including Anthropic's 529 "overloaded").
+ * The final response is returned as-is (even if not OK) so providers keep their own error reporting.
+ */
+export async function withRetry(
+  attempt: () => Promise<Response>,
+  policy: RetryPolicy,
+  opts: { signal?: AbortSignal; onRetry?: (info: RetryInfo) => void } = {}
+): Promise<Response> {
+  for (let n = 0; ; n++) {
+    let res: Response | undefined
+    try {
+      res = await attempt()
+    } catch (err) {
+      if (opts.signal?.aborted || !isNetworkConnectError(err) || n >= policy.maxRetries) throw err
+      const delayMs = backoffDelayMs(n, policy)
+      const code = connectErrorCode(err)
+      opts.onRetry?.({
+        attempt: n + 1,
+        maxRetries: policy.maxRetries,
+        delayMs,
+        reason: `connection failed${code ? ` (${code})` : ''}`
+      })
+      await sleep(delayMs, opts.signal)
+      continue
+    }
+
+    if (res.ok || !isRetryableStatus(res.status) || n >= policy.maxRetries) return res
+
+    const serverDelay = serverRetryDelayMs(res.headers)
+    // The server wants us to back off longer than we're willing to wait: give up now.
+    if (serverDelay !== null && serverDelay > policy.maxDelayMs) return res
+
+    const delayMs = serverDelay ?? backoffDelayMs(n, policy)
+    await res.body?.cancel().catch(() => {})
+    opts.onRetry?.({
+      attempt: n + 1,
+      maxRetries: policy.maxRetries,
+      delayMs,
+      status: res.status,
+      reason: `HTTP ${res.status}${res.statusText ? ` ${res.statusText}` : ''}`
+    })
+    await sleep(delayMs, opts.signal)
+  }
+}
+
+export function createProviderContext(
+  policy: RetryPolicy,
+  onRetry?: (info: RetryInfo) => void
+): ProviderContext {
+  const notify = (perRequest?: (info: RetryInfo) => void) => (info: RetryInfo) => {
+    onRetry?.(info)
+    perRequest?.(info)
+  }
+
+  return {
+    retry: (attempt, opts = {}) => withRetry(attempt, policy, { signal: opts.signal, onRetry: notify(opts.onRetry) }),
+    fetch: (url, init, perRequest) =>
+      withRetry(() => fetch(url, init), policy, { signal: init.signal ?? undefined, onRetry: notify(perRequest) })
+  }
+}
@@ -0,0 +1,82 @@
+import { BadResponseError, providerLabel } from '../errors'
+import type { ToolCall, ToolDefinition } from '../types'
+
+/**
+ * OpenAI's `tools` shape; Ollama accepts the same.
+ */
+export function toFunctionTools(tools: ToolDefinition[]) {
+  return tools.map((t) => ({
+    type: 'function',
+    function: { name: t.name, description: t.description, parameters: t.parameters }
+  }))
+}
+
+export function generateToolCallId() {
+  return `call_${Math.random().toString(36).slice(2, 12)}`
+}
+
+/**
+ * Arguments arrive as a JSON string (OpenAI, Anthropic streams) or an object (Ollama).
+ * An empty string means "no arguments".
+ */
+export function parseToolArguments(
+  raw: unknown,
+  opts: { provider: string; model?: string; name: string }
+): Record<string, unknown> {
+  if (raw && typeof raw === 'object' && !Array.isArray(raw)) return raw as Record<string, unknown>
+  const text = typeof raw === 'string' ? raw.trim() : ''
+  if (!text) return {}
+  try {
+    const parsed = JSON.parse(text)
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) return parsed
+  } catch {
+    // reported below
+  }
+  throw new BadResponseError(
+    `${providerLabel(opts.provider)} returned invalid arguments for tool "${opts.name}": ${text.slice(0, 200)}`,
+    { provider: opts.provider, model: opts.model }
+  )
+}
+
+/**
+ * Collects tool calls whose id, name and argument JSON arrive in pieces, keyed by the
+ * provider's index (OpenAI `tool_calls[].index`, Anthropic content block index).
+ */
+export function createToolCallAssembler(opts: { provider: string; model?: string }) {
+  const pending = new Map<number, { id?: string; name: string; args: string }>()
+
+  return {
+    push(index: number, part: { id?: string; name?: string; arguments?: string }) {
+      const call = pending.get(index) ?? { name: '', args: '' }
+      if (part.id) call.id = part.id
+      if (part.name) call.name += part.name
+      if (part.arguments) call.args += part.arguments
+      pending.set(index, call)
+    },
+
+    has(index: number) {
+      return pending.has(index)
+    },
+
+    /**
+     * Finish one call (e.g. on Anthropic's content_block_stop). Returns undefined if unknown.
+     */
+    take(index: number): ToolCall | undefined {
+      const call = pending.get(index)
+      if (!call) return undefined
+      pending.delete(index)
+      return {
+        id: call.id ?? generateToolCallId(),
+        name: call.name,
+        arguments: parseToolArguments(call.args, { ...opts, name: call.name })
+      }
+    },
+
+    /**
+     * Finish all remaining calls, in index order.
+     */
+    takeAll(): ToolCall[] {
+      return [...pending.keys()].sort((a, b) => a - b).map((i) => this.take(i)!)
+    }
+  }
+}
@@ -1,8 +1,92 @@
-export type ChatRole = 'system' | 'user' | 'assistant'
+export type ChatRole = 'system' | 'user' | 'assistant' | 'tool'
+
+export interface TextPart {
+  type: 'text'
+  text: string
+}
+
+/**
+ * An image input. Set exactly one of `url` or `path`; paths are read by the engine
+ * and sent as base64, so providers only ever see `url`.
+ */
+export interface ImagePart {
+  type: 'image'
+  /**
+   * data: URL, or http(s) URL for providers that fetch images themselves (OpenAI, Anthropic).
+   */
+  url?: string
+  /**
+   * Local file (png, jpeg, gif, webp).
+   */
+  path?: string
+  /**
+   * Defaults to the data URL's type or the file extension.
+   */
+  mimeType?: string
+}
+
+export type ContentPart = TextPart | ImagePart
 
 export interface ChatMessage {
   role: ChatRole
-  content: string
+  /**
+   * Plain text, or parts for mixed text + image input (requires capabilities.vision).
+   */
+  content: string | ContentPart[]
+  /**
+   * Assistant messages: the tool calls the model made in this turn (from ChatResult.toolCalls).
+   */
+  toolCalls?: ToolCall[]
+  /**
+   * Tool messages: id of the call this message answers.
+   */
+  toolCallId?: string
+  /**
+   * Tool messages: name of the tool that ran (Ollama matches results by name).
+   */
+  toolName?: string
+}
+
+/**
+ * A function the model may call. `parameters` is a JSON Schema object.
+ */
+export interface ToolDefinition {
+  name: string
+  description?: string
+  parameters: Record<string, unknown>
+}
+
+/**
+ * - auto: the model decides (default)
+ * - none: don't call tools this turn
+ * - required: must call at least one tool (Ollama ignores this)
+ */
+export type ToolChoice = 'auto' | 'none' | 'required'
+
+export interface JsonSchemaFormat {
+  type: 'json_schema'
+  /**
+   * Identifier for the schema (OpenAI requires one): letters, digits, _ and -.
+   */
+  name: string
+  /**
+   * JSON Schema for the whole reply. For OpenAI's strict mode every property must be
+   * listed in `required` (use a null type for optional ones) and objects must set
+   * `additionalProperties: false`.
+   */
+  schema: Record<string, unknown>
+}
+
+export interface ToolCall {
+  /**
+   * Provider's call id, or a generated one for providers without ids (Ollama).
+   */
+  id: string
+  name: string
+  /**
+   * Parsed JSON arguments.
+   */
+  arguments: Record<string, unknown>
 }
 
 export interface ChatRequest {
@@ -16,31 +100,305 @@ export interface ChatRequest {
    * it should fall back to non-stream behavior.
    */
   stream?: boolean
+  /**
+   * Functions the model may call (requires capabilities.tools). Calls come back in
+   * ChatResult.toolCalls; answer them with `tool` messages and send the request again.
+   */
+  tools?: ToolDefinition[]
+  toolChoice?: ToolChoice
+  /**
+   * Constrain the reply to JSON matching a schema (requires capabilities.structuredOutput).
+   * The text of the result is then the JSON document.
+   */
+  responseFormat?: JsonSchemaFormat
+  /**
+   * Called before each retry of this request (see CreateEngineOptions.retry).
+   */
+  onRetry?: (info: RetryInfo) => void
+}
+
+export interface RetryPolicy {
+  /**
+   * Retries after the first attempt. 0 disables retrying.
+   */
+  maxRetries: number
+  /**
+   * Backoff for the first retry; doubled for every further one.
+   */
+  baseDelayMs: number
+  /**
+   * Upper bound for a single wait. If the server's Retry-After asks for more, we give up instead.
+   */
+  maxDelayMs: number
+  /**
+   * Fraction (0-1) of each backoff delay that is randomized.
+   */
+  jitter: number
+}
+
+export interface RetryInfo {
+  /**
+   * 1-based number of the retry about to happen.
+   */
+  attempt: number
+  maxRetries: number
+  delayMs: number
+  /**
+   * HTTP status that triggered the retry (absent for connection errors).
+   */
+  status?: number
+  reason: string
+}
+
+/**
+ * Why generation ended, normalized across providers:
+ * - stop: the model finished on its own (or hit a stop sequence)
+ * - length: cut off by the token limit (maxTokens / numPredict)
+ * - tool-calls: the model stopped to call tools (see toolCalls)
+ * - cancelled: the request's AbortSignal fired
+ * - error: the provider ended the response abnormally (content filter, refusal, ...)
+ */
+export type FinishReason = 'stop' | 'length' | 'tool-calls' | 'cancelled' | 'error'
+
+export interface TokenUsage {
+  promptTokens?: number
+  completionTokens?: number
+  totalTokens?: number
+}
+
+export interface ChatCompletionInfo {
+  finishReason: FinishReason
+  /**
+   * Provider's own value (e.g. "end_turn", "max_tokens", "length"), for debugging.
+   */
+  rawFinishReason?: string
+  usage?: TokenUsage
+  /**
+   * Tools the model asked to call, in order. Streamed arguments are assembled before they show up here.
+   */
+  toolCalls?: ToolCall[]
+  /**
+   * Streaming only: ms from sending the request to the first text delta.
+   */
+  timeToFirstTokenMs?: number
+  totalDurationMs: number
+}
+
+export interface ChatResult extends ChatCompletionInfo {
+  text: string
 }
 
 export interface ChatStreamChunk {
   delta: string
+  /**
+   * Set on the final chunk of every stream (its delta is empty).
+   */
+  final?: ChatCompletionInfo
+}
+
+/**
+ * What a backend can do. Callers use this to pick request shapes (and to fail early
+ * instead of sending something a model can't handle).
+ */
+export interface ProviderCapabilities {
+  streaming: boolean
+  vision: boolean
+  tools: boolean
+  /**
+   * Whether ChatRequest.responseFormat (JSON-schema constrained output) is supported.
+   */
+  structuredOutput: boolean
+  /**
+   * Context window in tokens, when known for the configured model.
+   */
+  contextLength?: number
+}
+
+/**
+ * How a provider reports the end of a response. Timing is measured by the engine.
+ */
+export interface ProviderFinish {
+  finishReason?: FinishReason
+  rawFinishReason?: string
+  usage?: TokenUsage
+}
+
+export interface ProviderChatResult extends ProviderFinish {
+  text: string
+  toolCalls?: ToolCall[]
 }
 
+export type ProviderStreamEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'tool-call'; call: ToolCall }
+  | ({ type: 'finish' } & ProviderFinish)
+
+/**
+ * A model the provider can serve. Only `id` is guaranteed; the rest is filled in
+ * when the provider's listing reports it.
+ */
+export interface ModelInfo {
+  /**
+   * Value to use as the provider config's `model`.
+   */
+  id: string
+  displayName?: string
+  family?: string
+  /**
+   * e.g. "8.0B" (Ollama)
+   */
+  parameterSize?: string
+  /**
+   * e.g. "Q4_K_M" (Ollama)
+   */
+  quantization?: string
+  sizeBytes?: number
+  contextLength?: number
+  /**
+   * ISO timestamp (created for cloud models, last pulled for Ollama).
+   */
+  modifiedAt?: string
+}
+
+export interface ListModelsOptions {
+  signal?: AbortSignal
+}
+
+/**
+ * One configured backend, as returned by a ProviderFactory.
+ */
+export interface ProviderAdapter {
+  capabilities: ProviderCapabilities
+  /**
+   * Non-streaming. Returns the full assistant text.
+   */
+  chat(req: ChatRequest): Promise<ProviderChatResult>
+  /**
+   * Streaming text deltas and completed tool calls, optionally followed by one finish event.
+   * Only called when capabilities.streaming is true.
+   */
+  chatStream?(req: ChatRequest): AsyncIterable<ProviderStreamEvent>
+  /**
+   * Models available with this config (API key / base URL). Optional.
+   */
+  listModels?(opts?: ListModelsOptions): Promise<ModelInfo[]>
+}
+
+/**
+ * Handed to provider factories by the engine. Providers should make their HTTP calls
+ * through it so the engine's retry policy applies.
+ */
+export interface ProviderContext {
+  /**
+   * fetch() under the retry policy. Resolves with the last response, OK or not.
+   */
+  fetch(url: string, init: RequestInit, onRetry?: (info: RetryInfo) => void): Promise<Response>
+  /**
+   * Run a custom attempt (e.g. trying several base URLs) under the retry policy.
+   */
+  retry(
+    attempt: () => Promise<Response>,
+    opts?: { signal?: AbortSignal; onRetry?: (info: RetryInfo) => void }
+  ): Promise<Response>
+}
+
+export type ProviderFactory<TConfig = unknown> = (config: TConfig, ctx: ProviderContext) => ProviderAdapter
+
 export interface AIEngine {
   /**
-   * Non-streaming. Returns the full assistant text (may include code blocks).
+   * Id of the provider this engine was created for.
    */
-  chat(req: ChatRequest): Promise<{ text: string }>
+  readonly provider: string
+  readonly capabilities: ProviderCapabilities
 
   /**
-   * Streaming. Yields incremental deltas. Also returns final text when done.
+   * Non-streaming. Returns the full assistant text (may include code blocks)
+   * plus usage/finish info. Failures are thrown as EngineError (see errors.ts).
+   */
+  chat(req: ChatRequest): Promise<ChatResult>
+
+  /**
+   * Streaming. Yields incremental deltas, then one final chunk carrying usage/finish info.
+   * Aborting via req.signal ends the stream with finishReason 'cancelled' instead of throwing.
    */
   chatStream(req: ChatRequest): AsyncIterable<ChatStreamChunk>
+
+  /**
+   * Models the provider reports as available. Throws if the provider can't list models.
+   */
+  listModels(opts?: ListModelsOptions): Promise<ModelInfo[]>
 }
 
-export type EngineProvider = 'ollama' | 'openai'
+/**
+ * Built-in provider ids.
+ */
+export type EngineProvider = 'ollama' | 'openai' | 'anthropic'
 
 export interface OllamaConfig {
   baseUrl?: string
   model: string
   temperature?: number
   numPredict?: number
+  /**
+   * Whether the model accepts images. Defaults to a guess from the model name (llava, *-vision, ...).
+   */
+  vision?: boolean
+  /**
+   * Whether to send ChatRequest.responseFormat as Ollama's `format` schema. Needs Ollama 0.5+ and
+   * a model that copes with the schema, so it defaults to false.
+   */
+  structuredOutput?: boolean
+}
+
+/**
+ * One progress line from Ollama's /api/pull. Layer sizes are summed across the
+ * layers seen so far, so `completed / total` is the overall download progress.
+ */
+export interface OllamaPullProgress {
+  model: string
+  /**
+   * Ollama's status text: "pulling manifest", "pulling <digest>", "verifying sha256 digest", "success", ...
+   */
+  status: string
+  completed?: number
+  total?: number
+}
+
+export interface OllamaModelDetails extends ModelInfo {
+  /**
+   * Parameter overrides from the Modelfile (e.g. "num_ctx 8192").
+   */
+  parameters?: string
+  template?: string
+  license?: string
+  /**
+   * e.g. ["completion", "vision", "tools"] on newer Ollama versions.
+   */
+  capabilities?: string[]
+}
+
+export interface OllamaModelManagerOptions {
+  baseUrl?: string
+  /**
+   * Retry policy for connecting to the server (see CreateEngineOptions.retry).
+   */
+  retry?: Partial<RetryPolicy> | false
+}
+
+/**
+ * Install/remove/inspect models on an Ollama server.
+ */
+export interface OllamaModelManager {
+  list(opts?: ListModelsOptions): Promise<ModelInfo[]>
+  /**
+   * Download a model. Resolves once Ollama reports success; abort via `signal` to cancel.
+   */
+  pull(
+    model: string,
+    opts?: { signal?: AbortSignal; onProgress?: (progress: OllamaPullProgress) => void }
+  ): Promise<void>
+  delete(model: string, opts?: { signal?: AbortSignal }): Promise<void>
+  show(model: string, opts?: { signal?: AbortSignal }): Promise<OllamaModelDetails>
 }
 
 export interface OpenAIConfig {
@@ -49,10 +407,58 @@ export interface OpenAIConfig {
   model: string
   temperature?: number
   maxTokens?: number
+  /**
+   * Whether the model accepts images. Defaults to true for known vision models (gpt-4o, gpt-4.1, ...).
+   */
+  vision?: boolean
+  /**
+   * Whether the model supports `response_format: json_schema`. Defaults to true for known
+   * models on api.openai.com (gpt-4o, gpt-4.1, o3, ...) and false for custom base URLs.
+   */
+  structuredOutput?: boolean
+  /**
+   * Ask for token usage in streamed responses (`stream_options.include_usage`).
+   * Defaults to true for api.openai.com and false for custom base URLs.
+   */
+  streamUsage?: boolean
+}
+
+export interface AnthropicConfig {
+  apiKey: string
+  baseUrl?: string
+  model: string
+  temperature?: number
+  /**
+   * Required by the Messages API. Defaults to 8192.
+   */
+  maxTokens?: number
+  /**
+   * Value of the `anthropic-version` header. Defaults to 2023-06-01.
+   */
+  apiVersion?: string
 }
 
 export interface CreateEngineOptions {
-  provider: EngineProvider
+  /**
+   * Id of a registered provider. The built-in ones are listed in EngineProvider;
+   * others can be added with registerProvider().
+   */
+  provider: EngineProvider | (string & {})
+  /**
+   * Config passed to the provider factory. Falls back to the per-provider field
+   * matching `provider` (e.g. `ollama` when provider is 'ollama').
+   */
+  config?: unknown
   ollama?: OllamaConfig
   openai?: OpenAIConfig
+  anthropic?: AnthropicConfig
+  /**
+   * Retry policy for connect errors, 429 and 5xx responses. Missing fields use the
+   * defaults (3 retries, 500ms base, 30s max, 50% jitter); `false` disables retrying.
+   */
+  retry?: Partial<RetryPolicy> | false
+  /**
+   * Called before every retry of any request made by this engine.
+   */
+  onRetry?: (info: RetryInfo) => void
 }
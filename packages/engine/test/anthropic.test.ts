@@ -0,0 +1,162 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { createAIEngine } from '../src/createAIEngine'
+import { EngineError } from '../src/errors'
+import { collect, sse, startMockServer } from './mockServer'
+
+let server: Awaited<ReturnType<typeof startMockServer>>
+
+beforeEach(async () => {
+  server = await startMockServer()
+})
+
+afterEach(async () => {
+  await server.close()
+})
+
+function engine() {
+  return createAIEngine({
+    provider: 'anthropic',
+    anthropic: { apiKey: 'test-key', baseUrl: server.url, model: 'claude-test', maxTokens: 1024 },
+    retry: false
+  })
+}
+
+const messages = [
+  { role: 'system' as const, content: 'Be brief.' },
+  { role: 'user' as const, content: 'Hi' }
+]
+
+async function rejection(promise: Promise<unknown>) {
+  const err = await promise.then(
+    () => null,
+    (e: unknown) => e
+  )
+  expect(err).toBeInstanceOf(EngineError)
+  return err as EngineError
+}
+
+describe('anthropic provider', () => {
+  it('sends the Messages API request shape', async () => {
+    server.respond({ body: JSON.stringify({ content: [{ type: 'text', text: 'Hello' }], stop_reason: 'end_turn' }) })
+    await engine().chat({ messages })
+
+    const req = server.requests[0]
+    expect(req.method).toBe('POST')
+    expect(req.url).toBe('/v1/messages')
+    expect(req.headers['x-api-key']).toBe('test-key')
+    expect(req.headers['anthropic-version']).toBe('2023-06-01')
+    expect(req.body).toMatchObject({
+      model: 'claude-test',
+      system: 'Be brief.',
+      messages: [{ role: 'user', content: 'Hi' }],
+      max_tokens: 1024,
+      stream: false
+    })
+  })
+
+  it('returns text, finish reason and usage from chat', async () => {
+    server.respond({
+      body: JSON.stringify({
+        content: [
+          { type: 'text', text: 'Hel' },
+          { type: 'text', text: 'lo' }
+        ],
+        stop_reason: 'max_tokens',
+        usage: { input_tokens: 12, output_tokens: 3 }
+      })
+    })
+    const res = await engine().chat({ messages })
+
+    expect(res.text).toBe('Hello')
+    expect(res.finishReason).toBe('length')
+    expect(res.rawFinishReason).toBe('max_tokens')
+    expect(res.usage).toEqual({ promptTokens: 12, completionTokens: 3, totalTokens: 15 })
+  })
+
+  it('streams text deltas and reports usage on the final chunk', async () => {
+    server.respond(
+      sse(
+        [
+          { type: 'message_start', message: { usage: { input_tokens: 20, output_tokens: 1 } } },
+          { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+          { type: 'ping' },
+          { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Hello' } },
+          { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: ', world' } },
+          { type: 'content_block_stop', index: 0 },
+          { type: 'message_delta', delta: { stop_reason: 'end_turn' }, usage: { output_tokens: 7 } },
+          { type: 'message_stop' }
+        ],
+        { named: true }
+      )
+    )
+    const chunks = await collect(engine().chatStream({ messages, stream: true }))
+
+    expect(server.requests[0].body.stream).toBe(true)
+    expect(chunks.map((c) => c.delta).join('')).toBe('Hello, world')
+    const final = chunks[chunks.length - 1].final
+    expect(final?.finishReason).toBe('stop')
+    expect(final?.rawFinishReason).toBe('end_turn')
+    expect(final?.usage).toEqual({ promptTokens: 20, completionTokens: 7, totalTokens: 27 })
+    expect(final?.timeToFirstTokenMs).toBeTypeOf('number')
+  })
+
+  it('assembles streamed tool_use input', async () => {
+    server.respond(
+      sse([
+        { type: 'message_start', message: { usage: { input_tokens: 5 } } },
+        {
+          type: 'content_block_start',
+          index: 0,
+          content_block: { type: 'tool_use', id: 'toolu_1', name: 'read_file' }
+        },
+        { type: 'content_block_delta', index: 0, delta: { type: 'input_json_delta', partial_json: '{"path":' } },
+        { type: 'content_block_delta', index: 0, delta: { type: 'input_json_delta', partial_json: '"app/page.tsx"}' } },
+        { type: 'content_block_stop', index: 0 },
+        { type: 'message_delta', delta: { stop_reason: 'tool_use' }, usage: { output_tokens: 9 } },
+        { type: 'message_stop' }
+      ])
+    )
+    const tools = [{ name: 'read_file', parameters: { type: 'object', properties: { path: { type: 'string' } } } }]
+    const chunks = await collect(engine().chatStream({ messages, tools, toolChoice: 'required' }))
+
+    expect(server.requests[0].body.tools).toEqual([{ name: 'read_file', input_schema: tools[0].parameters }])
+    expect(server.requests[0].body.tool_choice).toEqual({ type: 'any' })
+    const final = chunks[chunks.length - 1].final
+    expect(final?.finishReason).toBe('tool-calls')
+    expect(final?.toolCalls).toEqual([{ id: 'toolu_1', name: 'read_file', arguments: { path: 'app/page.tsx' } }])
+  })
+
+  it('maps error responses to engine errors', async () => {
+    const error = (type: string, message: string) => JSON.stringify({ type: 'error', error: { type, message } })
+    server.respond(
+      { status: 401, body: error('authentication_error', 'invalid x-api-key') },
+      { status: 404, body: error('not_found_error', 'model: claude-test') },
+      { status: 429, body: error('rate_limit_error', 'Number of requests has exceeded your rate limit') },
+      { status: 500, body: error('api_error', 'Internal server error') }
+    )
+
+    const auth = await rejection(engine().chat({ messages }))
+    expect(auth.code).toBe('auth')
+    expect(auth.status).toBe(401)
+    expect(auth.message).toContain('invalid x-api-key')
+    expect((await rejection(engine().chat({ messages }))).code).toBe('model-not-found')
+    expect((await rejection(engine().chat({ messages }))).code).toBe('rate-limit')
+    const server500 = await rejection(engine().chat({ messages }))
+    expect(server500.status).toBe(500)
+    expect(server500.provider).toBe('anthropic')
+  })
+
+  it('throws on an error event in the stream', async () => {
+    server.respond(
+      sse([
+        { type: 'message_start', message: { usage: { input_tokens: 5 } } },
+        { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Hel' } },
+        { type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } }
+      ])
+    )
+    const err = await rejection(collect(engine().chatStream({ messages })))
+
+    expect(err.code).toBe('rate-limit')
+    expect(err.message).toContain('overloaded_error: Overloaded')
+  })
+})
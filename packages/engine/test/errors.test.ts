@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest'
+import { BadResponseError, CancelledError, ConnectionError, toEngineError } from '../src/errors'
+
+const opts = { provider: 'ollama', model: 'llama3.2' }
+
+describe('toEngineError', () => {
+  it('reports aborted requests as cancelled', () => {
+    expect(toEngineError(new DOMException('This operation was aborted', 'AbortError'), opts)).toBeInstanceOf(
+      CancelledError
+    )
+    expect(toEngineError({ name: 'AbortError' }, opts)).toBeInstanceOf(BadResponseError)
+  })
+
+  it('names the network code of connection failures', () => {
+    const err = new TypeError('fetch failed', { cause: Object.assign(new Error('refused'), { code: 'ECONNREFUSED' }) })
+    const engineError = toEngineError(err, opts)
+
+    expect(engineError).toBeInstanceOf(ConnectionError)
+    expect(engineError.message).toContain('(ECONNREFUSED): fetch failed')
+    expect(engineError.cause).toBe(err)
+  })
+
+  it('wraps anything else as a bad response', () => {
+    expect(toEngineError('boom', opts)).toMatchObject({ message: 'boom', provider: 'ollama' })
+    expect(toEngineError('boom', opts)).toBeInstanceOf(BadResponseError)
+  })
+})
@@ -0,0 +1,74 @@
+import http from 'node:http'
+import type { AddressInfo } from 'node:net'
+
+export interface RecordedRequest {
+  method: string
+  url: string
+  headers: http.IncomingHttpHeaders
+  body: any
+}
+
+export interface MockResponse {
+  status?: number
+  headers?: Record<string, string>
+  /**
+   * Sent as is; arrays are written one chunk at a time, like a stream.
+   */
+  body: string | string[]
+}
+
+/**
+ * A local HTTP server that answers each request with the next queued response and records
+ * what it was sent.
+ */
+export async function startMockServer() {
+  const requests: RecordedRequest[] = []
+  const queue: MockResponse[] = []
+
+  const server = http.createServer((req, res) => {
+    let raw = ''
+    req.on('data', (chunk: Buffer) => (raw += chunk.toString('utf-8')))
+    req.on('end', () => {
+      requests.push({
+        method: req.method ?? '',
+        url: req.url ?? '',
+        headers: req.headers,
+        body: raw && JSON.parse(raw)
+      })
+      const next = queue.shift() ?? { status: 500, body: 'no response queued' }
+      res.writeHead(next.status ?? 200, { 'content-type': 'application/json', ...next.headers })
+      for (const chunk of Array.isArray(next.body) ? next.body : [next.body]) res.write(chunk)
+      res.end()
+    })
+  })
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    respond(...responses: MockResponse[]) {
+      queue.push(...responses)
+    },
+    close: () => new Promise<void>((resolve) => server.close(() => resolve()))
+  }
+}
+
+/**
+ * Server-sent events, one `data:` line (and optional `event:` line) per event.
+ */
+export function sse(events: unknown[], opts: { named?: boolean } = {}): MockResponse {
+  return {
+    headers: { 'content-type': 'text/event-stream' },
+    body: events.map((e) => {
+      const type = opts.named && typeof e === 'object' && e && 'type' in e ? `event: ${String(e.type)}\n` : ''
+      return `${type}data: ${typeof e === 'string' ? e : JSON.stringify(e)}\n\n`
+    })
+  }
+}
+
+export async function collect<T>(stream: AsyncIterable<T>) {
+  const out: T[] = []
+  for await (const item of stream) out.push(item)
+  return out
+}
@@ -0,0 +1,51 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { createAIEngine } from '../src/createAIEngine'
+import type { ChatMessage, OllamaConfig } from '../src/types'
+import { collect, startMockServer } from './mockServer'
+
+let server: Awaited<ReturnType<typeof startMockServer>>
+
+beforeEach(async () => {
+  server = await startMockServer()
+})
+
+afterEach(async () => {
+  await server.close()
+})
+
+const messages: ChatMessage[] = [{ role: 'user', content: 'Say hi' }]
+const reply = { message: { role: 'assistant', content: 'Hi' }, done: true, done_reason: 'stop' }
+
+function engine(config: Partial<OllamaConfig> = {}) {
+  return createAIEngine({
+    provider: 'ollama',
+    ollama: { baseUrl: server.url, model: 'llama3.1:8b', ...config },
+    retry: false
+  })
+}
+
+describe('Ollama options', () => {
+  it('caps the reply length with num_predict, streamed or not', async () => {
+    server.respond({ body: JSON.stringify(reply) })
+    server.respond({ headers: { 'content-type': 'application/x-ndjson' }, body: JSON.stringify(reply) + '\n' })
+    const ollama = engine({ numPredict: 256, temperature: 0.2 })
+
+    await ollama.chat({ messages })
+    await collect(ollama.chatStream({ messages }))
+
+    expect(server.requests.map((r) => [r.body.stream, r.body.options])).toEqual([
+      [false, { temperature: 0.2, num_predict: 256 }],
+      [true, { temperature: 0.2, num_predict: 256 }]
+    ])
+  })
+
+  it('only asks for schema-constrained JSON when structured output is turned on', async () => {
+    const responseFormat = { type: 'json_schema' as const, name: 'answer', schema: { type: 'object' } }
+    expect(engine().capabilities.structuredOutput).toBe(false)
+    await expect(engine().chat({ messages, responseFormat })).rejects.toMatchObject({ code: 'unsupported-input' })
+
+    server.respond({ body: JSON.stringify(reply) })
+    await engine({ structuredOutput: true }).chat({ messages, responseFormat })
+    expect(server.requests[0].body.format).toEqual({ type: 'object' })
+  })
+})
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest'
+import { connectErrorCode, withRetry } from '../src/shared/retry'
+import type { RetryInfo } from '../src/types'
+
+const fetchFailed = (code: string) => new TypeError('fetch failed', { cause: Object.assign(new Error(code), { code }) })
+
+describe('connectErrorCode', () => {
+  it('finds the network code anywhere in the cause chain', () => {
+    expect(connectErrorCode(fetchFailed('ECONNREFUSED'))).toBe('ECONNREFUSED')
+    expect(connectErrorCode(new Error('wrapped', { cause: fetchFailed('UND_ERR_SOCKET') }))).toBe('UND_ERR_SOCKET')
+    expect(connectErrorCode({ code: 'ENOTFOUND' })).toBe('ENOTFOUND')
+  })
+
+  it('ignores other errors and values', () => {
+    expect(connectErrorCode(new Error('boom'))).toBeUndefined()
+    expect(connectErrorCode({ code: 'EACCES' })).toBeUndefined()
+    expect(connectErrorCode({ code: 42, cause: null })).toBeUndefined()
+    expect(connectErrorCode('ECONNREFUSED')).toBeUndefined()
+    expect(connectErrorCode(null)).toBeUndefined()
+  })
+})
+
+describe('withRetry', () => {
+  it('retries connection failures and reports their code', async () => {
+    const retries: RetryInfo[] = []
+    let calls = 0
+    const res = await withRetry(
+      async () => {
+        if (calls++ === 0) throw fetchFailed('ECONNRESET')
+        return new Response('ok')
+      },
+      { maxRetries: 2, baseDelayMs: 0, maxDelayMs: 0, jitter: 0 },
+      { onRetry: (info) => retries.push(info) }
+    )
+
+    expect(await res.text()).toBe('ok')
+    expect(retries.map((r) => r.reason)).toEqual(['connection failed (ECONNRESET)'])
+  })
+
+  it('rethrows errors that are not connection failures', async () => {
+    const policy = { maxRetries: 2, baseDelayMs: 0, maxDelayMs: 0, jitter: 0 }
+    await expect(withRetry(() => Promise.reject(new Error('bad request')), policy)).rejects.toThrow('bad request')
+  })
+})
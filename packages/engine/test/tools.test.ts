@@ -0,0 +1,167 @@
+import fs from 'node:fs'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { createAIEngine } from '../src/createAIEngine'
+import { EngineError } from '../src/errors'
+import type { ChatMessage, CreateEngineOptions, ToolDefinition } from '../src/types'
+import { collect, startMockServer } from './mockServer'
+
+// Provider responses in the wire format of api.openai.com and Ollama 0.5, for one request offering both tools.
+const fixture = (name: string) => fs.readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf-8')
+
+let server: Awaited<ReturnType<typeof startMockServer>>
+
+beforeEach(async () => {
+  server = await startMockServer()
+})
+
+afterEach(async () => {
+  await server.close()
+})
+
+const tools: ToolDefinition[] = [
+  {
+    name: 'read_file',
+    description: 'Read a project file',
+    parameters: { type: 'object', properties: { path: { type: 'string' } }, required: ['path'] }
+  },
+  {
+    name: 'list_files',
+    parameters: { type: 'object', properties: { dir: { type: 'string' }, depth: { type: 'number' } } }
+  }
+]
+
+const messages: ChatMessage[] = [{ role: 'user', content: 'What does the home page render?' }]
+
+const expectedCalls = [
+  { name: 'read_file', arguments: { path: 'app/page.tsx' } },
+  { name: 'list_files', arguments: { dir: 'components', depth: 2 } }
+]
+
+function engine(provider: 'openai' | 'ollama') {
+  const opts: CreateEngineOptions =
+    provider === 'openai'
+      ? { provider, openai: { apiKey: 'sk-test', baseUrl: server.url, model: 'gpt-4o-mini' }, retry: false }
+      : { provider, ollama: { baseUrl: server.url, model: 'llama3.1:8b' }, retry: false }
+  return createAIEngine(opts)
+}
+
+describe('OpenAI tool calling', () => {
+  it('sends tools in the function format and parses tool_calls', async () => {
+    server.respond({ body: fixture('openai-tool-calls.json') })
+    const res = await engine('openai').chat({ messages, tools, toolChoice: 'auto' })
+
+    expect(server.requests[0].body.tools).toEqual([
+      {
+        type: 'function',
+        function: { name: 'read_file', description: 'Read a project file', parameters: tools[0].parameters }
+      },
+      { type: 'function', function: { name: 'list_files', parameters: tools[1].parameters } }
+    ])
+    expect(server.requests[0].body.tool_choice).toBe('auto')
+    expect(res.text).toBe('')
+    expect(res.finishReason).toBe('tool-calls')
+    expect(res.toolCalls).toEqual([
+      { id: 'call_Qm3bW1x8ZpRk2dTfN5vYhL0e', ...expectedCalls[0] },
+      { id: 'call_7sHcV9uJ2aXnE4gKq1rBmW6t', ...expectedCalls[1] }
+    ])
+  })
+
+  it('assembles streamed argument fragments per call index', async () => {
+    server.respond({ headers: { 'content-type': 'text/event-stream' }, body: fixture('openai-tool-calls.sse') })
+    const chunks = await collect(engine('openai').chatStream({ messages, tools }))
+
+    expect(chunks.map((c) => c.delta).join('')).toBe('')
+    const final = chunks[chunks.length - 1].final
+    expect(final?.finishReason).toBe('tool-calls')
+    expect(final?.usage).toEqual({ promptTokens: 184, completionTokens: 52, totalTokens: 236 })
+    expect(final?.toolCalls).toEqual([
+      { id: 'call_Qm3bW1x8ZpRk2dTfN5vYhL0e', ...expectedCalls[0] },
+      { id: 'call_7sHcV9uJ2aXnE4gKq1rBmW6t', ...expectedCalls[1] }
+    ])
+  })
+
+  it('sends earlier calls and their results back', async () => {
+    server.respond({ body: JSON.stringify({ choices: [{ message: { content: 'Done' }, finish_reason: 'stop' }] }) })
+    await engine('openai').chat({
+      messages: [
+        ...messages,
+        { role: 'assistant', content: '', toolCalls: [{ id: 'call_1', ...expectedCalls[0] }] },
+        { role: 'tool', content: 'export default function Page() {}', toolCallId: 'call_1', toolName: 'read_file' }
+      ],
+      tools
+    })
+
+    expect(server.requests[0].body.messages.slice(1)).toEqual([
+      {
+        role: 'assistant',
+        content: null,
+        tool_calls: [
+          { id: 'call_1', type: 'function', function: { name: 'read_file', arguments: '{"path":"app/page.tsx"}' } }
+        ]
+      },
+      { role: 'tool', tool_call_id: 'call_1', content: 'export default function Page() {}' }
+    ])
+  })
+
+  it('rejects arguments that are not a JSON object', async () => {
+    const call = { id: 'call_1', type: 'function', function: { name: 'read_file', arguments: '{"path": "app/' } }
+    server.respond({
+      body: JSON.stringify({
+        choices: [{ message: { content: null, tool_calls: [call] }, finish_reason: 'tool_calls' }]
+      })
+    })
+    const err = await engine('openai')
+      .chat({ messages, tools })
+      .catch((e: unknown) => e)
+
+    expect(err).toBeInstanceOf(EngineError)
+    expect((err as EngineError).code).toBe('bad-response')
+    expect((err as EngineError).message).toContain('invalid arguments for tool "read_file"')
+  })
+})
+
+describe('Ollama tool calling', () => {
+  it('parses tool_calls with object arguments and gives them ids', async () => {
+    server.respond({ body: fixture('ollama-tool-calls.json') })
+    const res = await engine('ollama').chat({ messages, tools })
+
+    expect(server.requests[0].url).toBe('/api/chat')
+    expect(server.requests[0].body.tools).toHaveLength(2)
+    // done_reason is "stop" even when the model called tools.
+    expect(res.finishReason).toBe('tool-calls')
+    expect(res.toolCalls).toMatchObject(expectedCalls)
+    for (const call of res.toolCalls ?? []) expect(call.id).toMatch(/^call_\w+$/)
+    expect(new Set(res.toolCalls?.map((c) => c.id)).size).toBe(2)
+  })
+
+  it('collects whole calls from the stream', async () => {
+    server.respond({ headers: { 'content-type': 'application/x-ndjson' }, body: fixture('ollama-tool-calls.ndjson') })
+    const chunks = await collect(engine('ollama').chatStream({ messages, tools }))
+
+    const final = chunks[chunks.length - 1].final
+    expect(final?.finishReason).toBe('tool-calls')
+    expect(final?.rawFinishReason).toBe('stop')
+    expect(final?.usage).toEqual({ promptTokens: 241, completionTokens: 44, totalTokens: 285 })
+    expect(final?.toolCalls).toMatchObject(expectedCalls)
+  })
+
+  it('sends results by tool name and leaves tools out for toolChoice none', async () => {
+    server.respond({ body: JSON.stringify({ message: { role: 'assistant', content: 'Done' }, done: true }) })
+    await engine('ollama').chat({
+      messages: [
+        ...messages,
+        { role: 'assistant', content: '', toolCalls: [{ id: 'call_1', ...expectedCalls[0] }] },
+        { role: 'tool', content: 'export default function Page() {}', toolCallId: 'call_1', toolName: 'read_file' }
+      ],
+      tools,
+      toolChoice: 'none'
+    })
+
+    const body = server.requests[0].body
+    expect(body.tools).toBeUndefined()
+    expect(body.messages.slice(1)).toEqual([
+      { role: 'assistant', content: '', tool_calls: [{ function: expectedCalls[0] }] },
+      { role: 'tool', content: 'export default function Page() {}', tool_name: 'read_file' }
+    ])
+  })
+})
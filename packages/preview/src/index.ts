@@ -0,0 +1,3 @@
+export * from './types'
+export { createPreviewManager } from './manager'
+export { findFreePort } from './ports'
@@ -0,0 +1,305 @@
+import fssync from 'node:fs'
+import path from 'node:path'
+import { spawn, type ChildProcess } from 'node:child_process'
+import { findFreePort } from './ports'
+import type {
+  PreviewLogLine,
+  PreviewLogStream,
+  PreviewManager,
+  PreviewManagerOptions,
+  PreviewStartOptions,
+  PreviewStatus
+} from './types'
+
+const DEFAULT_BASE_PORT = 3100
+const DEFAULT_READY_TIMEOUT_MS = 120_000
+const DEFAULT_MAX_LOG_LINES = 500
+const STOP_GRACE_MS = 5_000
+const HOST = '127.0.0.1'
+
+interface PreviewEntry {
+  opts: PreviewStartOptions
+  status: PreviewStatus
+  child: ChildProcess | null
+  logs: PreviewLogLine[]
+  ready: Promise<PreviewStatus> | null
+  /**
+   * Bumped on every start/stop so a stale start() can notice it was superseded.
+   */
+  generation: number
+}
+
+function keyFor(projectDir: string) {
+  return path.resolve(projectDir)
+}
+
+function sleep(ms: number) {
+  return new Promise((r) => setTimeout(r, ms))
+}
+
+function binPath(projectDir: string, name: string) {
+  return path.join(projectDir, 'node_modules', '.bin', process.platform === 'win32' ? `${name}.cmd` : name)
+}
+
+function killTree(child: ChildProcess, signal: NodeJS.Signals) {
+  if (child.pid == null || child.exitCode !== null) return
+  if (process.platform === 'win32') {
+    spawn('taskkill', ['/pid', String(child.pid), '/T', '/F'], { stdio: 'ignore' })
+    return
+  }
+  // Children are spawned detached (own process group) so `next dev` workers die with it.
+  try {
+    process.kill(-child.pid, signal)
+  } catch {
+    try {
+      child.kill(signal)
+    } catch {
+      // already gone
+    }
+  }
+}
+
+function waitForExit(child: ChildProcess, timeoutMs: number): Promise<boolean> {
+  if (child.exitCode !== null || child.signalCode !== null) return Promise.resolve(true)
+  return new Promise((resolve) => {
+    const t = setTimeout(() => resolve(false), timeoutMs)
+    child.once('exit', () => {
+      clearTimeout(t)
+      resolve(true)
+    })
+  })
+}
+
+export function createPreviewManager(managerOpts: PreviewManagerOptions = {}): PreviewManager {
+  const entries = new Map<string, PreviewEntry>()
+  const maxLogLines = managerOpts.maxLogLines ?? DEFAULT_MAX_LOG_LINES
+  const basePort = managerOpts.basePort ?? DEFAULT_BASE_PORT
+
+  function setStatus(entry: PreviewEntry, patch: Partial<PreviewStatus>) {
+    entry.status = { ...entry.status, ...patch }
+    managerOpts.onStatus?.(entry.status)
+  }
+
+  function log(entry: PreviewEntry, stream: PreviewLogStream, text: string) {
+    const line: PreviewLogLine = { ts: new Date().toISOString(), stream, text }
+    entry.logs.push(line)
+    if (entry.logs.length > maxLogLines) entry.logs.splice(0, entry.logs.length - maxLogLines)
+    managerOpts.onLog?.(entry.status.projectDir, line)
+  }
+
+  function pipeLogs(entry: PreviewEntry, child: ChildProcess) {
+    const forward = (stream: PreviewLogStream) => (buf: Buffer) => {
+      for (const raw of buf.toString('utf-8').split(/\r?\n/)) {
+        const text = raw.trimEnd()
+        if (text) log(entry, stream, text)
+      }
+    }
+    child.stdout?.on('data', forward('stdout'))
+    child.stderr?.on('data', forward('stderr'))
+  }
+
+  function spawnLogged(entry: PreviewEntry, cmd: string, args: string[], extraEnv: Record<string, string> = {}) {
+    log(entry, 'system', `$ ${cmd} ${args.join(' ')}`)
+    const child = spawn(cmd, args, {
+      cwd: entry.opts.projectDir,
+      env: { ...process.env, ...extraEnv },
+      stdio: ['ignore', 'pipe', 'pipe'],
+      detached: process.platform !== 'win32',
+      shell: process.platform === 'win32'
+    })
+    entry.child = child
+    pipeLogs(entry, child)
+    return child
+  }
+
+  async function installIfNeeded(entry: PreviewEntry, generation: number) {
+    const projectDir = entry.opts.projectDir
+    if (fssync.existsSync(path.join(projectDir, 'node_modules'))) return
+
+    setStatus(entry, { state: 'installing', error: undefined })
+    const pm = entry.opts.packageManager ?? 'npm'
+    const child = spawnLogged(entry, pm, ['install'])
+
+    const code = await new Promise<number | null>((resolve, reject) => {
+      child.once('error', reject)
+      child.once('exit', (c) => resolve(c))
+    })
+    entry.child = null
+
+    if (entry.generation !== generation) throw new Error('Preview was stopped')
+    if (code !== 0) throw new Error(`${pm} install failed with code ${code}`)
+  }
+
+  async function waitForReady(entry: PreviewEntry, child: ChildProcess, url: string, generation: number) {
+    const timeoutMs = entry.opts.readyTimeoutMs ?? DEFAULT_READY_TIMEOUT_MS
+    const deadline = Date.now() + timeoutMs
+
+    while (Date.now() < deadline) {
+      if (entry.generation !== generation) throw new Error('Preview was stopped')
+      if (child.exitCode !== null || child.signalCode !== null) {
+        throw new Error(`Dev server exited before it was ready (code ${child.exitCode ?? child.signalCode})`)
+      }
+
+      try {
+        // Any HTTP response (even a 404/500 from a broken page) means the server is up.
+        await fetch(url, { signal: AbortSignal.timeout(2_000) })
+        return
+      } catch {
+        // not listening yet
+      }
+      await sleep(500)
+    }
+
+    throw new Error(`Dev server did not become ready within ${Math.round(timeoutMs / 1000)}s`)
+  }
+
+  async function doStart(entry: PreviewEntry, generation: number): Promise<PreviewStatus> {
+    const projectDir = entry.opts.projectDir
+    let spawned: ChildProcess | null = null
+
+    try {
+      await installIfNeeded(entry, generation)
+
+      const usedPorts = new Set(
+        Array.from(entries.values())
+          .filter((e) => e !== entry && e.status.port != null)
+          .map((e) => e.status.port as number)
+      )
+      const port = await findFreePort(entry.opts.port ?? basePort, usedPorts, HOST)
+      if (entry.generation !== generation) throw new Error('Preview was stopped')
+      const url = `http://${HOST}:${port}`
+
+      const nextBin = binPath(projectDir, 'next')
+      const [cmd, args] = fssync.existsSync(nextBin)
+        ? [nextBin, ['dev', '-p', String(port), '-H', HOST]]
+        : ['npx', ['next', 'dev', '-p', String(port), '-H', HOST]]
+
+      const child = spawnLogged(entry, cmd, args, {
+        PORT: String(port),
+        BROWSER: 'none',
+        NEXT_TELEMETRY_DISABLED: '1'
+      })
+      spawned = child
+
+      child.once('exit', (code, signal) => {
+        if (entry.child === child) entry.child = null
+        log(entry, 'system', `Dev server exited (${code ?? signal})`)
+        // Unexpected exit after the server was ready: surface it.
+        if (entry.generation === generation && entry.status.state === 'ready') {
+          setStatus(entry, { state: 'error', error: `Dev server exited (${code ?? signal})`, pid: undefined })
+        }
+      })
+
+      setStatus(entry, {
+        state: 'starting',
+        port,
+        url,
+        pid: child.pid,
+        error: undefined,
+        startedAt: new Date().toISOString()
+      })
+
+      await waitForReady(entry, child, url, generation)
+      setStatus(entry, { state: 'ready' })
+      log(entry, 'system', `Preview ready at ${url}`)
+      return entry.status
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err)
+      // The server this call spawned is its own to clean up, even once a stop or restart has
+      // handed the entry (and its status) to a newer generation.
+      if (spawned) killTree(spawned, 'SIGTERM')
+      if (entry.generation === generation) {
+        log(entry, 'system', message)
+        if (entry.child && entry.child !== spawned) killTree(entry.child, 'SIGTERM')
+        setStatus(entry, { state: 'error', error: message, pid: undefined })
+      }
+      throw err
+    } finally {
+      if (entry.generation === generation) entry.ready = null
+    }
+  }
+
+  async function stopEntry(entry: PreviewEntry) {
+    entry.generation++
+    entry.ready = null
+    const child = entry.child
+    if (child) {
+      log(entry, 'system', 'Stopping dev server…')
+      killTree(child, 'SIGTERM')
+      if (!(await waitForExit(child, STOP_GRACE_MS))) {
+        killTree(child, 'SIGKILL')
+        await waitForExit(child, STOP_GRACE_MS)
+      }
+      entry.child = null
+    }
+    setStatus(entry, { state: 'stopped', pid: undefined, port: undefined, url: undefined, error: undefined })
+  }
+
+  const manager: PreviewManager = {
+    async start(opts) {
+      const key = keyFor(opts.projectDir)
+      let entry = entries.get(key)
+
+      if (entry && entry.ready) return entry.ready
+      if (entry && entry.status.state === 'ready' && entry.child) return entry.status
+
+      if (!entry) {
+        entry = {
+          opts: { ...opts, projectDir: key },
+          status: { projectDir: key, state: 'stopped' },
+          child: null,
+          logs: [],
+          ready: null,
+          generation: 0
+        }
+        entries.set(key, entry)
+      } else {
+        entry.opts = { ...opts, projectDir: key }
+      }
+
+      const generation = ++entry.generation
+      setStatus(entry, { state: 'starting', error: undefined })
+      entry.ready = doStart(entry, generation)
+      return entry.ready
+    },
+
+    async stop(projectDir) {
+      const entry = entries.get(keyFor(projectDir))
+      if (!entry) return
+      await stopEntry(entry)
+    },
+
+    async restart(projectDir) {
+      const entry = entries.get(keyFor(projectDir))
+      if (!entry) throw new Error(`No preview has been started for ${projectDir}`)
+      const opts = entry.opts
+      await stopEntry(entry)
+      return manager.start(opts)
+    },
+
+    status(projectDir) {
+      const key = keyFor(projectDir)
+      return entries.get(key)?.status ?? { projectDir: key, state: 'stopped' }
+    },
+
+    logs(projectDir, opts) {
+      const logs = entries.get(keyFor(projectDir))?.logs ?? []
+      return opts?.limit ? logs.slice(-opts.limit) : logs.slice()
+    },
+
+    async stopAll() {
+      await Promise.all(Array.from(entries.values()).map((e) => stopEntry(e)))
+    },
+
+    isRunning(projectDir) {
+      const isLive = (e: PreviewEntry) => !!e.child || !!e.ready
+      if (projectDir) {
+        const entry = entries.get(keyFor(projectDir))
+        return !!entry && isLive(entry)
+      }
+      return Array.from(entries.values()).some(isLive)
+    }
+  }
+
+  return manager
+}
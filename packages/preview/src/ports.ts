@@ -0,0 +1,22 @@
+import net from 'node:net'
+
+function isPortFree(port: number, host: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    const server = net.createServer()
+    server.once('error', () => resolve(false))
+    server.once('listening', () => server.close(() => resolve(true)))
+    server.listen(port, host)
+  })
+}
+
+/**
+ * Find a free TCP port, starting at `start` and skipping `exclude`
+ * (ports already handed out to other previews that may not be listening yet).
+ */
+export async function findFreePort(start: number, exclude: Set<number> = new Set(), host = '127.0.0.1') {
+  for (let port = start; port < start + 200 && port <= 65535; port++) {
+    if (exclude.has(port)) continue
+    if (await isPortFree(port, host)) return port
+  }
+  throw new Error(`No free port found in range ${start}-${start + 199}`)
+}
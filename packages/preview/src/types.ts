@@ -0,0 +1,79 @@
+export type PackageManager = 'pnpm' | 'yarn' | 'npm'
+
+export type PreviewState = 'stopped' | 'installing' | 'starting' | 'ready' | 'error'
+
+export interface PreviewStatus {
+  projectDir: string
+  state: PreviewState
+  port?: number
+  /**
+   * Set once the dev server has been spawned (not necessarily ready yet).
+   */
+  url?: string
+  pid?: number
+  error?: string
+  startedAt?: string
+}
+
+export type PreviewLogStream = 'stdout' | 'stderr' | 'system'
+
+export interface PreviewLogLine {
+  ts: string
+  stream: PreviewLogStream
+  text: string
+}
+
+export interface PreviewStartOptions {
+  projectDir: string
+  /**
+   * Used for the initial install when node_modules is missing. Defaults to npm.
+   */
+  packageManager?: PackageManager
+  /**
+   * Preferred port. If taken, the next free port is used.
+   */
+  port?: number
+  /**
+   * How long to wait for the dev server to answer HTTP requests. Default: 120s.
+   */
+  readyTimeoutMs?: number
+}
+
+export interface PreviewManagerOptions {
+  /**
+   * Called on every state change of any preview.
+   */
+  onStatus?: (status: PreviewStatus) => void
+  /**
+   * Called for every log line of any preview.
+   */
+  onLog?: (projectDir: string, line: PreviewLogLine) => void
+  /**
+   * Log lines kept per project. Default: 500.
+   */
+  maxLogLines?: number
+  /**
+   * First port tried when allocating. Default: 3100.
+   */
+  basePort?: number
+}
+
+export interface PreviewManager {
+  /**
+   * Start the dev server for a project (no-op if it's already starting/ready).
+   * Resolves once the server answers HTTP requests.
+   */
+  start(opts: PreviewStartOptions): Promise<PreviewStatus>
+  stop(projectDir: string): Promise<void>
+  /**
+   * Stop + start with the options of the last start() call.
+   */
+  restart(projectDir: string): Promise<PreviewStatus>
+  status(projectDir: string): PreviewStatus
+  logs(projectDir: string, opts?: { limit?: number }): PreviewLogLine[]
+  /**
+   * Stop every running preview (call on app quit).
+   */
+  stopAll(): Promise<void>
+  isRunning(projectDir?: string): boolean
+}